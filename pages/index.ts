@@ -14,6 +14,7 @@ import "../src/css/index.scss";
 import createTyperighterPlugin from "../src/ts/createTyperighterPlugin";
 import createView from "../src/ts/createView";
 import { createBoundCommands } from "../src/ts/commands";
+import { createTyperighterKeymap } from "../src/ts/keymap";
 import MatcherService from "../src/ts/services/MatcherService";
 import { TyperighterAdapter } from "../src/ts";
 import TyperighterTelemetryAdapter from "../src/ts/services/TyperighterTelemetryAdapter";
@@ -50,7 +51,7 @@ const typerighterTelemetryAdapter = new TyperighterTelemetryAdapter(
   "DEV"
 );
 
-const { plugin: validatorPlugin, store, getState } = createTyperighterPlugin({
+const { plugin: validatorPlugin, store, pluginKey } = createTyperighterPlugin({
   isElementPartOfTyperighterUI,
   filterOptions: {
     filterMatches: filterByMatchState,
@@ -67,6 +68,7 @@ if (editorElement && sidebarNode) {
     state: EditorState.create({
       doc,
       plugins: [
+        createTyperighterKeymap(pluginKey),
         ...exampleSetup({
           schema: mySchema,
           history: false,
@@ -83,7 +85,7 @@ if (editorElement && sidebarNode) {
   const getScrollOffset = () =>
     editorElement.getBoundingClientRect().height / 2 - menuHeight;
 
-  const commands = createBoundCommands(view, getState);
+  const commands = createBoundCommands(view, pluginKey);
 
   const matcherService = new MatcherService(
     store,
@@ -1,4 +1,5 @@
-import { Transaction, EditorState } from "prosemirror-state";
+import { Transaction, EditorState, TextSelection } from "prosemirror-state";
+import sortBy from "lodash/sortBy";
 import {
   newHoverIdReceived,
   requestMatchesForDocument,
@@ -8,26 +9,54 @@ import {
   requestError,
   requestMatchesForDirtyRanges,
   requestMatchesComplete,
-  removeMatch,
+  requestMatchesCancelled,
+  markMatchAsIgnored,
+  markMatchesAsIgnored,
   removeAllMatches,
   newHighlightIdReceived,
-  setFilterState
+  newSuggestionPreview,
+  setFilterState,
+  setRetryState,
+  setConnectionStatus,
+  restoreState,
+  setIgnoreList,
+  suggestionsApplied,
+  receiveCollabMessage
 } from "./state/actions";
 import {
   selectMatchByMatchId,
-  selectAllAutoFixableMatches
+  selectAllAutoFixableMatches,
+  selectMatchAtPosition,
+  selectVisibleMatches
 } from "./state/selectors";
 import {
-  PROSEMIRROR_TYPERIGHTER_ACTION,
   IPluginState,
-  IPluginConfig
+  IPluginConfig,
+  IRetryState
 } from "./state/reducer";
 import {
   IMatcherResponse,
   TMatchRequestErrorWithDefault
 } from "./interfaces/IMatch";
+import { TConnectionStatus } from "./interfaces/IMatcherAdapter";
+import {
+  IIgnoreList,
+  IGNORE_SCOPE_OCCURRENCE,
+  TIgnoreScope
+} from "./interfaces/IIgnoreStore";
+import {
+  ISerialisedTyperighterState,
+  serialiseTyperighterState,
+  validateSerialisedState
+} from "./state/serialise";
+import { TCollabMessage } from "./interfaces/ICollab";
 import { EditorView } from "prosemirror-view";
+import { TPluginKey } from "./utils/plugin";
 import { compact } from "./utils/array";
+import {
+  getPreferredSuggestion,
+  removeConflictingSuggestions
+} from "./utils/match";
 import {
   getPatchesFromReplacementText,
   applyPatchToTransaction
@@ -38,22 +67,25 @@ type Command = (
   dispatch?: (tr: Transaction) => void
 ) => boolean;
 
-type GetState<TPluginState extends IPluginState = IPluginState> = (
-  state: EditorState
-) => TPluginState;
+/**
+ * A command for a particular instance of the plugin, identified by its key.
+ */
+type TyperighterCommand = (pluginKey: TPluginKey) => Command;
 
 /**
- * Requests matches for an entire document.
+ * Requests matches for an entire document. Blocks that haven't changed
+ * since they were last checked are skipped, unless `force` is true.
  */
 export const requestMatchesForDocumentCommand = (
   requestId: string,
-  categoryIds: string[]
-): Command => (state, dispatch) => {
+  categoryIds: string[],
+  force = false
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
-        requestMatchesForDocument(requestId, categoryIds)
+        pluginKey,
+        requestMatchesForDocument(requestId, categoryIds, force)
       )
     );
   }
@@ -66,11 +98,11 @@ export const requestMatchesForDocumentCommand = (
 export const requestMatchesForDirtyRangesCommand = (
   requestId: string,
   categoryIds: string[]
-): Command => (state, dispatch) => {
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         requestMatchesForDirtyRanges(requestId, categoryIds)
       )
     );
@@ -82,14 +114,14 @@ export const requestMatchesForDirtyRangesCommand = (
 /**
  * Indicate the user is hovering over a match.
  */
-export const startHoverCommand = (matchId: string, rectIndex: number | undefined): Command => (
-  state,
-  dispatch
-) => {
+export const startHoverCommand = (
+  matchId: string,
+  rectIndex: number | undefined
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         newHoverIdReceived(matchId, rectIndex)
       )
     );
@@ -100,11 +132,14 @@ export const startHoverCommand = (matchId: string, rectIndex: number | undefined
 /**
  * Indicate that the user is no longer hovering over a match.
  */
-export const stopHoverCommand = (): Command => (state, dispatch) => {
+export const stopHoverCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         newHoverIdReceived(undefined, undefined)
       )
     );
@@ -112,20 +147,48 @@ export const stopHoverCommand = (): Command => (state, dispatch) => {
   return true;
 };
 
+/**
+ * Preview the result of applying the given suggestion text to a match in
+ * the document, replacing any current preview.
+ */
+export const startSuggestionPreviewCommand = (
+  matchId: string,
+  text: string
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(state.tr.setMeta(pluginKey, newSuggestionPreview(matchId, text)));
+  }
+  return true;
+};
+
+/**
+ * Remove the current suggestion preview.
+ */
+export const stopSuggestionPreviewCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(pluginKey, newSuggestionPreview(undefined, undefined))
+    );
+  }
+  return true;
+};
+
 /**
  * Indicate the user is highlighting a match decoration.
  *
  * The highlight state indicates that we'd like to draw the user's
  * attention to this match, without additional UI elements, e.g. tooltips.
  */
-export const startHighlightCommand = (matchId: string): Command => (
-  state,
-  dispatch
-) => {
+export const startHighlightCommand = (
+  matchId: string
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         newHighlightIdReceived(matchId)
       )
     );
@@ -136,11 +199,14 @@ export const startHighlightCommand = (matchId: string): Command => (
 /**
  * Indicate that the user is no longer highlighting a match decoration.
  */
-export const stopHighlightCommand = (): Command => (state, dispatch) => {
+export const stopHighlightCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         newHighlightIdReceived(undefined)
       )
     );
@@ -151,18 +217,86 @@ export const stopHighlightCommand = (): Command => (state, dispatch) => {
 /**
  * Mark a given match as active.
  */
-export const selectMatchCommand = <TPluginState extends IPluginState>(
-  matchId: string,
-  getState: GetState<TPluginState>
-): Command => (state, dispatch) => {
-  const pluginState = getState(state);
+export const selectMatchCommand = (
+  matchId: string
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const pluginState = pluginKey.getState(state);
   const output = selectMatchByMatchId(pluginState, matchId);
   if (!output) {
     return false;
   }
   if (dispatch) {
     dispatch(
-      state.tr.setMeta(PROSEMIRROR_TYPERIGHTER_ACTION, selectMatch(matchId))
+      state.tr.setMeta(pluginKey, selectMatch(matchId))
+    );
+  }
+  return true;
+};
+
+/**
+ * Select the next or previous visible match relative to the cursor,
+ * wrapping around the document, and open the overlay for it. Focus stays
+ * in the editor, so the user can carry on reviewing from the keyboard.
+ */
+const createSelectAdjacentMatchCommand = (
+  direction: "next" | "previous"
+) => (): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const pluginState = pluginKey.getState(state);
+  const matches = sortBy(selectVisibleMatches(pluginState), "from");
+  if (!matches.length) {
+    return false;
+  }
+  // If the cursor is within the selected match, we step from the start of
+  // that match, so we don't select it again.
+  const { from } = state.selection;
+  const selectedMatch =
+    pluginState.selectedMatch &&
+    selectMatchByMatchId(pluginState, pluginState.selectedMatch);
+  const isAtSelectedMatch =
+    !!selectedMatch && selectedMatch.from <= from && from <= selectedMatch.to;
+  const position = isAtSelectedMatch ? selectedMatch!.from : from;
+  const match =
+    direction === "next"
+      ? matches.find(_ =>
+          isAtSelectedMatch ? _.from > position : _.from >= position
+        ) || matches[0]
+      : [...matches].reverse().find(_ => _.from < position) ||
+        matches[matches.length - 1];
+  if (dispatch) {
+    dispatch(
+      state.tr
+        .setSelection(TextSelection.create(state.doc, match.from))
+        .scrollIntoView()
+        .setMeta(pluginKey, selectMatch(match.matchId, true))
+    );
+  }
+  return true;
+};
+
+export const selectNextMatchCommand = createSelectAdjacentMatchCommand("next");
+
+export const selectPreviousMatchCommand = createSelectAdjacentMatchCommand(
+  "previous"
+);
+
+/**
+ * Open the overlay for the match at the cursor, selecting it, and move
+ * focus to the overlay.
+ */
+export const openOverlayForMatchAtCursorCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
+  const match = selectMatchAtPosition(
+    pluginKey.getState(state),
+    state.selection.from
+  );
+  if (!match) {
+    return false;
+  }
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(pluginKey, selectMatch(match.matchId, true, true))
     );
   }
   return true;
@@ -177,11 +311,11 @@ export const setConfigValueCommand = <
 >(
   key: ConfigKey,
   value: ConfigValue
-): Command => (state, dispatch) => {
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         setConfigValue(key, value)
       )
     );
@@ -194,11 +328,11 @@ export const setConfigValueCommand = <
  */
 export const setFilterStateCommand = <TPluginState extends IPluginState>(
   filterState: TPluginState["filterState"]
-): Command => (state, dispatch) => {
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         setFilterState(filterState)
       )
     );
@@ -206,16 +340,47 @@ export const setFilterStateCommand = <TPluginState extends IPluginState>(
   return true;
 };
 
+/**
+ * Set the current retry state, or clear it by passing undefined.
+ */
+export const setRetryStateCommand = (
+  retryState: IRetryState | undefined
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(pluginKey, setRetryState(retryState))
+    );
+  }
+  return true;
+};
+
+/**
+ * Set the status of the matcher adapter's connection to its service.
+ */
+export const setConnectionStatusCommand = (
+  connectionStatus: TConnectionStatus
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(
+        pluginKey,
+        setConnectionStatus(connectionStatus)
+      )
+    );
+  }
+  return true;
+};
+
 /**
  * Apply a successful matcher response to the document.
  */
 export const applyMatcherResponseCommand = (
   matcherResponse: IMatcherResponse
-): Command => (state, dispatch) => {
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         requestMatchesSuccess(matcherResponse)
       )
     );
@@ -230,11 +395,11 @@ export const applyMatcherResponseCommand = (
  */
 export const applyRequestErrorCommand = (
   matchRequestError: TMatchRequestErrorWithDefault
-): Command => (state, dispatch) => {
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         requestError({
           ...matchRequestError,
           type: matchRequestError.type || "GENERAL_ERROR"
@@ -248,14 +413,13 @@ export const applyRequestErrorCommand = (
 /**
  * Mark the
  */
-export const applyRequestCompleteCommand = (requestId: string): Command => (
-  state,
-  dispatch
-) => {
+export const applyRequestCompleteCommand = (
+  requestId: string
+): TyperighterCommand => pluginKey => (state, dispatch) => {
   if (dispatch) {
     dispatch(
       state.tr.setMeta(
-        PROSEMIRROR_TYPERIGHTER_ACTION,
+        pluginKey,
         requestMatchesComplete(requestId)
       )
     );
@@ -263,6 +427,26 @@ export const applyRequestCompleteCommand = (requestId: string): Command => (
   return true;
 };
 
+/**
+ * Mark a request as cancelled, returning the blocks it was waiting on to
+ * the dirtied ranges. If blockIds are given, only those blocks are
+ * cancelled.
+ */
+export const applyRequestCancelledCommand = (
+  requestId: string,
+  blockIds?: string[]
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(
+        pluginKey,
+        requestMatchesCancelled(requestId, blockIds)
+      )
+    );
+  }
+  return true;
+};
+
 export type ApplySuggestionOptions = Array<{
   matchId: string;
   text: string;
@@ -272,15 +456,15 @@ export type ApplySuggestionOptions = Array<{
  * Applies a suggestion from a match to the document.
  */
 export const applySuggestionsCommand = (
-  suggestionOptions: ApplySuggestionOptions,
-  getState: GetState
-): Command => (state, dispatch) => {
-  const pluginState = getState(state);
+  suggestionOptions: ApplySuggestionOptions
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const pluginState = pluginKey.getState(state);
   const suggestionsToApply = suggestionOptions
     .map(opt => {
       const maybeMatch = selectMatchByMatchId(pluginState, opt.matchId);
       return maybeMatch
         ? {
+            matchId: maybeMatch.matchId,
             from: maybeMatch.from,
             to: maybeMatch.to,
             text: opt.text
@@ -289,18 +473,64 @@ export const applySuggestionsCommand = (
     })
     .filter(compact);
 
-  return maybeApplySuggestions(suggestionsToApply, state, dispatch);
+  return maybeApplySuggestions(suggestionsToApply, pluginKey, state, dispatch);
+};
+
+/**
+ * Applies the first suggestion for the selected match.
+ */
+export const applyFirstSuggestionForSelectedMatchCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
+  const pluginState = pluginKey.getState(state);
+  const match =
+    pluginState.selectedMatch &&
+    selectMatchByMatchId(pluginState, pluginState.selectedMatch);
+  const suggestion = match && getPreferredSuggestion(match);
+  if (!match || !suggestion) {
+    return false;
+  }
+  return applySuggestionsCommand([
+    { matchId: match.matchId, text: suggestion.text }
+  ])(pluginKey)(state, dispatch);
+};
+
+/**
+ * Applies the replacement, or the first suggestion, for each of the given
+ * matches. The changes are made in a single transaction, so they can be
+ * undone in one step.
+ */
+export const applySuggestionsForMatchesCommand = (
+  matchIds: string[]
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const pluginState = pluginKey.getState(state);
+  const suggestionsToApply = matchIds
+    .map(matchId => selectMatchByMatchId(pluginState, matchId))
+    .filter(compact)
+    .map(match => {
+      const suggestion = getPreferredSuggestion(match);
+      return {
+        matchId: match.matchId,
+        from: match.from,
+        to: match.to,
+        text: suggestion && suggestion.text
+      };
+    });
+  return maybeApplySuggestions(suggestionsToApply, pluginKey, state, dispatch);
 };
 
 /**
  * Applies the first suggestion for each rule marked as auto-fixable.
  */
-export const applyAutoFixableSuggestionsCommand = (
-  getState: GetState
-): Command => (state, dispatch) => {
-  const pluginState = getState(state);
+export const applyAutoFixableSuggestionsCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
+  const pluginState = pluginKey.getState(state);
   const suggestionsToApply = selectAllAutoFixableMatches(pluginState).map(
     output => ({
+      matchId: output.matchId,
       from: output.from,
       to: output.to,
       text:
@@ -309,42 +539,76 @@ export const applyAutoFixableSuggestionsCommand = (
           : undefined
     })
   );
-  return maybeApplySuggestions(suggestionsToApply, state, dispatch);
+  return maybeApplySuggestions(suggestionsToApply, pluginKey, state, dispatch);
 };
 
 /**
  * Ignore a match, removing it from the plugin state.
  * Returns true if the match was found, false if not.
  */
-export const ignoreMatchCommand = (id: string) => (getState: GetState) => (
-  state: EditorState,
-  dispatch?: (tr: Transaction<any>) => void
-): boolean => {
-  const match = selectMatchByMatchId(getState(state), id);
+export const ignoreMatchCommand = (
+  id: string,
+  scope: TIgnoreScope = IGNORE_SCOPE_OCCURRENCE
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const match = selectMatchByMatchId(pluginKey.getState(state), id);
   if (match && dispatch) {
-    dispatch(state.tr.setMeta(PROSEMIRROR_TYPERIGHTER_ACTION, removeMatch(id)));
+    dispatch(
+      state.tr.setMeta(
+        pluginKey,
+        markMatchAsIgnored(id, scope)
+      )
+    );
   }
   return !!match;
 };
 
-export const clearMatchesCommand = () => <TPluginState extends IPluginState>(
-  _: GetState<TPluginState>
-) => (
-  state: EditorState,
-  dispatch?: (tr: Transaction<any>) => void
-): boolean => {
+/**
+ * Ignore several matches at once. Returns true if any of the matches were
+ * found, false if not.
+ */
+export const ignoreMatchesCommand = (
+  ids: string[],
+  scope: TIgnoreScope = IGNORE_SCOPE_OCCURRENCE
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const pluginState = pluginKey.getState(state);
+  const hasMatches = ids.some(id => !!selectMatchByMatchId(pluginState, id));
+  if (hasMatches && dispatch) {
+    dispatch(state.tr.setMeta(pluginKey, markMatchesAsIgnored(ids, scope)));
+  }
+  return hasMatches;
+};
+
+/**
+ * Ignore the selected match.
+ */
+export const ignoreSelectedMatchCommand = (
+  scope: TIgnoreScope = IGNORE_SCOPE_OCCURRENCE
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const { selectedMatch } = pluginKey.getState(state);
+  return (
+    !!selectedMatch &&
+    ignoreMatchCommand(selectedMatch, scope)(pluginKey)(state, dispatch)
+  );
+};
+
+export const clearMatchesCommand = (): TyperighterCommand => pluginKey => (
+  state,
+  dispatch
+) => {
   if (dispatch) {
-    dispatch(state.tr.setMeta(PROSEMIRROR_TYPERIGHTER_ACTION, removeAllMatches()));
+    dispatch(state.tr.setMeta(pluginKey, removeAllMatches()));
   }
   return true;
 };
 
 const maybeApplySuggestions = (
   suggestionsToApply: Array<{
+    matchId: string;
     from: number;
     to: number;
     text: string | undefined;
   }>,
+  pluginKey: TPluginKey,
   state: EditorState,
   dispatch?: (tr: Transaction<any>) => void
 ) => {
@@ -356,8 +620,12 @@ const maybeApplySuggestions = (
     return true;
   }
 
+  const suggestionsWithoutConflicts = removeConflictingSuggestions(
+    suggestionsToApply
+  );
+
   const tr = state.tr;
-  suggestionsToApply.forEach(({ from, to, text }) => {
+  suggestionsWithoutConflicts.forEach(({ from, to, text }) => {
     if (!text) {
       return;
     }
@@ -376,47 +644,125 @@ const maybeApplySuggestions = (
     );
   });
 
-  dispatch(tr);
+  dispatch(
+    tr.setMeta(
+      pluginKey,
+      suggestionsApplied(suggestionsWithoutConflicts.map(_ => _.matchId))
+    )
+  );
 
   return true;
 };
 
+/**
+ * Set the rules and words the user has chosen to ignore.
+ */
+export const setIgnoreListCommand = (
+  ignoreList: IIgnoreList
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(pluginKey, setIgnoreList(ignoreList))
+    );
+  }
+  return true;
+};
+
+/**
+ * Restore a state serialised with `serialiseTyperighterState`, dropping any
+ * matches that no longer agree with the document. Returns false if the
+ * state can't be restored.
+ */
+export const restoreTyperighterStateCommand = <
+  TPluginState extends IPluginState
+>(
+  serialisedState: ISerialisedTyperighterState<TPluginState>
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  const restoredState = validateSerialisedState(serialisedState, state.doc);
+  if (!restoredState) {
+    return false;
+  }
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(
+        pluginKey,
+        restoreState(restoredState)
+      )
+    );
+  }
+  return true;
+};
+
+/**
+ * Apply a message from another client in a collaborative session.
+ */
+export const receiveCollabMessageCommand = <TPluginState extends IPluginState>(
+  message: TCollabMessage<TPluginState["currentMatches"][0]>
+): TyperighterCommand => pluginKey => (state, dispatch) => {
+  if (dispatch) {
+    dispatch(
+      state.tr.setMeta(
+        pluginKey,
+        receiveCollabMessage(message)
+      )
+    );
+  }
+  return true;
+};
+
 /**
  * Create a palette of prosemirror-typerighter commands bound to the given EditorView.
  */
 export const createBoundCommands = <TPluginState extends IPluginState>(
   view: EditorView,
-  getState: GetState<TPluginState>
+  pluginKey: TPluginKey<TPluginState>
 ) => {
   const bindCommand = <CommandArgs extends any[]>(
-    action: (...args: CommandArgs) => Command
-  ) => (...args: CommandArgs) => action(...args)(view.state, view.dispatch);
+    action: (...args: CommandArgs) => TyperighterCommand
+  ) => (...args: CommandArgs) =>
+    action(...args)(pluginKey)(view.state, view.dispatch);
   return {
-    ignoreMatch: (id: string) =>
-      ignoreMatchCommand(id)(getState)(view.state, view.dispatch),
-    clearMatches: () => clearMatchesCommand()(getState)(view.state, view.dispatch),
-    applySuggestions: (suggestionOpts: ApplySuggestionOptions) =>
-      applySuggestionsCommand(suggestionOpts, getState)(
-        view.state,
-        view.dispatch
-      ),
-    selectMatch: (blockId: string) =>
-      selectMatchCommand(blockId, getState)(view.state, view.dispatch),
-    applyAutoFixableSuggestions: () =>
-      applyAutoFixableSuggestionsCommand(getState)(view.state, view.dispatch),
+    ignoreMatch: bindCommand(ignoreMatchCommand),
+    ignoreMatches: bindCommand(ignoreMatchesCommand),
+    clearMatches: bindCommand(clearMatchesCommand),
+    applySuggestions: bindCommand(applySuggestionsCommand),
+    applySuggestionsForMatches: bindCommand(applySuggestionsForMatchesCommand),
+    selectMatch: bindCommand(selectMatchCommand),
+    selectNextMatch: bindCommand(selectNextMatchCommand),
+    selectPreviousMatch: bindCommand(selectPreviousMatchCommand),
+    openOverlayForMatchAtCursor: bindCommand(
+      openOverlayForMatchAtCursorCommand
+    ),
+    applyFirstSuggestionForSelectedMatch: bindCommand(
+      applyFirstSuggestionForSelectedMatchCommand
+    ),
+    ignoreSelectedMatch: bindCommand(ignoreSelectedMatchCommand),
+    applyAutoFixableSuggestions: bindCommand(
+      applyAutoFixableSuggestionsCommand
+    ),
     requestMatchesForDocument: bindCommand(requestMatchesForDocumentCommand),
     requestMatchesForDirtyRanges: bindCommand(
       requestMatchesForDirtyRangesCommand
     ),
     indicateHover: bindCommand(startHoverCommand),
     stopHover: bindCommand(stopHoverCommand),
+    previewSuggestion: bindCommand(startSuggestionPreviewCommand),
+    stopSuggestionPreview: bindCommand(stopSuggestionPreviewCommand),
     indicateHighlight: bindCommand(startHighlightCommand),
     stopHighlight: bindCommand(stopHighlightCommand),
     setConfigValue: bindCommand(setConfigValueCommand),
     applyMatcherResponse: bindCommand(applyMatcherResponseCommand),
     applyRequestError: bindCommand(applyRequestErrorCommand),
     applyRequestComplete: bindCommand(applyRequestCompleteCommand),
-    setFilterState: bindCommand(setFilterStateCommand)
+    applyRequestCancelled: bindCommand(applyRequestCancelledCommand),
+    setFilterState: bindCommand(setFilterStateCommand),
+    setRetryState: bindCommand(setRetryStateCommand),
+    setConnectionStatus: bindCommand(setConnectionStatusCommand),
+    setIgnoreList: bindCommand(setIgnoreListCommand),
+    restoreTyperighterState: bindCommand(restoreTyperighterStateCommand),
+    receiveCollabMessage: bindCommand(receiveCollabMessageCommand),
+    serialiseTyperighterState: () =>
+      serialiseTyperighterState(pluginKey.getState(view.state), view.state.doc)
   };
 };
 
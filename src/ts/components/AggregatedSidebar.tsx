@@ -0,0 +1,184 @@
+import React, { useState, useEffect, useContext } from "react";
+import IconButton from "@material-ui/core/IconButton";
+import { DeleteForever } from "@material-ui/icons";
+import { Switch } from "@material-ui/core";
+
+import EditorAggregator, {
+  IAggregatedEditorState
+} from "../services/EditorAggregator";
+import { IPluginState } from "../state/reducer";
+import {
+  selectMatches,
+  selectPercentRemainingForStates,
+  selectRequestsInProgress
+} from "../state/selectors";
+import SidebarMatches from "./SidebarMatches";
+import FilterResults from "./FilterResults";
+import TelemetryContext from "../contexts/TelemetryContext";
+
+interface IProps<TPluginState extends IPluginState> {
+  aggregator: EditorAggregator<TPluginState>;
+  contactHref?: string;
+  getScrollOffset: () => number;
+}
+
+/**
+ * Displays the matches for several editors, grouped by field, with controls
+ * to check them all at once.
+ */
+const AggregatedSidebar = <TPluginState extends IPluginState>({
+  aggregator,
+  contactHref,
+  getScrollOffset
+}: IProps<TPluginState>) => {
+  const [editorStates, setEditorStates] = useState<
+    Array<IAggregatedEditorState<TPluginState>>
+  >([]);
+  const [sortAndGroup, setSortAndGroup] = useState<boolean>(true);
+  const { telemetryAdapter } = useContext(TelemetryContext);
+
+  useEffect(() => {
+    setEditorStates(aggregator.getEditorStates());
+    aggregator.on(setEditorStates);
+    return () => aggregator.removeEventListener(setEditorStates);
+  }, []);
+
+  const states = editorStates
+    .map(({ state }) => state)
+    .filter((state): state is TPluginState => !!state);
+  const isLoading = states.some(selectRequestsInProgress);
+  const percentRemaining = selectPercentRemainingForStates(states);
+  const matchCount = states.reduce(
+    (count, state) => count + state.filteredMatches.length,
+    0
+  );
+  // We filter every editor with the same filter state, so we can take the
+  // state and config from any of them. Editors without filter options
+  // have no filter state, in which case there's nothing to filter.
+  const [firstState] = states;
+  const filterState =
+    firstState && Array.isArray(firstState.filterState)
+      ? (firstState.filterState as string[])
+      : undefined;
+
+  const handleCheckButtonClick = () => {
+    aggregator.requestMatchesForAll();
+    telemetryAdapter?.documentIsChecked({ documentUrl: document.URL });
+  };
+
+  const handleClearButtonClick = () => {
+    aggregator.clearMatches();
+    telemetryAdapter?.documentIsCleared({ documentUrl: document.URL });
+  };
+
+  return (
+    <div className="Sidebar__section">
+      <div className="Sidebar__header-container">
+        <div className="Sidebar__header">
+          <button
+            type="button"
+            className="Button"
+            onClick={handleCheckButtonClick}
+            disabled={isLoading}
+          >
+            Check all fields
+          </button>
+          <IconButton
+            size="small"
+            aria-label="clear all matches"
+            title="clear all matches"
+            onClick={handleClearButtonClick}
+            disabled={isLoading || !matchCount}
+          >
+            <DeleteForever />
+          </IconButton>
+        </div>
+      </div>
+      <div className="Sidebar__header-container">
+        <div className="Sidebar__header">
+          <span>Results {!!matchCount && <span>({matchCount}) </span>}</span>
+          <span className="Sidebar__header-sort">
+            Summary view
+            <Switch
+              size="small"
+              checked={sortAndGroup}
+              onChange={() => setSortAndGroup(!sortAndGroup)}
+              color="primary"
+              inputProps={{ "aria-label": "Summary view" }}
+            />
+          </span>
+        </div>
+        {(filterState || contactHref) && (
+          <div className="Sidebar__header-bottom">
+            {firstState && filterState && (
+              <FilterResults
+                filterState={filterState}
+                applyFilterState={aggregator.setFilterState}
+                matches={states.flatMap(state => state.currentMatches)}
+                matchColours={firstState.config.matchColours}
+                severityConfig={
+                  firstState.config.filterBySeverity
+                    ? firstState.config.severity
+                    : undefined
+                }
+              />
+            )}
+            {contactHref && (
+              <div className="Sidebar__header-contact">
+                <a href={contactHref} target="_blank">
+                  Issue with Typerighter? Let us know!
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+        {isLoading && (
+          <div
+            className="LoadingBar"
+            role="progressbar"
+            aria-label="Checking document"
+            aria-valuenow={100 - percentRemaining}
+            style={{
+              width: `${100 - Math.min(percentRemaining, 99)}%`
+            }}
+          >
+            <div className="LoadingBar__animated-background"></div>
+          </div>
+        )}
+      </div>
+      <div className="Sidebar__content">
+        {editorStates.map(({ editor, state }) => (
+          <div className="Sidebar__field" key={editor.label}>
+            <div className="Sidebar__field-header">
+              {editor.label}
+              {state && <span> ({state.filteredMatches.length})</span>}
+            </div>
+            {state && (
+              <SidebarMatches
+                matches={selectMatches(state, sortAndGroup)}
+                matchColours={state.config.matchColours}
+                severityConfig={state.config.severity}
+                selectedMatch={state.selectedMatch}
+                selectMatch={aggregator.selectMatch}
+                applySuggestionsForMatches={
+                  aggregator.applySuggestionsForMatches
+                }
+                ignoreMatches={aggregator.ignoreMatches}
+                indicateHighlight={aggregator.indicateHighlight}
+                stopHighlight={aggregator.stopHighlight}
+                editorScrollElement={editor.editorScrollElement}
+                getScrollOffset={getScrollOffset}
+                isSummaryView={sortAndGroup}
+              />
+            )}
+          </div>
+        ))}
+        {!matchCount && (
+          <div className="Sidebar__awaiting-match">No matches to report.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AggregatedSidebar;
@@ -0,0 +1,65 @@
+import React, { useState, useEffect, useRef } from "react";
+
+import Store, { STORE_EVENT_NEW_STATE } from "../state/store";
+import { IPluginState } from "../state/reducer";
+import {
+  selectHasAuthError,
+  selectHasCheckCompleted,
+  selectHasGeneralError,
+  selectRequestsInProgress,
+  selectVisibleMatches
+} from "../state/selectors";
+
+interface IProps<TPluginState extends IPluginState> {
+  store: Store<TPluginState>;
+}
+
+export const getCheckCompleteAnnouncement = (state: IPluginState) => {
+  if (selectHasAuthError(state) || selectHasGeneralError(state)) {
+    return "Check failed. Please try checking the document again.";
+  }
+  const noOfMatches = selectVisibleMatches(state).length;
+  return `Check complete, ${noOfMatches} ${
+    noOfMatches === 1 ? "issue" : "issues"
+  } found.`;
+};
+
+/**
+ * A live region that announces the result of each check to screen readers.
+ */
+const CheckAnnouncer = <TPluginState extends IPluginState>({
+  store
+}: IProps<TPluginState>) => {
+  const [announcement, setAnnouncement] = useState("");
+  const previousState = useRef<TPluginState | undefined>(undefined);
+
+  useEffect(() => {
+    const handleNewState = (newState: TPluginState) => {
+      if (selectHasCheckCompleted(previousState.current, newState)) {
+        setAnnouncement(getCheckCompleteAnnouncement(newState));
+      } else if (selectRequestsInProgress(newState)) {
+        // Clear the last announcement, so the next one is read out even if
+        // its text is the same.
+        setAnnouncement("");
+      }
+      previousState.current = newState;
+    };
+    previousState.current = store.getState();
+    store.on(STORE_EVENT_NEW_STATE, handleNewState);
+    return () =>
+      store.removeEventListener(STORE_EVENT_NEW_STATE, handleNewState);
+  }, []);
+
+  return (
+    <div
+      className="TyperighterPlugin__visually-hidden"
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      {announcement}
+    </div>
+  );
+};
+
+export default CheckAnnouncer;
@@ -11,7 +11,9 @@ import {
   selectHasAuthError,
   selectRequestsInProgress,
   selectHasMatches,
-  selectDocumentHasChanged
+  selectDocumentHasChanged,
+  selectRetryState,
+  selectConnectionStatus
 } from "../state/selectors";
 import TelemetryContext from "../contexts/TelemetryContext";
 
@@ -40,6 +42,14 @@ const getErrorFeedbackLink = (
   return feedbackHref + encodedData;
 };
 
+const getRetryMessage = (nextAttemptTime: number, now: number) => {
+  const secondsUntilRetry = Math.max(
+    Math.ceil((nextAttemptTime - now) / 1000),
+    0
+  );
+  return `Error fetching matches. Retrying in ${secondsUntilRetry}s.`;
+};
+
 /**
  * Controls to open and close Typerighter and check document.
  */
@@ -54,6 +64,8 @@ const Controls = <TPluginState extends IPluginState>({
     undefined
   );
 
+  const [now, setNow] = useState(Date.now());
+
   const { telemetryAdapter } = useContext(TelemetryContext);
 
   useEffect(() => {
@@ -63,6 +75,18 @@ const Controls = <TPluginState extends IPluginState>({
     setPluginState(store.getState());
   }, []);
 
+  const retryState = pluginState && selectRetryState(pluginState);
+
+  // Tick while we're waiting to retry, to count down to the next attempt.
+  useEffect(() => {
+    if (!retryState) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [retryState]);
+
   const requestMatches = () => {
     requestMatchesForDocument(
       v4(),
@@ -95,6 +119,8 @@ const Controls = <TPluginState extends IPluginState>({
 
     const errorMessage: string = hasAuthError
       ? "Authentication error - please refresh the page."
+      : retryState
+      ? getRetryMessage(retryState.nextAttemptTime, now)
       : "Error fetching matches. Please try checking the document again.";
 
     return (
@@ -116,6 +142,20 @@ const Controls = <TPluginState extends IPluginState>({
     );
   };
 
+  const renderConnectionStatus = () => {
+    if (
+      !pluginState ||
+      selectConnectionStatus(pluginState) !== "DISCONNECTED"
+    ) {
+      return;
+    }
+    return (
+      <div className="Controls__error-message">
+        Lost the connection to the matching service. Reconnecting…
+      </div>
+    );
+  };
+
   const renderCheckDocumentButton = () => {
     const plainButton = (
       <button
@@ -169,6 +209,7 @@ const Controls = <TPluginState extends IPluginState>({
           </IconButton>
         </div>
       </div>
+      {renderConnectionStatus()}
       {renderErrorMessage()}
     </>
   );
@@ -4,10 +4,16 @@ import { IMatch } from "..";
 import TelemetryContext from "../contexts/TelemetryContext";
 import {
   getColourForMatchType,
+  getColourWithOpacity,
   getMatchType,
   IMatchTypeToColourMap,
   MatchType
 } from "../utils/decoration";
+import {
+  getSeverityForMatch,
+  ISeverityConfig,
+  SEVERITY_UNKNOWN
+} from "../utils/severity";
 
 const filterOrder = Object.values([
   MatchType.CORRECT,
@@ -15,54 +21,139 @@ const filterOrder = Object.values([
   MatchType.HAS_REPLACEMENT
 ]);
 
+const matchTypeLabels = {
+  [MatchType.CORRECT]: "correct matches",
+  [MatchType.DEFAULT]: "matches without replacements",
+  [MatchType.HAS_REPLACEMENT]: "matches with replacements"
+};
+
+interface IFilterOption {
+  // The value we add to the filter state to hide matches of this kind.
+  value: string;
+  title: string;
+  // Describes the matches, e.g. "warning matches", for assistive technology.
+  label: string;
+  colour: string;
+  noOfMatches: number;
+}
+
 interface IProps {
-  filterState: MatchType[];
-  applyFilterState: (matchType: MatchType[]) => void;
+  filterState: string[];
+  applyFilterState: (filterState: string[]) => void;
   matches: IMatch[];
   matchColours: IMatchTypeToColourMap;
+  // Pass this when matches are filtered by severity to offer a filter
+  // option for each severity level, rather than each match type.
+  severityConfig?: ISeverityConfig;
 }
 
+/**
+ * Get a filter option for each severity level, and for matches without a
+ * known severity level when there are any.
+ */
+const getSeverityFilterOptions = (
+  matches: IMatch[],
+  matchColours: IMatchTypeToColourMap,
+  filterState: string[],
+  severityConfig: ISeverityConfig
+): IFilterOption[] => {
+  const levelOptions = severityConfig.levels.map(level => ({
+    value: level.id,
+    title: `Show/hide ${level.name.toLowerCase()} matches`,
+    label: `${level.name.toLowerCase()} matches`,
+    colour: getColourWithOpacity(level.colour).borderColour,
+    noOfMatches: matches.filter(
+      match => getSeverityForMatch(match, severityConfig) === level
+    ).length
+  }));
+  const noOfUnknownMatches = matches.filter(
+    match => !getSeverityForMatch(match, severityConfig)
+  ).length;
+  // Keep the option while it's hiding matches, so they can be shown again.
+  return noOfUnknownMatches || filterState.includes(SEVERITY_UNKNOWN)
+    ? levelOptions.concat({
+        value: SEVERITY_UNKNOWN,
+        title: "Show/hide matches without a severity",
+        label: "matches without a severity",
+        colour: getColourForMatchType(MatchType.DEFAULT, matchColours)
+          .borderColour,
+        noOfMatches: noOfUnknownMatches
+      })
+    : levelOptions;
+};
+
+/**
+ * Get a filter option for each severity level, if we're filtering by them,
+ * and for each match type if not.
+ */
+const getFilterOptions = (
+  matches: IMatch[],
+  matchColours: IMatchTypeToColourMap,
+  filterState: string[],
+  severityConfig?: ISeverityConfig
+): IFilterOption[] =>
+  severityConfig
+    ? getSeverityFilterOptions(
+        matches,
+        matchColours,
+        filterState,
+        severityConfig
+      )
+    : filterOrder.map(matchType => ({
+        value: matchType,
+        title: "Show/hide matches of this colour",
+        label: matchTypeLabels[matchType],
+        colour: getColourForMatchType(matchType, matchColours).borderColour,
+        noOfMatches: matches.filter(match => getMatchType(match) === matchType)
+          .length
+      }));
+
 const FilterResults = ({
   filterState,
   applyFilterState,
   matches,
-  matchColours
+  matchColours,
+  severityConfig
 }: IProps) => {
   const { telemetryAdapter } = useContext(TelemetryContext);
+  const filterOptions = getFilterOptions(
+    matches,
+    matchColours,
+    filterState,
+    severityConfig
+  );
   return (
     <>
-      {filterOrder.map(matchType => {
-        const isDisabled = filterState.includes(matchType);
-        const cannotAddFilter = filterState.length >= 2;
-        const { borderColour } = getColourForMatchType(matchType, matchColours);
-
-        const noMatchesOfThisType = matches.filter(
-          match => getMatchType(match) === matchType
-        ).length;
+      {filterOptions.map(({ value, title, label, colour, noOfMatches }) => {
+        const isDisabled = filterState.includes(value);
+        // We always leave one kind of match visible.
+        const cannotAddFilter = filterState.length >= filterOptions.length - 1;
 
         const toggleFilterValue = () => {
-          telemetryAdapter?.filterStateToggled(matchType, !!isDisabled)
+          telemetryAdapter?.filterStateToggled(value, !!isDisabled);
           applyFilterState(
             isDisabled
-              ? filterState.filter(currentType => currentType !== matchType)
-              : [...filterState, matchType]
+              ? filterState.filter(currentValue => currentValue !== value)
+              : [...filterState, value]
           );
-        }
+        };
 
         return (
           <button
-            key={matchType}
+            key={value}
             className="Sidebar__filter-toggle"
-            title="Show/hide matches of this colour"
+            title={title}
+            aria-label={`Show ${label} (${noOfMatches})`}
+            aria-pressed={!isDisabled}
             disabled={cannotAddFilter && !isDisabled}
             style={{
-              backgroundColor: isDisabled ? "transparent" : borderColour,
-              border: `2px solid ${borderColour}`,
-              color: isDisabled ? borderColour : "white"
+              backgroundColor: isDisabled ? "transparent" : colour,
+              border: `2px solid ${colour}`,
+              color: isDisabled ? colour : "white"
             }}
             onClick={toggleFilterValue}
           >
-            {noMatchesOfThisType}
+            {noOfMatches}
           </button>
         );
       })}
@@ -3,14 +3,20 @@ import React, { Component } from "react";
 import { IMatch } from "../interfaces/IMatch";
 import { ApplySuggestionOptions } from "../commands";
 import SuggestionList from "./SuggestionList";
+import RuleDetails from "./RuleDetails";
 import { getColourForMatch, IMatchTypeToColourMap } from "../utils/decoration";
+import { ISeverityConfig } from "../utils/severity";
 import { Check } from "@material-ui/icons";
 import { getHtmlFromMarkdown } from "../utils/dom";
+import { createButtonProps } from "../utils/component";
 
 interface IMatchProps<TMatch extends IMatch> {
   applySuggestions?: (opts: ApplySuggestionOptions) => void;
+  previewSuggestion?: (matchId: string, text: string) => void;
+  stopSuggestionPreview?: () => void;
   match: TMatch;
   matchColours: IMatchTypeToColourMap;
+  severityConfig?: ISeverityConfig;
   feedbackHref?: string;
   onMarkCorrect?: (match: IMatch) => void;
 }
@@ -21,7 +27,10 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
     const {
       match,
       matchColours,
+      severityConfig,
       applySuggestions,
+      previewSuggestion,
+      stopSuggestionPreview,
       onMarkCorrect
     }: IMatchProps<TMatch> = this.props;
     const {
@@ -32,7 +41,8 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
       replacement,
       markAsCorrect,
       matchContext,
-      ruleId
+      ruleId,
+      sources
     } = match;
     const url = document.URL;
     const feedbackInfo = {
@@ -53,6 +63,8 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
         {suggestionsToRender && applySuggestions && !markAsCorrect && (
           <SuggestionList
             applySuggestions={applySuggestions}
+            previewSuggestion={previewSuggestion}
+            stopSuggestionPreview={stopSuggestionPreview}
             match={match}
             suggestions={suggestionsToRender}
           />
@@ -61,7 +73,7 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
           <div className="MatchWidget__ignore-match">
             <div
               className="MatchWidget__ignore-match-button"
-              onClick={() => onMarkCorrect(match)}
+              {...createButtonProps(() => onMarkCorrect(match))}
             >
               <Check fontSize="small" />
               <span className="MatchWidget__ignore-match-text">
@@ -80,8 +92,12 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
             <span
               className="MatchWidget__color-swatch"
               style={{
-                backgroundColor: getColourForMatch(match, matchColours, false)
-                  .borderColour
+                backgroundColor: getColourForMatch(
+                  match,
+                  matchColours,
+                  false,
+                  severityConfig
+                ).borderColour
               }}
             ></span>
             {category.name}
@@ -91,6 +107,16 @@ class Match<TMatch extends IMatch> extends Component<IMatchProps<TMatch>> {
             className="MatchWidget__annotation"
             dangerouslySetInnerHTML={{ __html: getHtmlFromMarkdown(message) }}
           ></div>
+          {sources && sources.length > 1 && (
+            <div className="MatchWidget__sources">
+              Also found by{" "}
+              {sources
+                .filter(source => source.matchId !== matchId)
+                .map(source => source.category.name)
+                .join(", ")}
+            </div>
+          )}
+          <RuleDetails match={match} />
           <div className="MatchWidget__footer">
             {this.props.feedbackHref && (
               <div className="MatchWidget__feedbackLink">
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from "react";
+
+import Store, { STORE_EVENT_NEW_STATE } from "../state/store";
+import { IPluginState } from "../state/reducer";
+import { selectVisibleMatches } from "../state/selectors";
+import { getMatchDescriptionId } from "../utils/decoration";
+import { getHtmlFromMarkdown } from "../utils/dom";
+
+interface IProps<TPluginState extends IPluginState> {
+  store: Store<TPluginState>;
+}
+
+/**
+ * Visually hidden descriptions for each visible match. Match decorations
+ * refer to these with `aria-describedby`, so assistive technology can read
+ * out a match's message when the user reaches it in the document.
+ */
+const MatchDescriptions = <TPluginState extends IPluginState>({
+  store
+}: IProps<TPluginState>) => {
+  const [pluginState, setPluginState] = useState<TPluginState | undefined>(
+    undefined
+  );
+
+  useEffect(() => {
+    setPluginState(store.getState());
+    store.on(STORE_EVENT_NEW_STATE, setPluginState);
+    return () =>
+      store.removeEventListener(STORE_EVENT_NEW_STATE, setPluginState);
+  }, []);
+
+  if (!pluginState) {
+    return null;
+  }
+
+  return (
+    <div className="TyperighterPlugin__visually-hidden">
+      {selectVisibleMatches(pluginState).map(match => (
+        <div key={match.matchId} id={getMatchDescriptionId(match.matchId)}>
+          {match.category.name}:{" "}
+          <span
+            dangerouslySetInnerHTML={{
+              __html: getHtmlFromMarkdown(match.message)
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MatchDescriptions;
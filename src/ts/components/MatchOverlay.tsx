@@ -3,7 +3,10 @@ import React, { useState, useEffect, useRef } from "react";
 import { IPluginState } from "../state/reducer";
 import { selectMatchByMatchId } from "../state/selectors";
 import { IMatch } from "../interfaces/IMatch";
-import { maybeGetDecorationElement } from "../utils/decoration";
+import {
+  getMatchDescriptionId,
+  maybeGetDecorationElement
+} from "../utils/decoration";
 import Store, { STORE_EVENT_NEW_STATE } from "../state/store";
 import { ApplySuggestionOptions } from "../commands";
 import { usePopper } from "react-popper";
@@ -14,7 +17,12 @@ import { Placement } from "@popperjs/core";
 interface IProps<TPluginState extends IPluginState> {
   store: Store<TPluginState>;
   applySuggestions: (opts: ApplySuggestionOptions) => void;
+  previewSuggestion?: (matchId: string, text: string) => void;
+  stopSuggestionPreview?: () => void;
   stopHover: () => void;
+  // Return focus to the editor when the user dismisses the overlay with
+  // the keyboard.
+  returnFocus?: () => void;
   feedbackHref?: string;
   onMarkCorrect?: (match: IMatch) => void;
 }
@@ -24,9 +32,12 @@ interface IProps<TPluginState extends IPluginState> {
  */
 const matchOverlay = <TPluginState extends IPluginState>({
   applySuggestions,
+  previewSuggestion,
+  stopSuggestionPreview,
   feedbackHref,
   onMarkCorrect,
   stopHover,
+  returnFocus,
   store
 }: IProps<TPluginState>) => {
   const [pluginState, setPluginState] = useState<IPluginState | undefined>(
@@ -48,6 +59,7 @@ const matchOverlay = <TPluginState extends IPluginState>({
   const [arrowElement, setArrowElement] = useState<HTMLDivElement | null>(null);
   const [showMatch, setShowMatch] = useState<boolean>(false);
   const debounceShowMatch = useRef(debounce(setShowMatch, 200))
+  const [takesFocus, setTakesFocus] = useState<boolean>(false);
 
   useEffect(() => {
     // Subscribe to the plugin state. We keep a separate reference to the
@@ -57,11 +69,20 @@ const matchOverlay = <TPluginState extends IPluginState>({
       setPluginState(newState);
       setCurrentMatchId(newState.hoverId);
       setCurrentRectIndex(newState.hoverRectIndex);
+      setTakesFocus(newState.hoverTakesFocus);
     });
     return () =>
       store.removeEventListener(STORE_EVENT_NEW_STATE, setPluginState);
   }, []);
 
+  // Only take focus when the overlay was opened explicitly – overlays opened
+  // by the caret or by stepping through matches leave focus in the editor.
+  useEffect(() => {
+    if (showMatch && popperElement && takesFocus) {
+      popperElement.focus();
+    }
+  }, [showMatch, popperElement, currentMatchId, takesFocus]);
+
   useEffect(() => {
     if (!currentMatchId) {
       debounceShowMatch.current.cancel();
@@ -122,6 +143,39 @@ const matchOverlay = <TPluginState extends IPluginState>({
     return null;
   }
 
+  // Keep focus within the overlay until the user dismisses it.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      stopHover();
+      returnFocus?.();
+      return;
+    }
+    if (event.key !== "Tab" || !popperElement) {
+      return;
+    }
+    const focusableElements = Array.from(
+      popperElement.querySelectorAll<HTMLElement>(
+        'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])'
+      )
+    );
+    const first = focusableElements[0];
+    const last = focusableElements[focusableElements.length - 1];
+    if (!first) {
+      event.preventDefault();
+    } else if (
+      event.shiftKey &&
+      (document.activeElement === first ||
+        document.activeElement === popperElement)
+    ) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
   return (
     <div
       className="TyperighterPlugin__decoration-container"
@@ -129,12 +183,20 @@ const matchOverlay = <TPluginState extends IPluginState>({
       {...attributes.popper}
       ref={setPopperElement}
       onMouseLeave={stopHover}
+      onKeyDown={handleKeyDown}
+      role="dialog"
+      aria-label={`${maybeMatch.category.name} match`}
+      aria-describedby={getMatchDescriptionId(maybeMatch.matchId)}
+      tabIndex={-1}
     >
       <div ref={setArrowElement} style={styles.arrow as any} />
       <Match
         match={maybeMatch}
         matchColours={pluginState.config.matchColours}
+        severityConfig={pluginState.config.severity}
         applySuggestions={applySuggestions}
+        previewSuggestion={previewSuggestion}
+        stopSuggestionPreview={stopSuggestionPreview}
         feedbackHref={feedbackHref}
         onMarkCorrect={onMarkCorrect}
       />
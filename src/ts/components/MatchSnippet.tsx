@@ -2,16 +2,23 @@ import React, { useContext } from "react";
 import { IMatch } from "..";
 import SidebarMatchContainer from "./SidebarMatchContainer";
 import { getColourForMatch, IMatchTypeToColourMap } from "../utils/decoration";
-import { createScrollToRangeHandler } from "../utils/component";
+import { ISeverityConfig } from "../utils/severity";
+import {
+  createButtonProps,
+  createScrollToRangeHandler
+} from "../utils/component";
 import TelemetryContext from "../contexts/TelemetryContext";
 
 interface IProps {
   match: IMatch;
   matchColours?: IMatchTypeToColourMap;
+  severityConfig?: ISeverityConfig;
   indicateHighlight: (blockId: string, _?: any) => void;
   stopHighlight: () => void;
   getScrollOffset: () => number;
   editorScrollElement: Element;
+  // The text that will replace the match, if we're previewing a change.
+  replacement?: string;
 }
 
 const getMatchContext = (match: IMatch) => {
@@ -31,10 +38,12 @@ const getMatchContext = (match: IMatch) => {
 const MatchSnippet = ({
   match,
   matchColours,
+  severityConfig,
   indicateHighlight,
   stopHighlight,
   getScrollOffset,
-  editorScrollElement
+  editorScrollElement,
+  replacement
 }: IProps) => {
   const handleMouseEnter = () => {
     indicateHighlight(match.matchId);
@@ -53,7 +62,8 @@ const MatchSnippet = ({
   );
 
   const color = matchColours
-    ? getColourForMatch(match, matchColours, false).borderColour
+    ? getColourForMatch(match, matchColours, false, severityConfig)
+        .borderColour
     : undefined;
 
   return (
@@ -63,7 +73,7 @@ const MatchSnippet = ({
           style={{ borderLeft: `2px solid ${color}` }}
           onMouseEnter={handleMouseEnter}
           onMouseLeave={handleMouseLeave}
-          onClick={scrollToRange}
+          {...createButtonProps(scrollToRange)}
           title="Click to scroll to this match"
         >
           <div className={"SidebarMatch__header"}>
@@ -75,6 +85,11 @@ const MatchSnippet = ({
                     __html: getMatchContext(match)
                   }}
                 ></div>
+                {replacement !== undefined && (
+                  <div className="SidebarMatch__header-replacement">
+                    → {replacement}
+                  </div>
+                )}
               </div>
             </div>
           </div>
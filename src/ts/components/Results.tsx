@@ -5,7 +5,6 @@ import { IPluginState } from "../state/reducer";
 import { selectMatches, selectPercentRemaining } from "../state/selectors";
 import { Switch } from "@material-ui/core";
 import FilterResults from "./FilterResults";
-import { MatchType } from "../utils/decoration";
 import TelemetryContext from "../contexts/TelemetryContext";
 import _ from "lodash";
 import SidebarMatches from "./SidebarMatches";
@@ -13,8 +12,10 @@ import SidebarMatches from "./SidebarMatches";
 interface IProps<TPluginState extends IPluginState> {
   store: Store<TPluginState>;
   applyAutoFixableSuggestions: () => void;
-  applyFilterState: (filterState: MatchType[]) => void;
+  applyFilterState: (filterState: string[]) => void;
   selectMatch: (matchId: string) => void;
+  applySuggestionsForMatches: (matchIds: string[]) => void;
+  ignoreMatches: (matchIds: string[]) => void;
   indicateHighlight: (matchId: string, _?: any) => void;
   stopHighlight: () => void;
   contactHref?: string;
@@ -26,9 +27,11 @@ interface IProps<TPluginState extends IPluginState> {
  * Displays current matches and allows users to apply suggestions.
  */
 
-const Results = <TPluginState extends IPluginState<MatchType[]>>({
+const Results = <TPluginState extends IPluginState<string[]>>({
   store,
   selectMatch,
+  applySuggestionsForMatches,
+  ignoreMatches,
   indicateHighlight,
   stopHighlight,
   contactHref,
@@ -119,6 +122,11 @@ const Results = <TPluginState extends IPluginState<MatchType[]>>({
               applyFilterState={applyFilterState}
               matches={currentMatches}
               matchColours={pluginState.config.matchColours}
+              severityConfig={
+                pluginState.config.filterBySeverity
+                  ? pluginState.config.severity
+                  : undefined
+              }
             />
           )}
           {contactHref && (
@@ -132,6 +140,9 @@ const Results = <TPluginState extends IPluginState<MatchType[]>>({
         {loadingBarVisible && (
           <div
             className="LoadingBar"
+            role="progressbar"
+            aria-label="Checking document"
+            aria-valuenow={100 - percentRemaining}
             style={{
               opacity: isLoading ? 1 : 0,
               // We always display a sliver of loading bar to let
@@ -148,8 +159,11 @@ const Results = <TPluginState extends IPluginState<MatchType[]>>({
         <SidebarMatches
           matches={orderedMatches}
           matchColours={pluginState?.config.matchColours}
+          severityConfig={pluginState?.config.severity}
           selectedMatch={selectedMatch}
           selectMatch={selectMatch}
+          applySuggestionsForMatches={applySuggestionsForMatches}
+          ignoreMatches={ignoreMatches}
           indicateHighlight={indicateHighlight}
           stopHighlight={stopHighlight}
           editorScrollElement={editorScrollElement}
@@ -0,0 +1,72 @@
+import React, { useState } from "react";
+
+import { IMatch } from "../interfaces/IMatch";
+import { createButtonProps } from "../utils/component";
+import Markdown from "./Markdown";
+
+interface IProps {
+  match: IMatch;
+  // Show the match's full message, e.g. when we've displayed its short
+  // message elsewhere.
+  showMessage?: boolean;
+}
+
+/**
+ * A panel explaining why a match was flagged, with what we know about the
+ * rule that produced it. It's closed until the user asks for it.
+ */
+const RuleDetails = ({ match, showMessage = false }: IProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { ruleDetails = {} } = match;
+  const { description, issueType, url } = ruleDetails;
+  if (!description && !issueType && !url && !showMessage) {
+    return null;
+  }
+
+  // The panel may sit within other interactive elements, e.g. sidebar
+  // matches, which shouldn't respond to its events.
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+  const toggle = (e: React.SyntheticEvent) => {
+    stopPropagation(e);
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="RuleDetails">
+      <div
+        className="RuleDetails__toggle"
+        aria-expanded={isOpen}
+        {...createButtonProps(toggle)}
+      >
+        Why is this flagged?
+      </div>
+      {isOpen && (
+        <div className="RuleDetails__content">
+          {showMessage && <Markdown markdown={match.message} />}
+          {description && description !== match.message && (
+            <Markdown markdown={description} />
+          )}
+          {issueType && (
+            <div className="RuleDetails__issue-type">
+              Issue type: {issueType}
+            </div>
+          )}
+          {url && (
+            <a
+              className="RuleDetails__link"
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={stopPropagation}
+              onKeyDown={stopPropagation}
+            >
+              View this rule
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RuleDetails;
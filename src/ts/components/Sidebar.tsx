@@ -7,7 +7,6 @@ import { Commands } from ".././commands";
 import { IMatch } from ".././interfaces/IMatch";
 import { MatcherService } from "..";
 import { IPluginState } from "../state/reducer";
-import { MatchType } from "../utils/decoration";
 
 interface IProps<TPluginState extends IPluginState> {
   store: Store<TPluginState>;
@@ -19,7 +18,7 @@ interface IProps<TPluginState extends IPluginState> {
   getScrollOffset: () => number;
 }
 
-const Sidebar = <TPluginState extends IPluginState<MatchType[]>>({
+const Sidebar = <TPluginState extends IPluginState<string[]>>({
   store,
   matcherService,
   commands,
@@ -61,6 +60,8 @@ const Sidebar = <TPluginState extends IPluginState<MatchType[]>>({
             applyAutoFixableSuggestions={commands.applyAutoFixableSuggestions}
             applyFilterState={commands.setFilterState}
             selectMatch={commands.selectMatch}
+            applySuggestionsForMatches={commands.applySuggestionsForMatches}
+            ignoreMatches={commands.ignoreMatches}
             indicateHighlight={commands.indicateHighlight}
             stopHighlight={commands.stopHighlight}
             contactHref={contactHref}
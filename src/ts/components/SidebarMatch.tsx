@@ -2,14 +2,20 @@ import React, { useContext, memo } from "react";
 
 import { IMatch } from "../interfaces/IMatch";
 import { IMatchTypeToColourMap, getColourForMatch } from "../utils/decoration";
+import { ISeverityConfig } from "../utils/severity";
 import TelemetryContext from "../contexts/TelemetryContext";
 import SidebarMatchContainer from "./SidebarMatchContainer";
-import { createScrollToRangeHandler } from "../utils/component";
+import {
+  createButtonProps,
+  createScrollToRangeHandler
+} from "../utils/component";
 import Markdown from "./Markdown";
+import RuleDetails from "./RuleDetails";
 
 interface IProps {
   match: IMatch;
   matchColours?: IMatchTypeToColourMap;
+  severityConfig?: ISeverityConfig;
   selectMatch: (matchId: string) => void;
   indicateHighlight: (blockId: string, _?: any) => void;
   stopHighlight: () => void;
@@ -25,6 +31,7 @@ interface IProps {
 const SidebarMatch = ({
   match,
   matchColours,
+  severityConfig,
   indicateHighlight,
   stopHighlight,
   selectedMatch,
@@ -35,7 +42,8 @@ const SidebarMatch = ({
   const { telemetryAdapter } = useContext(TelemetryContext);
 
   const color = matchColours
-    ? getColourForMatch(match, matchColours, false).borderColour
+    ? getColourForMatch(match, matchColours, false, severityConfig)
+        .borderColour
     : undefined;
 
   const scrollToRange = createScrollToRangeHandler(
@@ -59,7 +67,7 @@ const SidebarMatch = ({
         style={{ borderLeft: `2px solid ${color}` }}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
-        onClick={scrollToRange}
+        {...createButtonProps(scrollToRange)}
         title="Click to scroll to this match"
         isSelected={selectedMatch === match.matchId}
       >
@@ -70,8 +78,9 @@ const SidebarMatch = ({
                 {match.matchedText}
               </div>
               <div className="SidebarMatch__header-description">
-                <Markdown markdown={match.message} />
+                <Markdown markdown={match.shortMessage || match.message} />
               </div>
+              <RuleDetails match={match} showMessage={!!match.shortMessage} />
             </div>
           </div>
         </div>
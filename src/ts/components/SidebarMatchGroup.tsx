@@ -1,16 +1,26 @@
-import React, { useState } from "react";
+import React, { useState, useContext } from "react";
 
 import { IMatch, ISuggestion } from "../interfaces/IMatch";
 import { getColourForMatch, IMatchTypeToColourMap } from "../utils/decoration";
+import { ISeverityConfig } from "../utils/severity";
 import MatchSnippet from "./MatchSnippet";
 import { ArrowDropUp, ArrowDropDown } from "@material-ui/icons";
 import { getHtmlFromMarkdown } from "../utils/dom";
 import SidebarMatchContainer from "./SidebarMatchContainer";
+import { createButtonProps } from "../utils/component";
+import {
+  getPreferredSuggestion,
+  removeConflictingSuggestions
+} from "../utils/match";
+import TelemetryContext from "../contexts/TelemetryContext";
 
 interface IProps {
   matchGroup: Array<IMatch<ISuggestion>>;
   matchColours?: IMatchTypeToColourMap;
+  severityConfig?: ISeverityConfig;
   selectMatch: (matchId: string) => void;
+  applySuggestionsForMatches?: (matchIds: string[]) => void;
+  ignoreMatches?: (matchIds: string[]) => void;
   indicateHighlight: (blockId: string, _?: any) => void;
   stopHighlight: () => void;
   selectedMatch: string | undefined;
@@ -25,6 +35,9 @@ interface IProps {
 const SidebarMatchGroup = ({
   matchGroup,
   matchColours,
+  severityConfig,
+  applySuggestionsForMatches,
+  ignoreMatches,
   indicateHighlight,
   stopHighlight,
   selectedMatch,
@@ -32,14 +45,22 @@ const SidebarMatchGroup = ({
   getScrollOffset
 }: IProps) => {
   const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [isPreviewingChanges, setIsPreviewingChanges] = useState<boolean>(
+    false
+  );
+  const { telemetryAdapter } = useContext(TelemetryContext);
   const firstMatch = matchGroup[0];
+  const matchesWithSuggestions = matchGroup.filter(
+    match => !!getPreferredSuggestion(match)
+  );
 
   const toggleOpen = () => {
     setIsOpen(!isOpen);
   };
 
   const color = matchColours
-    ? getColourForMatch(firstMatch, matchColours, false).borderColour
+    ? getColourForMatch(firstMatch, matchColours, false, severityConfig)
+        .borderColour
     : undefined;
 
   const getTitleText = (): string => {
@@ -58,6 +79,43 @@ const SidebarMatchGroup = ({
     stopHighlight();
   };
 
+  const handleApplyAll = () => {
+    if (!applySuggestionsForMatches) {
+      return;
+    }
+    applySuggestionsForMatches(matchesWithSuggestions.map(_ => _.matchId));
+    // Suggestions that overlap an earlier suggestion aren't applied, so we
+    // only report those that are.
+    removeConflictingSuggestions(
+      matchesWithSuggestions.map(match => ({
+        match,
+        from: match.from,
+        to: match.to,
+        text: getPreferredSuggestion(match)?.text
+      }))
+    ).forEach(({ match, text }) =>
+      telemetryAdapter?.suggestionIsAccepted(match, document.URL, text!)
+    );
+    setIsPreviewingChanges(false);
+  };
+
+  const handleIgnoreAll = () =>
+    ignoreMatches?.(matchGroup.map(_ => _.matchId));
+
+  const renderMatchSnippet = (match: IMatch, replacement?: string) => (
+    <MatchSnippet
+      match={match}
+      matchColours={matchColours}
+      severityConfig={severityConfig}
+      indicateHighlight={indicateHighlight}
+      stopHighlight={stopHighlight}
+      getScrollOffset={getScrollOffset}
+      editorScrollElement={editorScrollElement}
+      replacement={replacement}
+      key={match.matchId}
+    />
+  );
+
   return (
     <li className="Sidebar__list-item">
       <SidebarMatchContainer
@@ -65,7 +123,8 @@ const SidebarMatchGroup = ({
         style={{ borderLeft: `2px solid ${color}` }}
         onMouseEnter={handleMouseEnter}
         onMouseLeave={handleMouseLeave}
-        onClick={toggleOpen}
+        {...createButtonProps(toggleOpen)}
+        aria-expanded={isOpen}
         title={getTitleText()}
         isSelected={selectedMatch === firstMatch.matchId}
       >
@@ -89,19 +148,52 @@ const SidebarMatchGroup = ({
           </div>
         </div>
       </SidebarMatchContainer>
-      {isOpen && (
+      {isOpen && !isPreviewingChanges && (
+        <div className="SidebarMatch__group-actions">
+          {applySuggestionsForMatches && !!matchesWithSuggestions.length && (
+            <button
+              type="button"
+              className="Button"
+              onClick={() => setIsPreviewingChanges(true)}
+            >
+              Apply suggestion to all {matchesWithSuggestions.length}
+            </button>
+          )}
+          {ignoreMatches && (
+            <button type="button" className="Button" onClick={handleIgnoreAll}>
+              Ignore all {matchGroup.length}
+            </button>
+          )}
+        </div>
+      )}
+      {isPreviewingChanges && (
+        <div
+          className="SidebarMatch__bulk-preview"
+          role="group"
+          aria-label="Changes to apply"
+        >
+          <ul className="Sidebar__list">
+            {matchesWithSuggestions.map(match =>
+              renderMatchSnippet(match, getPreferredSuggestion(match)!.text)
+            )}
+          </ul>
+          <div className="SidebarMatch__bulk-preview-actions">
+            <button type="button" className="Button" onClick={handleApplyAll}>
+              Apply {matchesWithSuggestions.length} changes
+            </button>
+            <button
+              type="button"
+              className="Button"
+              onClick={() => setIsPreviewingChanges(false)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {isOpen && !isPreviewingChanges && (
         <ul className="Sidebar__list">
-          {matchGroup.map(match => (
-            <MatchSnippet
-              match={match}
-              matchColours={matchColours}
-              indicateHighlight={indicateHighlight}
-              stopHighlight={stopHighlight}
-              getScrollOffset={getScrollOffset}
-              editorScrollElement={editorScrollElement}
-              key={match.matchId}
-            />
-          ))}
+          {matchGroup.map(match => renderMatchSnippet(match))}
         </ul>
       )}
     </li>
@@ -2,13 +2,17 @@ import { chain } from "lodash";
 import React from "react";
 import { IMatch } from "..";
 import { IMatchTypeToColourMap } from "../utils/decoration";
+import { ISeverityConfig } from "../utils/severity";
 import SidebarMatch from "./SidebarMatch";
 import SidebarMatchGroup from "./SidebarMatchGroup";
 
 interface IProps {
   matches: IMatch[];
   matchColours?: IMatchTypeToColourMap;
+  severityConfig?: ISeverityConfig;
   selectMatch: (matchId: string) => void;
+  applySuggestionsForMatches?: (matchIds: string[]) => void;
+  ignoreMatches?: (matchIds: string[]) => void;
   indicateHighlight: (blockId: string, _?: any) => void;
   stopHighlight: () => void;
   selectedMatch: string | undefined;
@@ -20,7 +24,10 @@ interface IProps {
 const SidebarMatches = ({
   matches,
   matchColours,
+  severityConfig,
   selectMatch,
+  applySuggestionsForMatches,
+  ignoreMatches,
   indicateHighlight,
   stopHighlight,
   selectedMatch,
@@ -40,9 +47,12 @@ const SidebarMatches = ({
             group.length > 1 ? (
               <SidebarMatchGroup
                 matchColours={matchColours}
+                severityConfig={severityConfig}
                 matchGroup={group}
                 selectedMatch={selectedMatch}
                 selectMatch={selectMatch}
+                applySuggestionsForMatches={applySuggestionsForMatches}
+                ignoreMatches={ignoreMatches}
                 indicateHighlight={indicateHighlight}
                 stopHighlight={stopHighlight}
                 editorScrollElement={editorScrollElement}
@@ -53,6 +63,7 @@ const SidebarMatches = ({
               group[0] && (
                 <SidebarMatch
                   matchColours={matchColours}
+                  severityConfig={severityConfig}
                   match={group[0]}
                   selectedMatch={selectedMatch}
                   selectMatch={selectMatch}
@@ -68,6 +79,7 @@ const SidebarMatches = ({
         : matches.map(match => (
             <SidebarMatch
               matchColours={matchColours}
+              severityConfig={severityConfig}
               match={match}
               selectedMatch={selectedMatch}
               selectMatch={selectMatch}
@@ -1,15 +1,18 @@
-import React, { useContext } from "react";
+import React, { useContext, useEffect, useRef } from "react";
 import jsDiff, { Change } from "diff";
 
 import { ApplySuggestionOptions } from "../commands";
 import { ISuggestion, IMatch } from "../interfaces/IMatch";
 import WikiSuggestion from "./WikiSuggestion";
 import TelemetryContext from "../contexts/TelemetryContext";
+import { createButtonProps } from "../utils/component";
 
 interface IProps {
   match: IMatch;
   suggestion: ISuggestion;
   applySuggestions: (opts: ApplySuggestionOptions) => void;
+  previewSuggestion?: (matchId: string, text: string) => void;
+  stopSuggestionPreview?: () => void;
 }
 
 /**
@@ -62,9 +65,37 @@ const renderSuggestionText = (matchedText: string, suggestionText: string) => {
   return <span className="Suggestion__text">{suggestionText}</span>;
 };
 
-const Suggestion = ({ match, suggestion, applySuggestions }: IProps) => {
+const Suggestion = ({
+  match,
+  suggestion,
+  applySuggestions,
+  previewSuggestion,
+  stopSuggestionPreview
+}: IProps) => {
   const { telemetryAdapter } = useContext(TelemetryContext);
 
+  // Preview the suggestion in the document while the user is considering it.
+  const isPreviewing = useRef(false);
+  const startPreview = () => {
+    isPreviewing.current = true;
+    previewSuggestion?.(match.matchId, suggestion.text);
+  };
+  const stopPreview = () => {
+    isPreviewing.current = false;
+    stopSuggestionPreview?.();
+  };
+
+  // If we're unmounted mid-preview – for example, when the overlay closes –
+  // we won't receive a mouseleave or blur, so stop the preview here.
+  useEffect(
+    () => () => {
+      if (isPreviewing.current) {
+        stopPreview();
+      }
+    },
+    []
+  );
+
   const boundApplySuggestions = () => {
     if (!applySuggestions) {
       return;
@@ -86,7 +117,15 @@ const Suggestion = ({ match, suggestion, applySuggestions }: IProps) => {
   switch (suggestion.type) {
     case "TEXT_SUGGESTION": {
       return (
-        <div className="Suggestion" onClick={boundApplySuggestions}>
+        <div
+          className="Suggestion"
+          aria-label={`Apply suggestion: ${suggestion.text}`}
+          {...createButtonProps(boundApplySuggestions)}
+          onMouseEnter={startPreview}
+          onMouseLeave={stopPreview}
+          onFocus={startPreview}
+          onBlur={stopPreview}
+        >
           {renderSuggestionText(match.matchedText, suggestion.text)}
         </div>
       );
@@ -2,17 +2,22 @@ import React, { useState } from "react";
 import { ISuggestion, IMatch } from "../interfaces/IMatch";
 import Suggestion from "./Suggestion";
 import { ApplySuggestionOptions } from "../commands";
+import { createButtonProps } from "../utils/component";
 
 interface IProps {
   suggestions: ISuggestion[];
   match: IMatch;
   applySuggestions: (opts: ApplySuggestionOptions) => void;
+  previewSuggestion?: (matchId: string, text: string) => void;
+  stopSuggestionPreview?: () => void;
 }
 
 const SuggestionList = ({
   suggestions,
   match,
   applySuggestions,
+  previewSuggestion,
+  stopSuggestionPreview
 }: IProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const firstSuggestion = suggestions[0];
@@ -24,12 +29,15 @@ const SuggestionList = ({
             match={match}
             suggestion={firstSuggestion}
             applySuggestions={applySuggestions}
+            previewSuggestion={previewSuggestion}
+            stopSuggestionPreview={stopSuggestionPreview}
           />
         ) : null}
         {!!otherSuggestions.length ? (
           <div
             className="Button SuggestionList__see-more"
-            onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            {...createButtonProps(() => setIsOpen(!isOpen))}
           >
             See {!isOpen ? "more" : "fewer"} suggestions (
             {otherSuggestions.length})
@@ -42,6 +50,8 @@ const SuggestionList = ({
                 match={match}
                 suggestion={suggestion}
                 applySuggestions={applySuggestions}
+                previewSuggestion={previewSuggestion}
+                stopSuggestionPreview={stopSuggestionPreview}
               />
             ))}
           </>
@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from "react";
 import { IWikiSuggestion } from "../interfaces/IMatch";
+import { createButtonProps } from "../utils/component";
 
 type IProps = IWikiSuggestion & {
   applySuggestion?: () => void;
@@ -57,7 +58,11 @@ const WikiSuggestion = ({
   return (
     <div className="WikiSuggestion__container">
       <div className="WikiSuggestion__text">
-        <div className="WikiSuggestion__suggestion" onClick={applySuggestion}>
+        <div
+          className="WikiSuggestion__suggestion"
+          aria-label={`Apply suggestion: ${text}`}
+          {...(applySuggestion && createButtonProps(applySuggestion))}
+        >
           {text}
         </div>
         {article && (
@@ -0,0 +1,42 @@
+import React from "react";
+import { render } from "react-dom";
+import AggregatedSidebar from "./components/AggregatedSidebar";
+import EditorAggregator from "./services/EditorAggregator";
+import TyperighterTelemetryAdapter from "./services/TyperighterTelemetryAdapter";
+import TelemetryContext from "./contexts/TelemetryContext";
+import { IPluginState } from "./state/reducer";
+
+interface IAggregatedViewOptions<TPluginState extends IPluginState> {
+  aggregator: EditorAggregator<TPluginState>;
+  sidebarNode: Element;
+  contactHref?: string;
+  // Gets a scroll offset when we scroll to matches.
+  getScrollOffset?: () => number;
+  telemetryAdapter?: TyperighterTelemetryAdapter;
+}
+
+/**
+ * Instantiate a single sidebar for every editor registered with the given
+ * aggregator, grouping their matches by field. Each editor should still
+ * have its own overlay – see `createView`, omitting `sidebarNode`.
+ */
+const createAggregatedView = <TPluginState extends IPluginState>({
+  aggregator,
+  sidebarNode,
+  contactHref,
+  getScrollOffset = () => 50,
+  telemetryAdapter
+}: IAggregatedViewOptions<TPluginState>) => {
+  render(
+    <TelemetryContext.Provider value={{ telemetryAdapter }}>
+      <AggregatedSidebar
+        aggregator={aggregator}
+        contactHref={contactHref}
+        getScrollOffset={getScrollOffset}
+      />
+    </TelemetryContext.Provider>,
+    sidebarNode
+  );
+};
+
+export default createAggregatedView;
@@ -1,7 +1,7 @@
+import uniq from "lodash/uniq";
 import { applyNewDirtiedRanges } from "./state/actions";
 import {
   IPluginState,
-  PROSEMIRROR_TYPERIGHTER_ACTION,
   IIgnoreMatchPredicate,
   includeAllMatches
 } from "./state/reducer";
@@ -27,10 +27,28 @@ import Store, {
   STORE_EVENT_NEW_DIRTIED_RANGES
 } from "./state/store";
 import { doNotSkipRanges, TGetSkippedRanges } from "./utils/block";
-import { startHoverCommand, stopHoverCommand } from "./commands";
-import { TFilterMatches, maybeResetHoverStates } from "./utils/plugin";
-import { pluginKey } from "./utils/plugin";
+import {
+  startHoverCommand,
+  stopHoverCommand,
+  setIgnoreListCommand
+} from "./commands";
+import { IIgnoreStore } from "./interfaces/IIgnoreStore";
+import {
+  TFilterMatches,
+  TOverlayTrigger,
+  maybeResetHoverStates,
+  isSelectionInHoveredMatch,
+  updateHoverForSelection,
+  createFilterBySeverity,
+  isFilterBySeverity,
+  noSeverityLevelsHidden
+} from "./utils/plugin";
+import { createPluginKey, TPluginKey } from "./utils/plugin";
 import { getClientRectIndex } from "./utils/clientRect";
+import { ICollabOptions } from "./interfaces/ICollab";
+import { createSeverityConfig, TSeverityOptions } from "./utils/severity";
+import { createConflictConfig, TConflictOptions } from "./utils/conflicts";
+import { createCollabMessages, isCollabTransaction } from "./state/collab";
 
 export type ExpandRanges = (ranges: IRange[], doc: Node<any>) => IRange[];
 
@@ -54,7 +72,8 @@ export interface IPluginOptions<
    * A function that receives ranges that have been dirtied since the
    * last request, and returns the new ranges to find matches for. The
    * default implementation expands the dirtied ranges to cover the parent
-   * block node.
+   * block node – use `expandRangesToSentence` to check only the sentences
+   * that have changed.
    */
   expandRanges?: ExpandRanges;
 
@@ -75,6 +94,23 @@ export interface IPluginOptions<
    */
   matchColours?: IMatchTypeToColourMap;
 
+  /**
+   * Severity levels for matches. When these are supplied, matches are
+   * coloured by their severity or category, and ordered by severity,
+   * rather than by match type. Unless `filterOptions` are supplied, they're
+   * filtered by severity, too – to do so with your own filter options, use
+   * `createFilterBySeverity` with the same levels.
+   */
+  severity?: TSeverityOptions;
+
+  /**
+   * Resolve conflicts between matches from different rules or matchers that
+   * cover the same or overlapping ranges – by removing duplicates, keeping
+   * the highest priority match, or merging them into a single match. When
+   * this is absent, every match is kept.
+   */
+  conflicts?: TConflictOptions;
+
   /**
    * Given a node, return an array of ranges to ignore. Useful when e.g
    * your CMS allows users to exclude ranges that we don't want to check,
@@ -90,10 +126,38 @@ export interface IPluginOptions<
    */
   isElementPartOfTyperighterUI?: (el: HTMLElement) => boolean;
 
+  /**
+   * Somewhere to persist the rules and words the user has chosen to ignore.
+   * We load the ignore list when the editor starts, and save it whenever it
+   * changes.
+   */
+  ignoreStore?: IIgnoreStore;
+
+  /**
+   * What opens the match overlay: the mouse hovering over a match, the
+   * caret or a touch selection landing inside one, or both. Defaults to
+   * "hover".
+   */
+  overlayTrigger?: TOverlayTrigger;
+
   /**
    * Called when a match decoration is clicked.
    */
   onMatchDecorationClicked?: (match: TMatch) => void;
+
+  /**
+   * The key for this instance of the plugin. Commands are bound to a plugin
+   * by its key, so several differently configured instances can share an
+   * EditorState. We create a key if one isn't supplied.
+   */
+  pluginKey?: TPluginKey<IPluginState<TFilterState, TMatch>>;
+
+  /**
+   * Options for collaborative editing. In a collaborative session, we share
+   * the matches we receive, and the matches the user ignores or applies,
+   * with the other clients, so that each change is checked just once.
+   */
+  collab?: ICollabOptions<TMatch>;
 }
 
 /**
@@ -107,20 +171,41 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
   plugin: Plugin<IPluginState<TFilterState, TMatch>>;
   store: Store<IPluginState<TFilterState, TMatch>>;
   getState: (state: EditorState) => IPluginState<TFilterState, TMatch>;
+  pluginKey: TPluginKey<IPluginState<TFilterState, TMatch>>;
 } => {
   const {
     expandRanges = expandRangesToParentBlockNode,
     getSkippedRanges = doNotSkipRanges,
     matches = [],
-    filterOptions,
     ignoreMatch = includeAllMatches,
     matchColours = defaultMatchColours,
+    severity,
+    conflicts,
     onMatchDecorationClicked = () => undefined,
-    isElementPartOfTyperighterUI = () => false
+    overlayTrigger = "hover",
+    isElementPartOfTyperighterUI = () => false,
+    ignoreStore,
+    pluginKey = createPluginKey<IPluginState<TFilterState, TMatch>>(),
+    collab
   } = options;
   // A handy alias to reduce repetition
   type TPluginState = IPluginState<TFilterState, TMatch>;
 
+  const severityConfig = severity && createSeverityConfig(severity);
+  const filterOptions =
+    options.filterOptions ||
+    (severityConfig && {
+      filterMatches: createFilterBySeverity<TFilterState, TMatch>(
+        severityConfig
+      ),
+      // Consumers that don't pass filter options haven't chosen a filter
+      // state, so it's the severity filter's to choose.
+      initialFilterState: noSeverityLevelsHidden as TFilterState
+    });
+  const conflictConfig = conflicts && createConflictConfig(conflicts);
+  const isTriggeredByHover = overlayTrigger !== "caret";
+  const isTriggeredByCaret = overlayTrigger !== "hover";
+
   // Set up our store, which we'll use to notify consumer code of state updates.
   const store = new Store<TPluginState>();
   const reducer = createReducer<TPluginState>(
@@ -130,6 +215,18 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
     getSkippedRanges
   );
 
+  // Should this client request matches for the changes in this transaction?
+  const shouldCheckTransaction = (tr: Transaction) => {
+    if (!collab) {
+      return true;
+    }
+    if (collab.isChecker) {
+      return collab.isChecker();
+    }
+    const { isRemoteTransaction = isCollabTransaction } = collab;
+    return !isRemoteTransaction(tr);
+  };
+
   const plugin: Plugin<TPluginState> = new Plugin({
     key: pluginKey,
     state: {
@@ -139,14 +236,18 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
           matches,
           ignoreMatch,
           matchColours,
-          filterOptions
+          severity: severityConfig,
+          conflicts: conflictConfig,
+          filterOptions,
+          filterBySeverity:
+            !!severityConfig && isFilterBySeverity(filterOptions?.filterMatches)
         });
         store.emit(STORE_EVENT_NEW_STATE, initialState);
         return initialState;
       },
       apply(tr: Transaction, state: TPluginState): TPluginState {
         // We use the reducer pattern to handle state transitions.
-        return reducer(tr, state, tr.getMeta(PROSEMIRROR_TYPERIGHTER_ACTION));
+        return reducer(tr, state, tr.getMeta(pluginKey));
       }
     },
 
@@ -160,20 +261,39 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
 
       const newTr = newState.tr;
 
+      if (collab) {
+        trs.forEach(tr => {
+          const action = tr.getMeta(pluginKey);
+          if (action) {
+            createCollabMessages(
+              action,
+              oldPluginState,
+              newPluginState
+            ).forEach(message => collab.broadcast(message));
+          }
+        });
+      }
+
       const newDirtiedRanges = trs.reduce(
         (acc, tr) => acc.concat(getDirtiedRangesFromTransaction(oldState.doc, tr)),
         [] as IRange[]
       );
       if (newDirtiedRanges.length) {
-        if (newPluginState.config.requestMatchesOnDocModified) {
+        const requestMatches = trs.some(
+          tr => tr.docChanged && shouldCheckTransaction(tr)
+        );
+        if (
+          newPluginState.config.requestMatchesOnDocModified &&
+          requestMatches
+        ) {
           // We wait a tick here, as applyNewDirtiedRanges must run
           // before the newly dirtied range is available in the state.
           // @todo -- this is a bit of a hack, it can be done better.
           setTimeout(() => store.emit(STORE_EVENT_NEW_DIRTIED_RANGES));
         }
         return newTr.setMeta(
-          PROSEMIRROR_TYPERIGHTER_ACTION,
-          applyNewDirtiedRanges(newDirtiedRanges)
+          pluginKey,
+          applyNewDirtiedRanges(newDirtiedRanges, requestMatches)
         );
       }
 
@@ -196,7 +316,15 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
       },
       handleDOMEvents: {
         mouseleave: (view, event) => {
-          maybeResetHoverStates(view, isElementPartOfTyperighterUI, event);
+          if (!isTriggeredByHover) {
+            return false;
+          }
+          maybeResetHoverStates(
+            view,
+            pluginKey,
+            isElementPartOfTyperighterUI,
+            event
+          );
           return false;
         },
         click: (view: EditorView, event: Event) => {
@@ -211,17 +339,25 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
           return false;
         },
         mouseover: (view: EditorView, event: Event) => {
+          if (!isTriggeredByHover) {
+            return false;
+          }
+
           const matchId = maybeGetDecorationMatchIdFromEvent(event);
 
-          if (!matchId) {
-            stopHoverCommand()(view.state, view.dispatch);
+          // Leave the overlay open if it was opened from the caret.
+          if (
+            !matchId &&
+            !(isTriggeredByCaret && isSelectionInHoveredMatch(view, pluginKey))
+          ) {
+            stopHoverCommand()(pluginKey)(view.state, view.dispatch);
           }
 
           if (!matchId || matchId === plugin.getState(view.state).hoverId) {
             return false;
           }
 
-          startHoverCommand(matchId, getClientRectIndex(event))(
+          startHoverCommand(matchId, getClientRectIndex(event))(pluginKey)(
             view.state,
             view.dispatch
           );
@@ -231,10 +367,43 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
       }
     },
     view(view) {
+      let savedIgnoreList = plugin.getState(view.state).ignoreList;
+      let isDestroyed = false;
+      if (ignoreStore) {
+        ignoreStore
+          .load()
+          .then(({ ruleIds, words }) => {
+            if (isDestroyed) {
+              return;
+            }
+            // The user may have ignored things while we were loading.
+            const { ignoreList } = plugin.getState(view.state);
+            setIgnoreListCommand({
+              ruleIds: uniq(ruleIds.concat(ignoreList.ruleIds)),
+              words: uniq(words.concat(ignoreList.words))
+            })(pluginKey)(view.state, view.dispatch);
+          })
+          .catch(() => undefined);
+      }
       return {
-        // Update our store with the new state.
-        update: _ =>
-          store.emit(STORE_EVENT_NEW_STATE, plugin.getState(view.state))
+        update: (_, prevState) => {
+          const pluginState = plugin.getState(view.state);
+          // Update our store with the new state.
+          store.emit(STORE_EVENT_NEW_STATE, pluginState);
+          if (ignoreStore && pluginState.ignoreList !== savedIgnoreList) {
+            savedIgnoreList = pluginState.ignoreList;
+            ignoreStore.save(savedIgnoreList).catch(() => undefined);
+          }
+          if (
+            isTriggeredByCaret &&
+            !prevState.selection.eq(view.state.selection)
+          ) {
+            updateHoverForSelection(view, pluginKey);
+          }
+        },
+        destroy: () => {
+          isDestroyed = true;
+        }
       };
     }
   });
@@ -244,7 +413,8 @@ const createTyperighterPlugin = <TFilterState, TMatch extends IMatch>(
     store,
     getState: plugin.getState.bind(plugin) as (
       state: EditorState
-    ) => TPluginState
+    ) => TPluginState,
+    pluginKey
   };
 };
 
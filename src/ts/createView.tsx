@@ -1,6 +1,8 @@
 import React from "react";
 import { render } from "react-dom";
 import MatchOverlay from "./components/MatchOverlay";
+import MatchDescriptions from "./components/MatchDescriptions";
+import CheckAnnouncer from "./components/CheckAnnouncer";
 import Store from "./state/store";
 import { Commands } from "./commands";
 import { IMatch } from "./interfaces/IMatch";
@@ -11,14 +13,15 @@ import TyperighterTelemetryAdapter from "./services/TyperighterTelemetryAdapter"
 import TelemetryContext from "./contexts/TelemetryContext";
 import { EditorView } from "prosemirror-view";
 import { IPluginState } from "./state/reducer";
-import { MatchType } from "./utils/decoration";
 
 interface IViewOptions<TPluginState extends IPluginState> {
   view: EditorView;
   store: Store<TPluginState>;
   matcherService: MatcherService<TPluginState["filterState"], IMatch>;
   commands: Commands;
-  sidebarNode: Element;
+  // Where to render the sidebar. Omit this to render only the overlay –
+  // e.g. when several editors share a sidebar via `createAggregatedView`.
+  sidebarNode?: Element;
   overlayNode: Element;
   contactHref?: string;
   feedbackHref?: string;
@@ -39,10 +42,11 @@ interface IViewOptions<TPluginState extends IPluginState> {
  * Instantiate a UI for the given EditorView, commands, and configuration,
  * appending it to the given HTML elements. This includes:
  *  - The overlay responsible for displaying tooltips
+ *  - The descriptions and announcements we make to assistive technology
  *  - The plugin configuration pane
  *  - The plugin results pane
  */
-const createView = <TPluginState extends IPluginState<MatchType[]>>({
+const createView = <TPluginState extends IPluginState<string[]>>({
   view,
   store,
   matcherService,
@@ -89,13 +93,22 @@ const createView = <TPluginState extends IPluginState<MatchType[]>>({
             telemetryAdapter?.matchIsMarkedAsCorrect(match, document.URL);
           })
         }
+        previewSuggestion={commands.previewSuggestion}
+        stopSuggestionPreview={commands.stopSuggestionPreview}
         feedbackHref={feedbackHref}
         stopHover={commands.stopHover}
+        returnFocus={() => view.focus()}
       />
+      <MatchDescriptions store={store} />
+      <CheckAnnouncer store={store} />
     </TelemetryContext.Provider>,
     overlayNode
   );
 
+  if (!sidebarNode) {
+    return;
+  }
+
   render(
     <TelemetryContext.Provider value={{ telemetryAdapter }}>
       <Sidebar
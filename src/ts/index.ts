@@ -2,27 +2,109 @@ import { IMatch, IBlock } from './interfaces/IMatch'
 import Store from './state/store';
 import createTyperighterPlugin from "./createTyperighterPlugin";
 import MatcherService from "./services/MatcherService";
-import TelemetryService from "./services/TelemetryService";
+import TelemetryService, { ITelemetryServiceOptions } from "./services/TelemetryService";
 import { ITelemetryEvent } from './interfaces/ITelemetryData';
-import TyperighterTelemetryAdapter from "./services/TyperighterTelemetryAdapter";
+import TyperighterTelemetryAdapter, { ITyperighterTelemetryOptions, TTelemetryScrubber, redactTelemetryEvent } from "./services/TyperighterTelemetryAdapter";
 import TyperighterAdapter, { convertTyperighterResponse } from "./services/adapters/TyperighterAdapter";
-import { createBoundCommands } from "./commands";
+import LanguageToolAdapter, { convertLanguageToolResponse } from "./services/adapters/LanguageToolAdapter";
+import CompositeMatcherAdapter from "./services/adapters/CompositeMatcherAdapter";
+import RegexMatcherAdapter from "./services/adapters/RegexMatcherAdapter";
+import WorkerMatcherAdapter, { exposeMatcherAdapter } from "./services/adapters/WorkerMatcherAdapter";
+import CachingMatcherAdapter from "./services/adapters/CachingMatcherAdapter";
+import InMemoryMatchCacheStore from "./services/adapters/cacheStores/InMemoryMatchCacheStore";
+import IndexedDBMatchCacheStore from "./services/adapters/cacheStores/IndexedDBMatchCacheStore";
+import InMemoryIgnoreStore from "./services/ignoreStores/InMemoryIgnoreStore";
+import LocalStorageIgnoreStore from "./services/ignoreStores/LocalStorageIgnoreStore";
+import CallbackIgnoreStore from "./services/ignoreStores/CallbackIgnoreStore";
+import InMemoryTelemetryEventStore from "./services/telemetryStores/InMemoryTelemetryEventStore";
+import LocalStorageTelemetryEventStore from "./services/telemetryStores/LocalStorageTelemetryEventStore";
+import IndexedDBTelemetryEventStore from "./services/telemetryStores/IndexedDBTelemetryEventStore";
+import { IPersistedTelemetryEvents, ITelemetryEventStore } from "./interfaces/ITelemetryEventStore";
+import { IIgnoreList, IIgnoreStore, TIgnoreScope, IGNORE_SCOPE_OCCURRENCE, IGNORE_SCOPE_RULE, IGNORE_SCOPE_WORD } from "./interfaces/IIgnoreStore";
+import { ICollabOptions, TCollabMessage } from "./interfaces/ICollab";
+import { createBoundCommands, restoreTyperighterStateCommand, receiveCollabMessageCommand } from "./commands";
+import { createTyperighterKeymap, defaultKeyBindings, IKeyBindings } from "./keymap";
+import { serialiseTyperighterState, ISerialisedTyperighterState } from "./state/serialise";
+import { isCollabTransaction } from "./state/collab";
 import { getBlocksFromDocument } from './utils/prosemirror';
-import { filterByMatchState } from './utils/plugin';
+import { filterByMatchState, createFilterBySeverity, createPluginKey, TOverlayTrigger } from './utils/plugin';
+import { ISeverityLevel, TSeverityOptions, TGetMatchSeverity, createSeverityConfig, defaultSeverityLevels, SEVERITY_ERROR, SEVERITY_WARNING, SEVERITY_INFO, SEVERITY_STYLE, SEVERITY_UNKNOWN } from './utils/severity';
+import { TConflictOptions, TConflictStrategy, TGetMatchPriority, createConflictConfig } from './utils/conflicts';
+import { expandRangesToParentBlockNode, expandRangesToSentence } from './utils/range';
 import createView from "./createView";
+import createAggregatedView from "./createAggregatedView";
+import EditorAggregator from "./services/EditorAggregator";
 import '../css/index.scss';
 
 export {
   MatcherService,
   TelemetryService,
+  ITelemetryServiceOptions,
   TyperighterTelemetryAdapter,
+  ITyperighterTelemetryOptions,
+  TTelemetryScrubber,
+  redactTelemetryEvent,
   TyperighterAdapter,
+  LanguageToolAdapter,
+  CompositeMatcherAdapter,
+  RegexMatcherAdapter,
+  WorkerMatcherAdapter,
+  exposeMatcherAdapter,
+  CachingMatcherAdapter,
+  InMemoryMatchCacheStore,
+  IndexedDBMatchCacheStore,
+  InMemoryIgnoreStore,
+  LocalStorageIgnoreStore,
+  CallbackIgnoreStore,
+  IIgnoreList,
+  IIgnoreStore,
+  TIgnoreScope,
+  IGNORE_SCOPE_OCCURRENCE,
+  IGNORE_SCOPE_RULE,
+  IGNORE_SCOPE_WORD,
+  InMemoryTelemetryEventStore,
+  LocalStorageTelemetryEventStore,
+  IndexedDBTelemetryEventStore,
+  ITelemetryEventStore,
+  IPersistedTelemetryEvents,
   getBlocksFromDocument,
   convertTyperighterResponse,
+  convertLanguageToolResponse,
   createBoundCommands,
+  serialiseTyperighterState,
+  restoreTyperighterStateCommand,
+  ISerialisedTyperighterState,
+  ICollabOptions,
+  TCollabMessage,
+  receiveCollabMessageCommand,
+  isCollabTransaction,
+  createTyperighterKeymap,
+  defaultKeyBindings,
+  IKeyBindings,
   createView,
+  createAggregatedView,
+  EditorAggregator,
   createTyperighterPlugin,
   filterByMatchState,
+  createFilterBySeverity,
+  TOverlayTrigger,
+  ISeverityLevel,
+  TSeverityOptions,
+  TGetMatchSeverity,
+  createSeverityConfig,
+  defaultSeverityLevels,
+  SEVERITY_ERROR,
+  SEVERITY_WARNING,
+  SEVERITY_INFO,
+  SEVERITY_STYLE,
+  SEVERITY_UNKNOWN,
+  TConflictOptions,
+  TConflictStrategy,
+  TGetMatchPriority,
+  createConflictConfig,
+  createPluginKey,
+  expandRangesToParentBlockNode,
+  expandRangesToSentence,
   IMatch,
   IBlock,
   ITelemetryEvent,
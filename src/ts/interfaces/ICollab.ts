@@ -0,0 +1,64 @@
+import { Transaction } from "prosemirror-state";
+import { IMatch, IRange } from "./IMatch";
+import { TIgnoreScope } from "./IIgnoreStore";
+
+export const COLLAB_MESSAGE_MATCHES = "MATCHES" as const;
+export const COLLAB_MESSAGE_IGNORE = "IGNORE" as const;
+export const COLLAB_MESSAGE_APPLY = "APPLY" as const;
+
+/**
+ * The matches a client has received for some ranges of the document. The
+ * ranges and matches are mapped to the sender's document as it was when the
+ * message was sent.
+ */
+export interface ICollabMatchesMessage<TMatch extends IMatch = IMatch> {
+  type: typeof COLLAB_MESSAGE_MATCHES;
+  // The ranges that were checked.
+  ranges: IRange[];
+  // The categories they were checked against.
+  categoryIds: string[];
+  matches: TMatch[];
+}
+
+export interface ICollabIgnoreMessage {
+  type: typeof COLLAB_MESSAGE_IGNORE;
+  matchId: string;
+  scope: TIgnoreScope;
+}
+
+export interface ICollabApplyMessage {
+  type: typeof COLLAB_MESSAGE_APPLY;
+  // The matches whose suggestions were applied.
+  matchIds: string[];
+}
+
+/**
+ * A message to share with the other clients in a collaborative session.
+ * Messages are plain data, and can be serialised as JSON.
+ */
+export type TCollabMessage<TMatch extends IMatch = IMatch> =
+  | ICollabMatchesMessage<TMatch>
+  | ICollabIgnoreMessage
+  | ICollabApplyMessage;
+
+export interface ICollabOptions<TMatch extends IMatch = IMatch> {
+  /**
+   * Send a message to the other clients in the session. They should pass
+   * it to `receiveCollabMessageCommand`.
+   */
+  broadcast: (message: TCollabMessage<TMatch>) => void;
+
+  /**
+   * Is this transaction a change made by another client? By default, we
+   * look for the transactions created by prosemirror-collab's
+   * `receiveTransaction`.
+   */
+  isRemoteTransaction?: (tr: Transaction) => boolean;
+
+  /**
+   * Is this client the session's designated checker? If supplied, only the
+   * checker requests matches for changes to the document, local or remote.
+   * If not, each client requests matches for its own changes alone.
+   */
+  isChecker?: () => boolean;
+}
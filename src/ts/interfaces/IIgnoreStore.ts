@@ -0,0 +1,30 @@
+export const IGNORE_SCOPE_OCCURRENCE = "OCCURRENCE" as const;
+export const IGNORE_SCOPE_RULE = "RULE" as const;
+export const IGNORE_SCOPE_WORD = "WORD" as const;
+
+/**
+ * How widely to ignore a match: just this occurrence of it, every match for
+ * its rule in this document, or its text wherever it appears, by adding it
+ * to the user's dictionary.
+ */
+export type TIgnoreScope =
+  | typeof IGNORE_SCOPE_OCCURRENCE
+  | typeof IGNORE_SCOPE_RULE
+  | typeof IGNORE_SCOPE_WORD;
+
+export interface IIgnoreList {
+  // The rules the user has ignored for this document.
+  ruleIds: string[];
+  // The words in the user's dictionary.
+  words: string[];
+}
+
+/**
+ * Somewhere to persist the ignore list. Ignored occurrences are tied to
+ * positions in the document, so they're persisted with the rest of the
+ * document's state – see `serialiseTyperighterState`.
+ */
+export interface IIgnoreStore {
+  load: () => Promise<IIgnoreList>;
+  save: (ignoreList: IIgnoreList) => Promise<void>;
+}
@@ -62,15 +62,41 @@ export interface IMatch<TSuggestion = ISuggestion> {
   ruleId: string;
   matchedText: string;
   message: string;
+  // A brief version of the message, if the matcher supplies one.
+  shortMessage?: string;
   category: ICategory;
+  // More about the rule that produced this match, if the matcher supplies it.
+  ruleDetails?: IRuleDetails<TSuggestion>;
   suggestions?: TSuggestion[];
   replacement?: TSuggestion;
   markAsCorrect?: boolean;
+  // The id of the match's severity level, e.g. "warning". If this is absent,
+  // the plugin's severity options may derive it from the category or rule.
+  severity?: string;
   matchContext: string;
   precedingText: string;
   subsequentText: string;
+  // When matches for the same range are merged, the matches that were merged
+  // into this one, including itself – see the plugin's `conflicts` option.
+  sources?: IMatchSource[];
 }
 
+export interface IRuleDetails<TSuggestion = ISuggestion> {
+  // What the rule checks for, and why.
+  description?: string;
+  // The kind of issue the rule flags, e.g. "misspelling".
+  issueType?: string;
+  // The suggestions the rule makes for every match.
+  suggestions?: TSuggestion[];
+  // Where to find the rule's definition.
+  url?: string;
+}
+
+export type IMatchSource = Pick<
+  IMatch,
+  "matchId" | "ruleId" | "matcherType" | "category" | "message"
+>;
+
 export interface IBlockResult {
   categoryIds: string[];
   id: string;
@@ -29,6 +29,25 @@ export declare class IMatcherAdapter<
    */
   public fetchCategories: () => Promise<ICategory[]>;
 
+  /**
+   * Cancel a request that's in flight. Once a request is cancelled, the
+   * adapter should not call any further callbacks for it.
+   *
+   * Optional – if an adapter can't cancel requests, we let them run to
+   * completion.
+   */
+  public cancelRequest?: (requestId: string) => void;
+
+  /**
+   * Register a callback to hear about changes to the adapter's connection
+   * to its matcher service.
+   *
+   * Optional – only adapters that hold a connection open need to report it.
+   */
+  public onConnectionStatusChange?: (
+    callback: TConnectionStatusCallback
+  ) => void;
+
   constructor(apiUrl: string);
 }
 
@@ -41,3 +60,7 @@ export type TRequestErrorCallback = (
 ) => void;
 
 export type TRequestCompleteCallback = (requestId: string) => void;
+
+export type TConnectionStatus = "CONNECTING" | "CONNECTED" | "DISCONNECTED";
+
+export type TConnectionStatusCallback = (status: TConnectionStatus) => void;
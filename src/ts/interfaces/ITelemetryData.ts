@@ -1,8 +1,13 @@
-import { MatchType } from "../utils/decoration";
-
 type TelemetryBool = "true" | "false";
 
 export interface ITelemetryEvent {
+  /**
+   * A unique id for the event. An event may be delivered more than once –
+   * e.g. when a page closes while it's being sent – so the telemetry service
+   * can use this to avoid counting it twice.
+   */
+  id?: string;
+
   /**
    * The application sending the event
    */
@@ -76,6 +81,21 @@ export interface IMatchFoundEvent extends ITyperighterTelemetryEvent {
   tags: ITyperighterTelemetryEvent["tags"] & IMatchEventTags;
 }
 
+/**
+ * The number of matches found for a rule during a check, sent in place of an
+ * event per match when match events are aggregated.
+ */
+export interface IMatchesFoundForRuleEvent extends ITyperighterTelemetryEvent {
+  type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND;
+  value: number;
+  tags: ITyperighterTelemetryEvent["tags"] & {
+    matcherType: string;
+    ruleId: string;
+    // The id of the check the matches were found in.
+    requestId: string;
+  };
+}
+
 export interface ISuggestionAcceptedEvent extends ITyperighterTelemetryEvent {
   type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_SUGGESTION_IS_ACCEPTED;
   value: 1;
@@ -126,5 +146,6 @@ export interface ISummaryToggleEvent extends ITyperighterTelemetryEvent {
 export interface IFilterToggleEvent extends ITyperighterTelemetryEvent {
   type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_FILTER_STATE_CHANGED;
   value: 0 | 1;
-  tags: ITyperighterTelemetryEvent["tags"] & { matchType: MatchType };
+  // The match type or severity level toggled.
+  tags: ITyperighterTelemetryEvent["tags"] & { matchType: string };
 }
@@ -0,0 +1,32 @@
+import { ITelemetryEvent } from "./ITelemetryData";
+
+export interface IPersistedTelemetryEvents<
+  TEvent extends ITelemetryEvent = ITelemetryEvent
+> {
+  events: TEvent[];
+  // When the page last saved its events, as a timestamp in milliseconds.
+  savedAt: number;
+  // Has the page closed? If so, the next page to load can deliver its
+  // events straight away.
+  isClosed: boolean;
+}
+
+/**
+ * Somewhere to persist telemetry events until they're delivered, so events
+ * that are still queued when the page closes can be sent when it's next
+ * opened.
+ *
+ * Each page keeps its events under its own id, so pages open at the same
+ * time don't overwrite each other's events.
+ */
+export interface ITelemetryEventStore<
+  TEvent extends ITelemetryEvent = ITelemetryEvent
+> {
+  // Load the events persisted by every page, by page id.
+  load: () => Promise<{ [pageId: string]: IPersistedTelemetryEvents<TEvent> }>;
+  save: (
+    pageId: string,
+    persistedEvents: IPersistedTelemetryEvents<TEvent>
+  ) => Promise<void>;
+  remove: (pageId: string) => Promise<void>;
+}
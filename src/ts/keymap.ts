@@ -0,0 +1,58 @@
+import { keymap } from "prosemirror-keymap";
+import {
+  selectNextMatchCommand,
+  selectPreviousMatchCommand,
+  applyFirstSuggestionForSelectedMatchCommand,
+  ignoreSelectedMatchCommand,
+  openOverlayForMatchAtCursorCommand
+} from "./commands";
+import { TPluginKey } from "./utils/plugin";
+
+/**
+ * The keys for each of the review commands, in prosemirror-keymap's
+ * notation. Set a command's key to undefined to leave it unbound.
+ */
+export interface IKeyBindings {
+  selectNextMatch: string | undefined;
+  selectPreviousMatch: string | undefined;
+  applyFirstSuggestionForSelectedMatch: string | undefined;
+  ignoreSelectedMatch: string | undefined;
+  openOverlayForMatchAtCursor: string | undefined;
+}
+
+export const defaultKeyBindings: IKeyBindings = {
+  selectNextMatch: "Mod-Alt-ArrowDown",
+  selectPreviousMatch: "Mod-Alt-ArrowUp",
+  applyFirstSuggestionForSelectedMatch: "Mod-Alt-Enter",
+  ignoreSelectedMatch: "Mod-Alt-Backspace",
+  openOverlayForMatchAtCursor: "Mod-Alt-o"
+};
+
+const commands = {
+  selectNextMatch: selectNextMatchCommand(),
+  selectPreviousMatch: selectPreviousMatchCommand(),
+  applyFirstSuggestionForSelectedMatch: applyFirstSuggestionForSelectedMatchCommand(),
+  ignoreSelectedMatch: ignoreSelectedMatchCommand(),
+  openOverlayForMatchAtCursor: openOverlayForMatchAtCursorCommand()
+};
+
+/**
+ * Create a keymap plugin that lets users review matches from the keyboard,
+ * for the instance of the plugin with the given key. Add it to the editor
+ * alongside the plugin, overriding the default key bindings if necessary.
+ */
+export const createTyperighterKeymap = (
+  pluginKey: TPluginKey,
+  keyBindings: Partial<IKeyBindings> = {}
+) => {
+  const bindings = { ...defaultKeyBindings, ...keyBindings };
+  return keymap(
+    (Object.keys(commands) as Array<keyof IKeyBindings>).reduce(
+      (acc, commandName) => {
+        const key = bindings[commandName];
+        return key ? { ...acc, [key]: commands[commandName](pluginKey) } : acc;
+      },
+      {}
+    )
+  );
+};
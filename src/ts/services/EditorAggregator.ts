@@ -0,0 +1,170 @@
+import { v4 } from "uuid";
+import Store, { STORE_EVENT_NEW_STATE } from "../state/store";
+import { IPluginState } from "../state/reducer";
+import { ApplySuggestionOptions, Commands } from "../commands";
+import { IMatch } from "../interfaces/IMatch";
+import { selectMatchByMatchId } from "../state/selectors";
+import MatcherService from "./MatcherService";
+
+export interface IAggregatedEditor<TPluginState extends IPluginState> {
+  // A label for the editor's field, e.g. "Headline" or "Body".
+  label: string;
+  store: Store<TPluginState>;
+  commands: Commands;
+  matcherService: MatcherService<TPluginState["filterState"], IMatch>;
+  // The element responsible for scrolling the editor content.
+  editorScrollElement: Element;
+}
+
+export interface IAggregatedEditorState<TPluginState extends IPluginState> {
+  editor: IAggregatedEditor<TPluginState>;
+  state: TPluginState | undefined;
+}
+
+type TAggregatorListener<TPluginState extends IPluginState> = (
+  editorStates: Array<IAggregatedEditorState<TPluginState>>
+) => void;
+
+/**
+ * Gathers several editors – e.g. the fields of an article – so their
+ * matches can be displayed and checked together. Commands that concern a
+ * particular match are routed to the editor that owns it.
+ */
+class EditorAggregator<TPluginState extends IPluginState = IPluginState> {
+  private editors: Array<IAggregatedEditor<TPluginState>> = [];
+  private listeners: Array<TAggregatorListener<TPluginState>> = [];
+
+  /**
+   * Add an editor to the aggregator. Returns a function that removes it.
+   */
+  public register = (editor: IAggregatedEditor<TPluginState>) => {
+    const onNewState = () => this.notify();
+    this.editors = this.editors.concat(editor);
+    editor.store.on(STORE_EVENT_NEW_STATE, onNewState);
+    this.notify();
+    return () => {
+      this.editors = this.editors.filter(_ => _ !== editor);
+      editor.store.removeEventListener(STORE_EVENT_NEW_STATE, onNewState);
+      this.notify();
+    };
+  };
+
+  /**
+   * Get the current state of each editor, in the order they were registered.
+   */
+  public getEditorStates = (): Array<IAggregatedEditorState<TPluginState>> =>
+    this.editors.map(editor => ({ editor, state: editor.store.getState() }));
+
+  /**
+   * Subscribe to changes in the state of any editor.
+   */
+  public on = (listener: TAggregatorListener<TPluginState>) => {
+    this.listeners.push(listener);
+  };
+
+  public removeEventListener = (
+    listener: TAggregatorListener<TPluginState>
+  ) => {
+    this.listeners = this.listeners.filter(_ => _ !== listener);
+  };
+
+  /**
+   * Find the editor that owns the given match.
+   */
+  public getEditorForMatch = (matchId: string) =>
+    this.editors.find(editor => {
+      const state = editor.store.getState();
+      return !!state && !!selectMatchByMatchId(state, matchId);
+    });
+
+  public selectMatch = (matchId: string) => {
+    const editor = this.getEditorForMatch(matchId);
+    return !!editor && editor.commands.selectMatch(matchId);
+  };
+
+  public indicateHighlight = (matchId: string) => {
+    const editor = this.getEditorForMatch(matchId);
+    return !!editor && editor.commands.indicateHighlight(matchId);
+  };
+
+  public stopHighlight = () =>
+    this.editors.forEach(editor => editor.commands.stopHighlight());
+
+  /**
+   * Apply suggestions, routing each to the editor that owns its match.
+   */
+  public applySuggestions = (suggestionOpts: ApplySuggestionOptions) =>
+    this.editors.reduce((applied, editor) => {
+      const editorOpts = suggestionOpts.filter(opt => {
+        const state = editor.store.getState();
+        return !!state && !!selectMatchByMatchId(state, opt.matchId);
+      });
+      return (
+        (editorOpts.length > 0 &&
+          editor.commands.applySuggestions(editorOpts)) ||
+        applied
+      );
+    }, false);
+
+  /**
+   * Apply the preferred suggestion for each of the given matches, routing
+   * each to the editor that owns it.
+   */
+  public applySuggestionsForMatches = (matchIds: string[]) =>
+    this.routeMatchIds(matchIds, (editor, editorMatchIds) =>
+      editor.commands.applySuggestionsForMatches(editorMatchIds)
+    );
+
+  /**
+   * Ignore the given matches, routing each to the editor that owns it.
+   */
+  public ignoreMatches = (matchIds: string[]) =>
+    this.routeMatchIds(matchIds, (editor, editorMatchIds) =>
+      editor.commands.ignoreMatches(editorMatchIds)
+    );
+
+  /**
+   * Check every editor, each against its own categories.
+   */
+  public requestMatchesForAll = () =>
+    this.editors.forEach(editor =>
+      editor.commands.requestMatchesForDocument(
+        v4(),
+        editor.matcherService.getCurrentCategories().map(_ => _.id)
+      )
+    );
+
+  public clearMatches = () =>
+    this.editors.forEach(editor => editor.commands.clearMatches());
+
+  /**
+   * Apply the same filter state to every editor.
+   */
+  public setFilterState = (filterState: TPluginState["filterState"]) =>
+    this.editors.forEach(editor => editor.commands.setFilterState(filterState));
+
+  private routeMatchIds = (
+    matchIds: string[],
+    command: (
+      editor: IAggregatedEditor<TPluginState>,
+      editorMatchIds: string[]
+    ) => boolean
+  ) =>
+    this.editors.reduce((applied, editor) => {
+      const state = editor.store.getState();
+      const editorMatchIds = matchIds.filter(
+        matchId => !!state && !!selectMatchByMatchId(state, matchId)
+      );
+      return (
+        (editorMatchIds.length > 0 && command(editor, editorMatchIds)) ||
+        applied
+      );
+    }, false);
+
+  private notify = () => {
+    const editorStates = this.getEditorStates();
+    this.listeners.forEach(listener => listener(editorStates));
+  };
+}
+
+export default EditorAggregator;
@@ -1,19 +1,47 @@
-import { IMatch, ICategory, IBlockWithSkippedRanges } from "../interfaces/IMatch";
+import {
+  IMatch,
+  ICategory,
+  IBlockWithSkippedRanges,
+  TErrorType
+} from "../interfaces/IMatch";
 import {
   IMatcherAdapter,
-  TMatchesReceivedCallback
+  TMatchesReceivedCallback,
+  TRequestCompleteCallback,
+  TRequestErrorCallback
 } from "../interfaces/IMatcherAdapter";
 import Store, {
   STORE_EVENT_NEW_MATCHES,
   STORE_EVENT_NEW_DIRTIED_RANGES
 } from "../state/store";
 import { Commands } from "../commands";
-import { selectAllBlockQueriesInFlight } from "../state/selectors";
+import { selectBlockIdsInFlightOverlappingRanges } from "../state/selectors";
 import { v4 } from "uuid";
 import TyperighterTelemetryAdapter from "./TyperighterTelemetryAdapter";
 import { IPluginState } from "../state/reducer";
 import { removeSkippedRanges } from "../utils/block";
 import { mapMatchThroughBlocks } from "../utils/match";
+import { getBackoffDelay } from "../utils/backoff";
+
+export interface IRetryPolicy {
+  // The maximum number of times to retry before giving up. Once we have, we
+  // wait for a new edit or check before requesting matches again.
+  maxAttempts: number;
+  // The longest we'll wait between retries, in milliseconds.
+  maxDelay: number;
+  // The proportion of each delay to randomise, between 0 and 1.
+  jitter: number;
+  // The types of error worth retrying – there's no point retrying
+  // an auth error, for example.
+  retryableErrorTypes: TErrorType[];
+}
+
+export const defaultRetryPolicy: IRetryPolicy = {
+  maxAttempts: 5,
+  maxDelay: 60000,
+  jitter: 0.2,
+  retryableErrorTypes: ["GENERAL_ERROR"]
+};
 
 /**
  * A matcher service to manage the interaction between the prosemirror-typerighter plugin
@@ -25,27 +53,40 @@ class MatcherService<TFilterState, TMatch extends IMatch> {
   private currentCategories = [] as ICategory[];
   private allCategories = [] as ICategory[];
   private requestPending = false;
+  private requestTimeout: ReturnType<typeof setTimeout> | undefined;
+  // The number of retries we've made since our last successful response.
+  private retryAttempt = 0;
+  // The request that last triggered a retry. Requests can report many errors,
+  // but we only count each failed request once.
+  private lastFailedRequestId: string | undefined;
+  // Set once we've made the maximum number of retries. We don't schedule
+  // further requests until a new edit or check asks for one.
+  private hasGivenUp = false;
+  private retryPolicy: IRetryPolicy;
   constructor(
     private store: Store<IPluginState<TFilterState, TMatch>>,
     private commands: Commands,
     private adapter: IMatcherAdapter<TMatch>,
     private telemetryAdapter?: TyperighterTelemetryAdapter,
     // The initial throttle duration for pending requests.
-    private initialThrottle = 2000
+    private initialThrottle = 2000,
+    retryPolicy: Partial<IRetryPolicy> = {}
   ) {
     this.currentThrottle = this.initialThrottle;
+    this.retryPolicy = { ...defaultRetryPolicy, ...retryPolicy };
     this.store.on(STORE_EVENT_NEW_MATCHES, (requestId, requestsInFlight) => {
+      this.stopGivingUp();
       this.fetchMatches(requestId, requestsInFlight);
     });
     this.store.on(STORE_EVENT_NEW_DIRTIED_RANGES, () => {
+      this.stopGivingUp();
       this.scheduleRequest();
     });
+    this.adapter.onConnectionStatusChange?.(this.commands.setConnectionStatus);
   }
 
-  private sendMatchTelemetryEvents = (matches: TMatch[]) => {
-    matches.forEach((match: TMatch) =>
-      this.telemetryAdapter?.matchFound(match, document.URL)
-    );
+  private sendMatchTelemetryEvents = (requestId: string, matches: TMatch[]) => {
+    this.telemetryAdapter?.matchesFound(requestId, matches, document.URL);
   };
 
   /**
@@ -82,11 +123,24 @@ class MatcherService<TFilterState, TMatch extends IMatch> {
    */
   public async fetchMatches(requestId: string, blocks: IBlockWithSkippedRanges[]) {
     const applyMatcherResponse: TMatchesReceivedCallback<TMatch> = response => {
-      this.sendMatchTelemetryEvents(response.matches);
+      this.sendMatchTelemetryEvents(requestId, response.matches);
       // For matches, map through skipped ranges on the way in
       const transformedMatches = response.matches.map(match => mapMatchThroughBlocks(match, blocks))
       const transformedResponse = { ...response, matches: transformedMatches }
       this.commands.applyMatcherResponse(transformedResponse);
+      this.resetRetryState();
+      this.sendCheckTelemetryIfSettled(requestId);
+    };
+
+    const applyRequestError: TRequestErrorCallback = error => {
+      this.commands.applyRequestError(error);
+      this.handleRequestError(error);
+      this.sendCheckTelemetryIfSettled(requestId);
+    };
+
+    const applyRequestComplete: TRequestCompleteCallback = completedRequestId => {
+      this.telemetryAdapter?.checkCompleted(completedRequestId);
+      this.commands.applyRequestComplete(completedRequestId);
     };
 
     // For blocks, remove skipped ranges on the way out
@@ -97,19 +151,27 @@ class MatcherService<TFilterState, TMatch extends IMatch> {
       transformedBlocks,
       this.currentCategories.map(_ => _.id),
       applyMatcherResponse,
-      this.commands.applyRequestError,
-      this.commands.applyRequestComplete
+      applyRequestError,
+      applyRequestComplete
     );
   }
 
   /**
-   * Request a fetch for matches. If we already have a request in flight,
-   * defer it until the next throttle window.
+   * Request a fetch for matches. If blocks we'd like to check are still in
+   * flight, defer it until the next throttle window – unless those blocks
+   * have been superseded, and we're able to cancel them.
    */
   public requestFetchMatches() {
     this.requestPending = false;
+    this.cancelSupersededRequests();
     const pluginState = this.store.getState();
-    if (!pluginState || selectAllBlockQueriesInFlight(pluginState).length) {
+    if (
+      !pluginState ||
+      selectBlockIdsInFlightOverlappingRanges(
+        pluginState,
+        pluginState.dirtiedRanges
+      ).length
+    ) {
       return this.scheduleRequest();
     }
     const requestId = v4();
@@ -120,14 +182,134 @@ class MatcherService<TFilterState, TMatch extends IMatch> {
   }
 
   /**
-   * Schedule a request for the next throttle tick.
+   * Cancel any blocks in flight that have been dirtied since they were sent –
+   * their results will be stale by the time they arrive. Cancelled blocks
+   * are returned to the dirtied ranges, so they're included in the request
+   * that supersedes them.
+   *
+   * We only cancel the adapter's request when none of its blocks are still
+   * pending – otherwise, we stop waiting on the superseded blocks and ignore
+   * their responses, and let the rest of the request run to completion.
    */
-  private scheduleRequest = (): unknown => {
-    if (this.requestPending) {
+  private cancelSupersededRequests = () => {
+    const pluginState = this.store.getState();
+    if (!pluginState || !this.adapter.cancelRequest) {
+      return;
+    }
+    selectBlockIdsInFlightOverlappingRanges(
+      pluginState,
+      pluginState.dirtiedRanges
+    ).forEach(({ requestId, blockIds }) => {
+      const { pendingBlocks } = pluginState.requestsInFlight[requestId];
+      if (blockIds.length < pendingBlocks.length) {
+        this.commands.applyRequestCancelled(requestId, blockIds);
+        return this.sendCheckTelemetryIfSettled(requestId);
+      }
+      this.adapter.cancelRequest!(requestId);
+      this.telemetryAdapter?.checkCompleted(requestId);
+      this.commands.applyRequestCancelled(requestId);
+    });
+  };
+
+  /**
+   * Send the telemetry for a check once none of its blocks are in flight.
+   * Not every adapter reports completion, and requests that fail or are
+   * partly cancelled may never complete, so we can't wait for that alone.
+   */
+  private sendCheckTelemetryIfSettled = (requestId: string) => {
+    const pluginState = this.store.getState();
+    if (pluginState && !pluginState.requestsInFlight[requestId]) {
+      this.telemetryAdapter?.checkCompleted(requestId);
+    }
+  };
+
+  /**
+   * Back off and retry if a request fails with an error we can retry. The
+   * reducer returns the failed block to the dirtied ranges, so it's included
+   * in the next request.
+   */
+  private handleRequestError: TRequestErrorCallback = error => {
+    const { maxAttempts, maxDelay, jitter, retryableErrorTypes } = this.retryPolicy;
+    const isRetryable =
+      !!error.blockId &&
+      retryableErrorTypes.includes(error.type || "GENERAL_ERROR");
+    if (
+      !isRetryable ||
+      this.hasGivenUp ||
+      error.requestId === this.lastFailedRequestId
+    ) {
+      return;
+    }
+    this.lastFailedRequestId = error.requestId;
+
+    if (this.retryAttempt >= maxAttempts) {
+      this.hasGivenUp = true;
+      this.cancelScheduledRequest();
+      this.resetRetryState();
       return;
     }
+
+    this.currentThrottle = getBackoffDelay(
+      this.retryAttempt,
+      this.initialThrottle,
+      maxDelay,
+      jitter
+    );
+    this.retryAttempt++;
+    this.commands.setRetryState({
+      attempt: this.retryAttempt,
+      nextAttemptTime: Date.now() + this.currentThrottle
+    });
+    // Any request we've already scheduled would skip the backoff delay.
+    this.scheduleRequest(true);
+  };
+
+  /**
+   * Reset the throttle and retry state, e.g. once a request succeeds.
+   */
+  private resetRetryState = () => {
+    this.currentThrottle = this.initialThrottle;
+    this.lastFailedRequestId = undefined;
+    if (!this.retryAttempt) {
+      return;
+    }
+    this.retryAttempt = 0;
+    this.commands.setRetryState(undefined);
+  };
+
+  /**
+   * Once we've given up retrying, a new edit or check starts afresh.
+   */
+  private stopGivingUp = () => {
+    if (this.hasGivenUp) {
+      this.hasGivenUp = false;
+      this.resetRetryState();
+    }
+  };
+
+  /**
+   * Schedule a request for the next throttle tick. If a request is already
+   * scheduled, we leave it be – unless we're asked to reschedule it, e.g.
+   * because the throttle duration has changed.
+   */
+  private scheduleRequest = (reschedule = false): unknown => {
+    if (this.hasGivenUp || (this.requestPending && !reschedule)) {
+      return;
+    }
+    this.cancelScheduledRequest();
     this.requestPending = true;
-    setTimeout(() => this.requestFetchMatches(), this.currentThrottle);
+    this.requestTimeout = setTimeout(
+      () => this.requestFetchMatches(),
+      this.currentThrottle
+    );
+  };
+
+  private cancelScheduledRequest = () => {
+    if (this.requestTimeout) {
+      clearTimeout(this.requestTimeout);
+    }
+    this.requestTimeout = undefined;
+    this.requestPending = false;
   };
 }
 
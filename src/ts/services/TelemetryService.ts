@@ -1,13 +1,97 @@
 import throttle from 'lodash/throttle';
 import chunk from 'lodash/chunk';
+import { v4 } from "uuid";
 
 import { ITyperighterTelemetryEvent } from "../interfaces/ITelemetryData";
+import {
+  IPersistedTelemetryEvents,
+  ITelemetryEventStore
+} from "../interfaces/ITelemetryEventStore";
+import InMemoryTelemetryEventStore from "./telemetryStores/InMemoryTelemetryEventStore";
+
+export interface ITelemetryServiceOptions {
+  // Somewhere to persist events until they're delivered. Events are kept
+  // in memory by default, and lost when the page closes.
+  eventStore: ITelemetryEventStore<ITyperighterTelemetryEvent>;
+  // The most events we'll buffer. When the buffer is full, we drop the
+  // oldest events first.
+  maxBufferSize: number;
+  // Send the buffer with `navigator.sendBeacon` when the page is hidden or
+  // closed, as requests made with fetch may not complete.
+  sendOnPageHide: boolean;
+  // The most often we'll persist the buffer as it changes, in milliseconds.
+  // We persist it straight away when the page is hidden or closed.
+  persistInterval: number;
+  // How long a page can go without persisting its events before we assume
+  // it closed without telling us, and deliver its events ourselves.
+  abandonedPageTimeout: number;
+}
+
+const defaultTelemetryServiceOptions = {
+  maxBufferSize: 5000,
+  sendOnPageHide: true,
+  persistInterval: 1000,
+  abandonedPageTimeout: 5 * 60 * 1000
+};
+
+/**
+ * Add events to the buffer, skipping those we already have – events are
+ * identified by their id, where they have one.
+ */
+const addUniqueEvents = (
+  buffer: ITyperighterTelemetryEvent[],
+  events: ITyperighterTelemetryEvent[]
+) =>
+  events.reduce(
+    (acc, event) =>
+      event.id && acc.some(existingEvent => existingEvent.id === event.id)
+        ? acc
+        : acc.concat(event),
+    buffer
+  );
 
 class UserTelemetryEventSender {
     private postEventLimit = 500;
+    // Beacons are limited to 64KB in most browsers, so we send fewer events
+    // in each.
+    private beaconEventLimit = 50;
     private eventBuffer: ITyperighterTelemetryEvent[] = [];
+    // Events we've sent, but haven't yet heard back about. We persist these
+    // until they're delivered, in case the page closes before we do.
+    private eventsInFlight: ITyperighterTelemetryEvent[] = [];
+    private options: ITelemetryServiceOptions;
+    // We don't persist events until we've loaded those the last page left
+    // behind, or we'd overwrite them.
+    private hasLoadedPersistedEvents = false;
+    // Set if the events are cleared before we've loaded those the last page
+    // left behind, in which case we discard them too.
+    private shouldDiscardPersistedEvents = false;
+    // Identifies the events this page persists, so other pages open at the
+    // same time don't overwrite them.
+    private pageId = v4();
+    private throttledPersistEvents: ReturnType<typeof throttle>;
 
-    public constructor(private telemetryUrl: string, private throttleDelay: number = 10000) {};
+    public constructor(
+      private telemetryUrl: string,
+      private throttleDelay: number = 10000,
+      options: Partial<ITelemetryServiceOptions> = {}
+    ) {
+      this.options = {
+        ...defaultTelemetryServiceOptions,
+        eventStore: new InMemoryTelemetryEventStore(),
+        ...options
+      };
+      this.throttledPersistEvents = throttle(
+        () => this.persistEvents(),
+        this.options.persistInterval,
+        { leading: false, trailing: true }
+      );
+      this.loadPersistedEvents();
+      if (this.options.sendOnPageHide && typeof window !== "undefined") {
+        window.addEventListener("pagehide", this.handlePageHide);
+        document.addEventListener("visibilitychange", this.handleVisibilityChange);
+      }
+    };
 
     private async sendEvents(): Promise<void> {
         const [firstChunk, ...subsequentChunks] = chunk(this.eventBuffer, this.postEventLimit);
@@ -19,8 +103,9 @@ class UserTelemetryEventSender {
 
         // Push the remaining events back into the buffer
         this.eventBuffer = subsequentChunks.flat();
+        this.eventsInFlight = this.eventsInFlight.concat(firstChunk);
 
-        const response = await fetch(`${this.telemetryUrl}/event`, {
+        const isDelivered = await fetch(`${this.telemetryUrl}/event`, {
           method: "POST",
           mode: "cors",
           credentials: "include",
@@ -28,11 +113,16 @@ class UserTelemetryEventSender {
             "Content-Type": "application/json"
           }),
           body: jsonEventBuffer
-        });
+        }).then(response => response.ok, () => false);
 
-        if (!response.ok) {
+        // If the events were cleared while we were sending them, we don't
+        // want them back.
+        const wasCleared = !firstChunk.some(event => this.eventsInFlight.includes(event));
+        this.eventsInFlight = this.eventsInFlight.filter(event => !firstChunk.includes(event));
+        if (!isDelivered && !wasCleared) {
           this.eventBuffer = this.eventBuffer.concat(firstChunk);
         }
+        this.throttledPersistEvents();
 
         if (this.eventBuffer.length) {
 
@@ -43,13 +133,130 @@ class UserTelemetryEventSender {
     private throttledSendEvents = throttle(this.sendEvents, this.throttleDelay, { trailing: true, leading: false })
 
     public addEvent(event: ITyperighterTelemetryEvent): void {
-      this.eventBuffer.push(event);
+      this.eventBuffer = addUniqueEvents(this.eventBuffer, [event]).slice(-this.options.maxBufferSize);
+      this.throttledPersistEvents();
       this.throttledSendEvents();
     }
 
     public flushEvents(): Promise<void> {
         return this.sendEvents();
     }
+
+    /**
+     * Discard the events we haven't yet delivered, including those in the
+     * event store – e.g. when the user withdraws their consent.
+     */
+    public clearEvents(): void {
+      this.eventBuffer = [];
+      this.eventsInFlight = [];
+      this.shouldDiscardPersistedEvents = !this.hasLoadedPersistedEvents;
+      this.persistEvents();
+    }
+
+    /**
+     * Stop listening for the page to close. Events that are still buffered
+     * remain in the event store, for the next page to deliver.
+     */
+    public destroy(): void {
+      this.persistEvents(true);
+      if (typeof window === "undefined") {
+        return;
+      }
+      window.removeEventListener("pagehide", this.handlePageHide);
+      document.removeEventListener("visibilitychange", this.handleVisibilityChange);
+    }
+
+    /**
+     * Send the buffered events with `navigator.sendBeacon`, which the browser
+     * will deliver even if the page is closing. We can't set a content type
+     * for beacons without a CORS preflight, so they're sent as text/plain.
+     */
+    private sendEventsWithBeacon = (): void => {
+      if (typeof navigator === "undefined" || !navigator.sendBeacon) {
+        return;
+      }
+      const url = `${this.telemetryUrl}/event`;
+      for (const eventChunk of chunk(this.eventBuffer, this.beaconEventLimit)) {
+        // If the browser won't queue a beacon, the remaining events stay
+        // in the event store, and we'll send them when the page next loads.
+        if (!navigator.sendBeacon(url, JSON.stringify(eventChunk))) {
+          break;
+        }
+        this.eventBuffer = this.eventBuffer.filter(event => !eventChunk.includes(event));
+      }
+    };
+
+    private handlePageHide = (): void => {
+      this.sendEventsWithBeacon();
+      this.persistEvents(true);
+    };
+
+    private handleVisibilityChange = (): void => {
+      if (document.visibilityState === "hidden") {
+        this.sendEventsWithBeacon();
+        this.persistEvents();
+      }
+    };
+
+    /**
+     * Add any events persisted by pages that have since closed to the buffer,
+     * and persist any we've added since. We leave the events of pages that
+     * are still open to those pages.
+     */
+    private async loadPersistedEvents(): Promise<void> {
+      const { eventStore, abandonedPageTimeout } = this.options;
+      const persistedPages: {
+        [pageId: string]: IPersistedTelemetryEvents<ITyperighterTelemetryEvent>;
+      } = await eventStore.load().catch(() => ({}));
+      const now = Date.now();
+      const closedPages = Object.keys(persistedPages)
+        .filter(pageId => {
+          const { isClosed, savedAt } = persistedPages[pageId];
+          return (
+            pageId !== this.pageId &&
+            (isClosed || now - savedAt >= abandonedPageTimeout)
+          );
+        })
+        .map(pageId => ({ pageId, ...persistedPages[pageId] }))
+        .sort((a, b) => a.savedAt - b.savedAt);
+      const events = this.shouldDiscardPersistedEvents
+        ? []
+        : closedPages.flatMap(page => page.events);
+      this.hasLoadedPersistedEvents = true;
+      // Persisted events are older than any we've added since, so they go
+      // first.
+      const knownEvents = this.eventsInFlight.concat(this.eventBuffer);
+      const persistedEvents = addUniqueEvents(knownEvents, events).slice(knownEvents.length);
+      this.eventBuffer = persistedEvents
+        .concat(this.eventBuffer)
+        .slice(-this.options.maxBufferSize);
+      // We persist the events we've taken on before discarding the closed
+      // pages' copies of them.
+      this.persistEvents();
+      closedPages.forEach(({ pageId }) =>
+        eventStore.remove(pageId).catch(() => undefined)
+      );
+      if (persistedEvents.length) {
+        this.throttledSendEvents();
+      }
+    }
+
+    /**
+     * Persist the events we haven't yet delivered under this page's id,
+     * removing its entry when there are none.
+     */
+    private persistEvents(isClosed = false): void {
+      if (!this.hasLoadedPersistedEvents) {
+        return;
+      }
+      this.throttledPersistEvents.cancel();
+      const { eventStore } = this.options;
+      const events = this.eventsInFlight.concat(this.eventBuffer);
+      const request = events.length
+        ? eventStore.save(this.pageId, { events, savedAt: Date.now(), isClosed })
+        : eventStore.remove(this.pageId);
+      request.catch(() => undefined);
+    }
 }
 
 export default UserTelemetryEventSender;
@@ -4,6 +4,7 @@ import {
   IFilterToggleEvent,
   IMarkAsCorrectEvent,
   IMatchDecorationClickedEvent,
+  IMatchesFoundForRuleEvent,
   IMatchFoundEvent,
   IOpenTyperighterEvent,
   ISidebarClickEvent,
@@ -12,16 +13,106 @@ import {
   ITyperighterTelemetryEvent,
   TYPERIGHTER_TELEMETRY_TYPE
 } from "../interfaces/ITelemetryData";
+import { v4 } from "uuid";
 import TelemetryService from "./TelemetryService";
 import { IMatch } from "..";
-import { MatchType } from "../utils/decoration";
+
+/**
+ * Redact or drop an event before it's sent. Return undefined to drop the
+ * event entirely.
+ */
+export type TTelemetryScrubber = (
+  event: ITyperighterTelemetryEvent
+) => ITyperighterTelemetryEvent | undefined;
+
+export interface ITyperighterTelemetryOptions {
+  // Whether the user has consented to telemetry. True by default – pass
+  // false to send nothing until they opt in with `setConsent`.
+  hasConsent: boolean;
+  // The proportion of events of each type to send, from 0 to 1. Event types
+  // without a rate are always sent.
+  sampleRates: Partial<Record<TYPERIGHTER_TELEMETRY_TYPE, number>>;
+  // Applied to every event before it's sent. By default, we remove the
+  // text of the document – pass `event => event` to keep it.
+  scrubEvent: TTelemetryScrubber;
+  // Send a count of the matches found for each rule when a check completes,
+  // rather than an event for every match. On by default.
+  aggregateMatchesFound: boolean;
+}
+
+/**
+ * A scrubber that removes the text of the document from events – matched
+ * text, its context and suggestions – and reduces the document URL to its
+ * origin.
+ */
+export const redactTelemetryEvent: TTelemetryScrubber = event => {
+  const {
+    matchedText,
+    matchContext,
+    suggestion,
+    documentUrl,
+    ...tags
+  } = event.tags;
+  // Some events aren't about a document – we don't add a URL to those.
+  return {
+    ...event,
+    tags:
+      documentUrl === undefined
+        ? (tags as ITyperighterTelemetryEvent["tags"])
+        : { ...tags, documentUrl: getUrlOrigin(documentUrl) }
+  };
+};
+
+const defaultTelemetryOptions: ITyperighterTelemetryOptions = {
+  hasConsent: true,
+  sampleRates: {},
+  scrubEvent: redactTelemetryEvent,
+  aggregateMatchesFound: true
+};
+
+const getUrlOrigin = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    // If we can't parse the URL, we can't be sure what's safe to keep.
+    return "";
+  }
+};
+
+interface IRuleMatchCount {
+  matcherType: string;
+  documentUrl: string;
+  count: number;
+}
 
 class TyperighterTelemetryAdapter {
+  private options: ITyperighterTelemetryOptions;
+  // The number of matches found for each rule, keyed by requestId and then
+  // by ruleId, while we're aggregating the matches found by a check.
+  private matchCountsByRequest: {
+    [requestId: string]: { [ruleId: string]: IRuleMatchCount };
+  } = {};
+
   constructor(
     private telemetryService: TelemetryService,
     private app: string,
-    private stage: string
-  ) {}
+    private stage: string,
+    options: Partial<ITyperighterTelemetryOptions> = {}
+  ) {
+    this.options = { ...defaultTelemetryOptions, ...options };
+  }
+
+  /**
+   * Grant or withdraw consent for telemetry. When consent is withdrawn, we
+   * also discard any events we haven't yet sent.
+   */
+  public setConsent(hasConsent: boolean) {
+    this.options.hasConsent = hasConsent;
+    if (!hasConsent) {
+      this.matchCountsByRequest = {};
+      this.telemetryService.clearEvents();
+    }
+  }
 
   public suggestionIsAccepted(
     match: IMatch,
@@ -115,6 +206,52 @@ class TyperighterTelemetryAdapter {
     } as IMatchFoundEvent);
   }
 
+  /**
+   * Record the matches found for a check. If we're aggregating matches, they
+   * are counted per rule, and sent when `checkCompleted` is called.
+   */
+  public matchesFound(
+    requestId: string,
+    matches: IMatch[],
+    documentUrl: string
+  ) {
+    if (!this.options.aggregateMatchesFound) {
+      return matches.forEach(match => this.matchFound(match, documentUrl));
+    }
+    if (!this.options.hasConsent) {
+      return;
+    }
+    const matchCounts = this.matchCountsByRequest[requestId] || {};
+    matches.forEach(({ ruleId, matcherType }) => {
+      const matchCount = matchCounts[ruleId];
+      matchCounts[ruleId] = {
+        matcherType,
+        documentUrl,
+        count: matchCount ? matchCount.count + 1 : 1
+      };
+    });
+    this.matchCountsByRequest[requestId] = matchCounts;
+  }
+
+  /**
+   * Send the match counts for a check, if we're aggregating matches.
+   */
+  public checkCompleted(requestId: string) {
+    const matchCounts = this.matchCountsByRequest[requestId];
+    if (!matchCounts) {
+      return;
+    }
+    delete this.matchCountsByRequest[requestId];
+    Object.entries(matchCounts).forEach(
+      ([ruleId, { matcherType, documentUrl, count }]) =>
+        this.addEvent({
+          type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND,
+          value: count,
+          tags: { documentUrl, matcherType, ruleId, requestId }
+        } as IMatchesFoundForRuleEvent)
+    );
+  }
+
   public summaryViewToggled(
     toggledOn: boolean,
     tags: ITyperighterTelemetryEvent["tags"]
@@ -126,7 +263,7 @@ class TyperighterTelemetryAdapter {
     } as ISummaryToggleEvent);
   }
 
-  public filterStateToggled(matchType: MatchType, toggledOn: boolean) {
+  public filterStateToggled(matchType: string, toggledOn: boolean) {
     this.addEvent({
       type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_FILTER_STATE_CHANGED,
       value: toggledOn ? 1 : 0,
@@ -137,12 +274,26 @@ class TyperighterTelemetryAdapter {
   private addEvent<TEvent extends ITyperighterTelemetryEvent>(
     event: Omit<TEvent, "app" | "stage" | "eventTime">
   ) {
-    this.telemetryService.addEvent({
+    if (!this.options.hasConsent) {
+      return;
+    }
+    const sampleRate = this.options.sampleRates[event.type];
+    if (sampleRate !== undefined && Math.random() >= sampleRate) {
+      return;
+    }
+    const scrubbedEvent = this.options.scrubEvent({
       ...event,
+      // Record the sample rate, so counts can be scaled back up.
+      tags:
+        sampleRate !== undefined ? { ...event.tags, sampleRate } : event.tags,
+      id: v4(),
       app: this.app,
       stage: this.stage,
       eventTime: new Date().toISOString()
     });
+    if (scrubbedEvent) {
+      this.telemetryService.addEvent(scrubbedEvent);
+    }
   }
 
   private getTelemetryTagsFromMatch = (match: IMatch) => ({
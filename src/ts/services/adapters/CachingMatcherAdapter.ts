@@ -0,0 +1,227 @@
+import { v4 } from "uuid";
+import { IBlock, IMatch } from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+import { hashString } from "../../utils/hash";
+import {
+  IMatchCacheEntry,
+  IMatchCacheStore
+} from "./interfaces/IMatchCacheStore";
+import InMemoryMatchCacheStore from "./cacheStores/InMemoryMatchCacheStore";
+
+export interface ICacheOptions {
+  store: IMatchCacheStore;
+  // The maximum number of blocks to cache.
+  maxSize: number;
+  // How long cached matches remain valid, in milliseconds.
+  ttl: number;
+}
+
+export const defaultCacheOptions = {
+  maxSize: 1000,
+  ttl: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Create a cache key for the given block. The key depends only on the
+ * block's text and the categories it's checked against, so identical text
+ * hits the cache wherever it appears in the document.
+ */
+export const createCacheKey = (block: IBlock, categoryIds: string[]) =>
+  hashString(`${[...categoryIds].sort().join(",")}:${block.text}`);
+
+const offsetMatch = (match: IMatch, offset: number): IMatch => ({
+  ...match,
+  from: match.from + offset,
+  to: match.to + offset
+});
+
+/**
+ * A MatcherAdapter that caches the matches another adapter returns for
+ * each block, so that text we've already checked isn't sent again – e.g.
+ * when a user undoes and redoes an edit.
+ *
+ * The blocks we receive have already had their skipped ranges removed by
+ * the MatcherService, so cached text is the text the matcher saw. Matches
+ * are cached relative to the start of their block, and rebased onto the
+ * position of the block they're retrieved for.
+ */
+class CachingMatcherAdapter implements IMatcherAdapter {
+  public onConnectionStatusChange = this.adapter.onConnectionStatusChange;
+  protected requestsInProgress = new Set<string>();
+  protected options: ICacheOptions;
+
+  constructor(
+    protected adapter: IMatcherAdapter,
+    options: Partial<ICacheOptions> = {}
+  ) {
+    this.options = {
+      store: new InMemoryMatchCacheStore(),
+      ...defaultCacheOptions,
+      ...options
+    };
+  }
+
+  public fetchMatches = async (
+    requestId: string,
+    inputs: IBlock[],
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    onRequestError: TRequestErrorCallback,
+    onRequestComplete: TRequestCompleteCallback
+  ) => {
+    this.requestsInProgress.add(requestId);
+    const entries = await Promise.all(
+      inputs.map(block => this.getEntry(createCacheKey(block, categoryIds)))
+    );
+    // The request may have been cancelled while we were reading the cache.
+    if (!this.requestsInProgress.has(requestId)) {
+      return;
+    }
+
+    const cachedBlocks = inputs.filter((_, index) => entries[index]);
+    const uncachedBlocks = inputs.filter((_, index) => !entries[index]);
+
+    if (cachedBlocks.length) {
+      onMatchesReceived({
+        requestId,
+        categoryIds,
+        blocks: cachedBlocks,
+        matches: inputs.flatMap((block, index) => {
+          const entry = entries[index];
+          return entry
+            ? entry.matches.map(match => ({
+                ...offsetMatch(match, block.from),
+                matchId: v4()
+              }))
+            : [];
+        })
+      });
+    }
+
+    if (!uncachedBlocks.length) {
+      this.requestsInProgress.delete(requestId);
+      return onRequestComplete(requestId);
+    }
+
+    // We cache each block as we hear back about it, rather than waiting for
+    // the request to complete – not every adapter reports completion.
+    // Responses for a block may arrive in several parts, so we gather them,
+    // and rewrite the block's entry as each part arrives. We don't cache
+    // blocks that fail, or any block if the request fails as a whole.
+    const matchesByBlockId: { [blockId: string]: IMatch[] } = {};
+    const pendingBlockIds = new Set(uncachedBlocks.map(_ => _.id));
+    const failedBlockIds = new Set<string>();
+    let hasRequestFailed = false;
+    // Once we've heard back about every block, there's nothing left to
+    // cancel, so we stop tracking the request.
+    const settleBlock = (blockId: string) => {
+      pendingBlockIds.delete(blockId);
+      if (!pendingBlockIds.size) {
+        this.requestsInProgress.delete(requestId);
+      }
+    };
+    const isCancelled = () =>
+      !!pendingBlockIds.size && !this.requestsInProgress.has(requestId);
+
+    this.adapter.fetchMatches(
+      requestId,
+      uncachedBlocks,
+      categoryIds,
+      response => {
+        if (!isCancelled() && !hasRequestFailed) {
+          response.blocks.forEach(responseBlock => {
+            const block = uncachedBlocks.find(_ => _.id === responseBlock.id);
+            if (!block || failedBlockIds.has(block.id)) {
+              return;
+            }
+            matchesByBlockId[block.id] = (
+              matchesByBlockId[block.id] || []
+            ).concat(
+              response.matches
+                .filter(_ => _.from >= block.from && _.to <= block.to)
+                .map(match => offsetMatch(match, -block.from))
+            );
+            this.setEntry(
+              createCacheKey(block, categoryIds),
+              matchesByBlockId[block.id]
+            );
+            settleBlock(block.id);
+          });
+        }
+        onMatchesReceived(response);
+      },
+      error => {
+        const failedBlocks = error.blockId
+          ? uncachedBlocks.filter(_ => _.id === error.blockId)
+          : uncachedBlocks;
+        failedBlocks.forEach(block => {
+          failedBlockIds.add(block.id);
+          if (matchesByBlockId[block.id]) {
+            this.deleteEntry(createCacheKey(block, categoryIds));
+          }
+          settleBlock(block.id);
+        });
+        hasRequestFailed = hasRequestFailed || !error.blockId;
+        onRequestError(error);
+      },
+      completedRequestId => {
+        this.requestsInProgress.delete(requestId);
+        onRequestComplete(completedRequestId);
+      }
+    );
+  };
+
+  public fetchCategories = () => this.adapter.fetchCategories();
+
+  public cancelRequest = (requestId: string) => {
+    this.requestsInProgress.delete(requestId);
+    if (this.adapter.cancelRequest) {
+      this.adapter.cancelRequest(requestId);
+    }
+  };
+
+  /**
+   * Get the entry for this key, if it's present and hasn't expired. A cache
+   * that fails shouldn't fail the check, so we treat errors as misses.
+   */
+  private getEntry = async (
+    key: string
+  ): Promise<IMatchCacheEntry | undefined> => {
+    try {
+      const entry = await this.options.store.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      const now = Date.now();
+      if (now - entry.createdAt > this.options.ttl) {
+        this.deleteEntry(key);
+        return undefined;
+      }
+      this.options.store
+        .set(key, { ...entry, lastUsedAt: now })
+        .catch(() => undefined);
+      return entry;
+    } catch (e) {
+      return undefined;
+    }
+  };
+
+  private setEntry = (key: string, matches: IMatch[]) => {
+    const now = Date.now();
+    this.options.store
+      .set(key, { matches, createdAt: now, lastUsedAt: now })
+      .then(() => this.options.store.prune(this.options.maxSize))
+      .catch(() => undefined);
+  };
+
+  private deleteEntry = (key: string) => {
+    this.options.store.delete(key).catch(() => undefined);
+  };
+}
+
+export default CachingMatcherAdapter;
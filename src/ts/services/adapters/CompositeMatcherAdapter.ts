@@ -0,0 +1,348 @@
+import uniq from "lodash/uniq";
+import {
+  IBlock,
+  ICategory,
+  IMatch,
+  IMatcherResponse,
+  TMatchRequestErrorWithDefault
+} from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+
+export const CATEGORY_NAMESPACE_SEPARATOR = ":";
+
+export interface ICompositeMatcherAdapterEntry {
+  // Used to namespace the categories this adapter provides.
+  // Must not contain CATEGORY_NAMESPACE_SEPARATOR.
+  id: string;
+  adapter: IMatcherAdapter;
+}
+
+interface IBlockInProgress {
+  block: IBlock;
+  // The categories we're still waiting on for this block, keyed by the id
+  // of the adapter that provides them. Adapters may respond for a block
+  // several times – e.g. once per category – so an adapter is finished
+  // with a block once it has responded for all of the categories we asked
+  // it for. If we didn't ask for specific categories, the list is empty,
+  // and we wait until the adapter completes the request.
+  pendingCategoryIds: { [adapterId: string]: string[] };
+  categoryIds: string[];
+  matches: IMatch[];
+  hasResponse: boolean;
+  errors: TMatchRequestErrorWithDefault[];
+}
+
+interface IRequestInProgress {
+  blocks: IBlockInProgress[];
+  onMatchesReceived: TMatchesReceivedCallback;
+  onRequestError: TRequestErrorCallback;
+  onRequestComplete: TRequestCompleteCallback;
+}
+
+export const namespaceCategoryId = (adapterId: string, categoryId: string) =>
+  `${adapterId}${CATEGORY_NAMESPACE_SEPARATOR}${categoryId}`;
+
+/**
+ * Split a namespaced category id into its adapter id and the category id
+ * that adapter knows it by.
+ */
+export const parseNamespacedCategoryId = (namespacedId: string) => {
+  const separatorIndex = namespacedId.indexOf(CATEGORY_NAMESPACE_SEPARATOR);
+  if (separatorIndex === -1) {
+    return undefined;
+  }
+  return {
+    adapterId: namespacedId.slice(0, separatorIndex),
+    categoryId: namespacedId.slice(separatorIndex + 1)
+  };
+};
+
+const namespaceCategory = (
+  adapterId: string,
+  category: ICategory
+): ICategory => ({
+  ...category,
+  id: namespaceCategoryId(adapterId, category.id)
+});
+
+/**
+ * A MatcherAdapter that sends each block to several other adapters, and
+ * merges their responses under a single requestId.
+ *
+ * Category ids are namespaced by the id of the adapter that provides them,
+ * so categories from different backends can't collide. When a request
+ * specifies categories, each adapter only receives its own, and adapters
+ * with no categories in the request aren't asked at all.
+ *
+ * We hold on to the matches for a block until every adapter has finished
+ * with it, as the plugin considers a block complete once it has received
+ * a response for it.
+ */
+class CompositeMatcherAdapter implements IMatcherAdapter {
+  protected requestsInProgress: {
+    [requestId: string]: IRequestInProgress;
+  } = {};
+
+  constructor(protected adapters: ICompositeMatcherAdapterEntry[]) {}
+
+  public fetchMatches = (
+    requestId: string,
+    inputs: IBlock[],
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    onRequestError: TRequestErrorCallback,
+    onRequestComplete: TRequestCompleteCallback
+  ) => {
+    const adapterRequests = this.adapters
+      .map(({ id, adapter }) => ({
+        id,
+        adapter,
+        categoryIds: this.getCategoryIdsForAdapter(id, categoryIds)
+      }))
+      .filter(
+        // If the request is for specific categories, only ask the adapters
+        // that provide them.
+        request => !categoryIds.length || request.categoryIds.length
+      );
+
+    this.requestsInProgress[requestId] = {
+      blocks: inputs.map(block => ({
+        block,
+        pendingCategoryIds: adapterRequests.reduce(
+          (acc, request) => ({ ...acc, [request.id]: request.categoryIds }),
+          {}
+        ),
+        categoryIds: [],
+        matches: [],
+        hasResponse: false,
+        errors: []
+      })),
+      onMatchesReceived,
+      onRequestError,
+      onRequestComplete
+    };
+
+    if (!adapterRequests.length) {
+      return this.completeRequest(requestId);
+    }
+
+    adapterRequests.forEach(
+      ({ id, adapter, categoryIds: adapterCategoryIds }) =>
+        adapter.fetchMatches(
+          requestId,
+          inputs,
+          adapterCategoryIds,
+          response => this.handleMatchesReceived(id, response),
+          error => this.handleRequestError(id, error),
+          () => this.handleAdapterComplete(id, requestId)
+        )
+    );
+  };
+
+  public fetchCategories = async () => {
+    const categoriesByAdapter = await Promise.all(
+      this.adapters.map(async ({ id, adapter }) =>
+        (await adapter.fetchCategories()).map(category =>
+          namespaceCategory(id, category)
+        )
+      )
+    );
+    return categoriesByAdapter.flat();
+  };
+
+  /**
+   * Cancel the request for each adapter that supports it. We won't report
+   * anything further for the request, even if some adapters can't cancel.
+   */
+  public cancelRequest = (requestId: string) => {
+    if (!this.requestsInProgress[requestId]) {
+      return;
+    }
+    delete this.requestsInProgress[requestId];
+    this.adapters.forEach(
+      ({ adapter }) => adapter.cancelRequest && adapter.cancelRequest(requestId)
+    );
+  };
+
+  protected getCategoryIdsForAdapter = (
+    adapterId: string,
+    categoryIds: string[]
+  ) =>
+    categoryIds.reduce((acc, namespacedId) => {
+      const parsedId = parseNamespacedCategoryId(namespacedId);
+      return parsedId && parsedId.adapterId === adapterId
+        ? acc.concat(parsedId.categoryId)
+        : acc;
+    }, [] as string[]);
+
+  protected handleMatchesReceived = (
+    adapterId: string,
+    response: IMatcherResponse
+  ) => {
+    const request = this.requestsInProgress[response.requestId];
+    if (!request) {
+      return;
+    }
+    const blockIds = response.blocks.map(_ => _.id);
+    const categoryIds = response.categoryIds.map(id =>
+      namespaceCategoryId(adapterId, id)
+    );
+    const matches = response.matches.map(match => ({
+      ...match,
+      category: namespaceCategory(adapterId, match.category)
+    }));
+
+    request.blocks.forEach(blockInProgress => {
+      if (!blockIds.includes(blockInProgress.block.id)) {
+        return;
+      }
+      const { block } = blockInProgress;
+      blockInProgress.categoryIds = uniq(
+        blockInProgress.categoryIds.concat(categoryIds)
+      );
+      blockInProgress.matches = blockInProgress.matches.concat(
+        matches.filter(
+          match => match.from >= block.from && match.to <= block.to
+        )
+      );
+      blockInProgress.hasResponse = true;
+      this.markCategoriesComplete(
+        adapterId,
+        blockInProgress,
+        response.categoryIds
+      );
+    });
+
+    this.flushCompleteBlocks(response.requestId);
+  };
+
+  protected handleRequestError = (
+    adapterId: string,
+    error: TMatchRequestErrorWithDefault
+  ) => {
+    const request = this.requestsInProgress[error.requestId];
+    if (!request) {
+      return;
+    }
+    const namespacedError = {
+      ...error,
+      categoryIds: error.categoryIds.map(id =>
+        namespaceCategoryId(adapterId, id)
+      )
+    };
+    const blockInProgress = request.blocks.find(
+      _ => _.block.id === error.blockId
+    );
+
+    // We can't attribute errors without a block to any part of the
+    // request, so pass them straight through.
+    if (!blockInProgress) {
+      return request.onRequestError(namespacedError);
+    }
+
+    blockInProgress.errors.push(namespacedError);
+    // An error without categories applies to the block as a whole.
+    if (error.categoryIds.length) {
+      this.markCategoriesComplete(
+        adapterId,
+        blockInProgress,
+        error.categoryIds
+      );
+    } else {
+      this.markBlockComplete(adapterId, blockInProgress);
+    }
+    this.flushCompleteBlocks(error.requestId);
+  };
+
+  protected handleAdapterComplete = (adapterId: string, requestId: string) => {
+    const request = this.requestsInProgress[requestId];
+    if (!request) {
+      return;
+    }
+    request.blocks.forEach(blockInProgress =>
+      this.markBlockComplete(adapterId, blockInProgress)
+    );
+    this.flushCompleteBlocks(requestId);
+  };
+
+  protected markBlockComplete = (
+    adapterId: string,
+    blockInProgress: IBlockInProgress
+  ) => {
+    delete blockInProgress.pendingCategoryIds[adapterId];
+  };
+
+  /**
+   * Mark the given categories as complete for this block. If we're waiting
+   * on the adapter for all of its categories, only the completion of its
+   * request tells us it's finished.
+   */
+  protected markCategoriesComplete = (
+    adapterId: string,
+    blockInProgress: IBlockInProgress,
+    categoryIds: string[]
+  ) => {
+    const pendingCategoryIds = blockInProgress.pendingCategoryIds[adapterId];
+    if (!pendingCategoryIds || !pendingCategoryIds.length) {
+      return;
+    }
+    const remainingCategoryIds = pendingCategoryIds.filter(
+      id => !categoryIds.includes(id)
+    );
+    if (remainingCategoryIds.length) {
+      blockInProgress.pendingCategoryIds[adapterId] = remainingCategoryIds;
+    } else {
+      this.markBlockComplete(adapterId, blockInProgress);
+    }
+  };
+
+  protected isBlockComplete = (blockInProgress: IBlockInProgress) =>
+    !Object.keys(blockInProgress.pendingCategoryIds).length;
+
+  /**
+   * Report the merged results for every block that all of our adapters have
+   * finished with, and complete the request if there's nothing left to do.
+   */
+  protected flushCompleteBlocks = (requestId: string) => {
+    const request = this.requestsInProgress[requestId];
+    const completeBlocks = request.blocks.filter(this.isBlockComplete);
+    if (!completeBlocks.length) {
+      return;
+    }
+    request.blocks = request.blocks.filter(_ => !this.isBlockComplete(_));
+
+    // Report matches before errors, so results from healthy adapters aren't
+    // discarded when another adapter fails for the same block.
+    const blocksWithResponses = completeBlocks.filter(
+      _ => _.hasResponse || !_.errors.length
+    );
+    if (blocksWithResponses.length) {
+      request.onMatchesReceived({
+        requestId,
+        blocks: blocksWithResponses.map(_ => _.block),
+        categoryIds: uniq(blocksWithResponses.flatMap(_ => _.categoryIds)),
+        matches: blocksWithResponses.flatMap(_ => _.matches)
+      });
+    }
+    completeBlocks.forEach(_ =>
+      _.errors.forEach(error => request.onRequestError(error))
+    );
+
+    if (!request.blocks.length) {
+      this.completeRequest(requestId);
+    }
+  };
+
+  protected completeRequest = (requestId: string) => {
+    const request = this.requestsInProgress[requestId];
+    delete this.requestsInProgress[requestId];
+    request.onRequestComplete(requestId);
+  };
+}
+
+export default CompositeMatcherAdapter;
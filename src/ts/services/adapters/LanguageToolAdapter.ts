@@ -0,0 +1,259 @@
+import { v4 } from "uuid";
+import uniqBy from "lodash/uniqBy";
+import {
+  IBlock,
+  ICategory,
+  IMatch,
+  IMatcherResponse
+} from "../../interfaces/IMatch";
+import { ILTCategory, ILTMatch, ILTResponse } from "./interfaces/ILanguageTool";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+
+export const LANGUAGE_TOOL_MATCHER_TYPE = "languageTool";
+
+// LanguageTool doesn't supply colours for its categories, so unless the
+// consumer tells us otherwise, we give them all the same colour.
+const defaultCategoryColour = "#5f5e5e";
+
+/**
+ * The rule categories LanguageTool applies to most languages. LanguageTool
+ * doesn't expose an endpoint to list them, so we use these to answer
+ * `fetchCategories` until we see others in the wild.
+ */
+export const defaultLanguageToolCategories: ILTCategory[] = [
+  { id: "CASING", name: "Capitalization" },
+  { id: "COLLOCATIONS", name: "Collocations" },
+  { id: "COMPOUNDING", name: "Compounding" },
+  { id: "CONFUSED_WORDS", name: "Commonly Confused Words" },
+  { id: "GRAMMAR", name: "Grammar" },
+  { id: "MISC", name: "Miscellaneous" },
+  { id: "PUNCTUATION", name: "Punctuation" },
+  { id: "REDUNDANCY", name: "Redundant Phrases" },
+  { id: "SEMANTICS", name: "Semantics" },
+  { id: "STYLE", name: "Style" },
+  { id: "TYPOGRAPHY", name: "Typography" },
+  { id: "TYPOS", name: "Possible Typo" }
+];
+
+export const convertLanguageToolCategory = (
+  category: ILTCategory,
+  colour = defaultCategoryColour
+): ICategory => ({
+  id: category.id,
+  name: category.name,
+  colour
+});
+
+/**
+ * Convert a LanguageTool match into an IMatch.
+ *
+ * LanguageTool's offsets are relative to the text it was sent, so we
+ * offset them by the position of the block that text came from.
+ */
+export const convertLanguageToolMatch = (
+  block: IBlock,
+  match: ILTMatch,
+  getCategoryColour: (category: ILTCategory) => string | undefined = () =>
+    undefined
+): IMatch => {
+  const from = block.from + match.offset;
+  const to = from + match.length;
+  const { context } = match;
+  const matchedText = block.text.slice(
+    match.offset,
+    match.offset + match.length
+  );
+  const precedingText = context.text.slice(0, context.offset);
+  const subsequentText = context.text.slice(context.offset + context.length);
+  return {
+    matchId: v4(),
+    matcherType: LANGUAGE_TOOL_MATCHER_TYPE,
+    from,
+    to,
+    ruleId: match.rule.id,
+    matchedText,
+    message: match.message,
+    // LanguageTool sends an empty short message when it doesn't have one.
+    shortMessage: match.shortMessage || undefined,
+    category: convertLanguageToolCategory(
+      match.rule.category,
+      getCategoryColour(match.rule.category)
+    ),
+    ruleDetails: {
+      description: match.rule.description,
+      issueType: match.rule.issueType,
+      url: match.rule.urls?.[0]?.value
+    },
+    suggestions: match.replacements.map(replacement => ({
+      type: "TEXT_SUGGESTION" as const,
+      text: replacement.value
+    })),
+    matchContext: `${precedingText}[[${matchedText}]]${subsequentText}`,
+    precedingText,
+    subsequentText
+  };
+};
+
+/**
+ * Convert an incoming response from a LanguageTool service into
+ * the IMatcherResponse that the plugin expects.
+ */
+export const convertLanguageToolResponse = (
+  requestId: string,
+  block: IBlock,
+  categoryIds: string[],
+  response: ILTResponse,
+  getCategoryColour?: (category: ILTCategory) => string | undefined
+): IMatcherResponse => ({
+  requestId,
+  categoryIds,
+  blocks: [block],
+  matches: response.matches.map(match =>
+    convertLanguageToolMatch(block, match, getCategoryColour)
+  )
+});
+
+/**
+ * A MatcherAdapter for the LanguageTool HTTP API – see
+ * https://languagetool.org/http-api/. The url should point to the root
+ * of the API, e.g. `https://languagetool.example.com/v2`.
+ */
+class LanguageToolAdapter implements IMatcherAdapter {
+  // The categories we've seen in responses so far.
+  protected seenCategories: ILTCategory[] = [];
+  protected abortControllers: { [requestId: string]: AbortController } = {};
+
+  constructor(
+    protected url: string,
+    protected language = "en-GB",
+    protected getCategoryColour: (
+      category: ILTCategory
+    ) => string | undefined = () => undefined
+  ) {}
+
+  public fetchMatches = async (
+    requestId: string,
+    inputs: IBlock[],
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    onRequestError: TRequestErrorCallback,
+    onRequestComplete: TRequestCompleteCallback
+  ) => {
+    const abortController = new AbortController();
+    this.abortControllers[requestId] = abortController;
+    await Promise.all(
+      inputs.map(input =>
+        this.fetchMatchesForBlock(
+          requestId,
+          input,
+          categoryIds,
+          onMatchesReceived,
+          onRequestError,
+          abortController.signal
+        )
+      )
+    );
+    if (abortController.signal.aborted) {
+      return;
+    }
+    delete this.abortControllers[requestId];
+    onRequestComplete(requestId);
+  };
+
+  /**
+   * Abort any fetches still in flight for this request.
+   */
+  public cancelRequest = (requestId: string) => {
+    const abortController = this.abortControllers[requestId];
+    if (!abortController) {
+      return;
+    }
+    abortController.abort();
+    delete this.abortControllers[requestId];
+  };
+
+  public fetchCategories = async () =>
+    uniqBy(
+      defaultLanguageToolCategories.concat(this.seenCategories),
+      "id"
+    ).map(category =>
+      convertLanguageToolCategory(category, this.getCategoryColour(category))
+    );
+
+  protected fetchMatchesForBlock = async (
+    requestId: string,
+    input: IBlock,
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    onRequestError: TRequestErrorCallback,
+    signal: AbortSignal
+  ) => {
+    const body = new URLSearchParams({
+      text: input.text,
+      language: this.language
+    });
+    if (categoryIds.length) {
+      body.append("enabledCategories", categoryIds.join(","));
+      body.append("enabledOnly", "true");
+    }
+    try {
+      const response = await fetch(`${this.url}/check`, {
+        method: "POST",
+        headers: new Headers({
+          "Content-Type": "application/x-www-form-urlencoded"
+        }),
+        body: body.toString(),
+        signal
+      });
+      if (response.status === 401 || response.status === 403) {
+        return onRequestError({
+          requestId,
+          blockId: input.id,
+          message: `${response.status}: ${response.statusText}`,
+          categoryIds,
+          type: "AUTH_ERROR"
+        });
+      }
+      if (response.status !== 200) {
+        throw new Error(`${response.status}: ${response.statusText}`);
+      }
+      const responseData: ILTResponse = await response.json();
+      if (signal.aborted) {
+        return;
+      }
+      this.seenCategories = uniqBy(
+        this.seenCategories.concat(
+          responseData.matches.map(match => match.rule.category)
+        ),
+        "id"
+      );
+      onMatchesReceived(
+        convertLanguageToolResponse(
+          requestId,
+          input,
+          categoryIds,
+          responseData,
+          this.getCategoryColour
+        )
+      );
+    } catch (e) {
+      if (signal.aborted) {
+        return;
+      }
+      onRequestError({
+        requestId,
+        blockId: input.id,
+        message: e.message,
+        categoryIds,
+        type: "GENERAL_ERROR"
+      });
+    }
+  };
+}
+
+export default LanguageToolAdapter;
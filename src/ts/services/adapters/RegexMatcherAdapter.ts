@@ -0,0 +1,227 @@
+import { v4 } from "uuid";
+import uniq from "lodash/uniq";
+import {
+  IBlock,
+  IBlockWithSkippedRanges,
+  ICategory,
+  IMatch,
+  IMatchLibrary
+} from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+import { removeSkippedRanges } from "../../utils/block";
+import { getMatchContext, mapThroughSkippedRanges } from "../../utils/match";
+
+export const REGEX_MATCHER_TYPE = "regex";
+
+const defaultCategoryColour = "#5f5e5e";
+
+type TMatchLibraryEntry = IMatchLibrary[number][number];
+
+export const createRegexRuleId = (groupIndex: number, entryIndex: number) =>
+  `${REGEX_MATCHER_TYPE}-${groupIndex}-${entryIndex}`;
+
+/**
+ * Find every match for the given regular expression in the given text.
+ * We copy the expression to avoid sharing `lastIndex` state with the library.
+ */
+const findAllMatches = (regExp: RegExp, text: string) => {
+  const flags = regExp.flags.includes("g") ? regExp.flags : `${regExp.flags}g`;
+  const globalRegExp = new RegExp(regExp.source, flags);
+  const results: RegExpExecArray[] = [];
+  let result = globalRegExp.exec(text);
+  while (result) {
+    if (result[0].length) {
+      results.push(result);
+    } else {
+      // Avoid matching an empty string at the same position forever.
+      globalRegExp.lastIndex++;
+    }
+    result = globalRegExp.exec(text);
+  }
+  return results;
+};
+
+/**
+ * Expand the annotation for a match, replacing any references to its
+ * capture groups, e.g. `$1` or `$<name>`, with their values. We expand from
+ * the original result, rather than matching the matched text again – without
+ * its surrounding text, lookarounds and anchors may not match the same way.
+ *
+ * References follow the rules of `String.prototype.replace`.
+ */
+const expandAnnotation = (entry: TMatchLibraryEntry, result: RegExpExecArray) =>
+  entry.annotation.replace(
+    /\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g,
+    (reference, token: string, groupName?: string) => {
+      const groupCount = result.length - 1;
+      switch (token) {
+        case "$":
+          return "$";
+        case "&":
+          return result[0];
+        case "`":
+          return result.input.slice(0, result.index);
+        case "'":
+          return result.input.slice(result.index + result[0].length);
+      }
+      if (groupName !== undefined) {
+        return result.groups ? result.groups[groupName] || "" : reference;
+      }
+      // Prefer a two digit group reference where that group exists.
+      const index = parseInt(token, 10);
+      if (index >= 1 && index <= groupCount) {
+        return result[index] || "";
+      }
+      const singleDigitIndex = parseInt(token[0], 10);
+      if (
+        token.length === 2 &&
+        singleDigitIndex >= 1 &&
+        singleDigitIndex <= groupCount
+      ) {
+        return (result[singleDigitIndex] || "") + token[1];
+      }
+      return reference;
+    }
+  );
+
+/**
+ * Run a match library against a block, producing matches positioned
+ * relative to the document.
+ *
+ * Each group in the library is applied independently. Within a group,
+ * earlier entries take precedence: where two entries match overlapping
+ * text, only the first produces a match.
+ *
+ * If categoryIds are given, only entries of those types are applied.
+ */
+export const getMatchesForBlock = (
+  library: IMatchLibrary,
+  block: IBlock,
+  getCategory: (type: string) => ICategory,
+  categoryIds: string[] = []
+): IMatch[] =>
+  library.flatMap((group, groupIndex) =>
+    group.reduce((acc, entry, entryIndex) => {
+      if (categoryIds.length && !categoryIds.includes(entry.type)) {
+        return acc;
+      }
+      const matches = findAllMatches(entry.regExp, block.text)
+        .map(result => {
+          const from = result.index;
+          const to = result.index + result[0].length;
+          return {
+            matchId: v4(),
+            matcherType: REGEX_MATCHER_TYPE,
+            from: block.from + from,
+            to: block.from + to,
+            ruleId: createRegexRuleId(groupIndex, entryIndex),
+            matchedText: result[0],
+            category: getCategory(entry.type),
+            ...getMatchContext(block.text, from, to),
+            ...(entry.operation === "REPLACE"
+              ? {
+                  message: expandAnnotation(entry, result),
+                  replacement: {
+                    type: "TEXT_SUGGESTION" as const,
+                    text: expandAnnotation(entry, result)
+                  }
+                }
+              : { message: entry.annotation })
+          };
+        })
+        .filter(
+          match =>
+            !acc.some(
+              existingMatch =>
+                existingMatch.from < match.to && existingMatch.to > match.from
+            )
+        );
+      return acc.concat(matches);
+    }, [] as IMatch[])
+  );
+
+/**
+ * A MatcherAdapter that runs a match library in the browser, so we can
+ * keep checking documents without a connection to a remote service.
+ *
+ * Blocks are checked in chunks, and we yield to the event loop before each
+ * chunk to avoid blocking the UI or responding within the transaction that
+ * triggered the request.
+ */
+class RegexMatcherAdapter implements IMatcherAdapter {
+  protected requestsInProgress = new Set<string>();
+
+  constructor(
+    protected library: IMatchLibrary,
+    protected getCategoryColour: (type: string) => string | undefined = () =>
+      undefined,
+    protected blocksPerChunk = 10
+  ) {}
+
+  public fetchMatches = async (
+    requestId: string,
+    inputs: IBlock[],
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    _: TRequestErrorCallback,
+    onRequestComplete: TRequestCompleteCallback
+  ) => {
+    this.requestsInProgress.add(requestId);
+    for (let i = 0; i < inputs.length; i += this.blocksPerChunk) {
+      await new Promise(resolve => setTimeout(resolve, 0));
+      // The request may have been cancelled while we were waiting.
+      if (!this.requestsInProgress.has(requestId)) {
+        return;
+      }
+      const blocks = inputs.slice(i, i + this.blocksPerChunk);
+      onMatchesReceived({
+        requestId,
+        categoryIds,
+        blocks,
+        matches: blocks.flatMap(block => this.checkBlock(block, categoryIds))
+      });
+    }
+    this.requestsInProgress.delete(requestId);
+    onRequestComplete(requestId);
+  };
+
+  /**
+   * Stop checking the blocks for this request. We'll stop before the
+   * next chunk is checked.
+   */
+  public cancelRequest = (requestId: string) => {
+    this.requestsInProgress.delete(requestId);
+  };
+
+  public fetchCategories = async () =>
+    uniq(this.library.flatMap(group => group.map(entry => entry.type))).map(
+      this.getCategory
+    );
+
+  /**
+   * Check a block, removing any skipped ranges before we match against its
+   * text and mapping the resulting matches back through them.
+   */
+  protected checkBlock = (block: IBlock, categoryIds: string[]) => {
+    const skipRanges = (block as IBlockWithSkippedRanges).skipRanges || [];
+    return getMatchesForBlock(
+      this.library,
+      removeSkippedRanges({ ...block, skipRanges }),
+      this.getCategory,
+      categoryIds
+    ).map(match => mapThroughSkippedRanges(match, skipRanges));
+  };
+
+  protected getCategory = (type: string): ICategory => ({
+    id: type,
+    name: type,
+    colour: this.getCategoryColour(type) || defaultCategoryColour
+  });
+}
+
+export default RegexMatcherAdapter;
@@ -3,7 +3,10 @@ import uniqBy from "lodash/uniqBy";
 import uniq from "lodash/uniq";
 import { v4 } from "uuid";
 import { IBlock, IMatcherResponse } from "../../interfaces/IMatch";
-import { ITypeRighterResponse } from "./interfaces/ITyperighter";
+import {
+  ITypeRighterResponse,
+  TGetTyperighterRuleUrl
+} from "./interfaces/ITyperighter";
 import {
   IMatcherAdapter,
   TMatchesReceivedCallback,
@@ -17,7 +20,8 @@ import {
  */
 export const convertTyperighterResponse = (
   requestId: string,
-  response: ITypeRighterResponse
+  response: ITypeRighterResponse,
+  getRuleUrl: TGetTyperighterRuleUrl = () => undefined
 ): IMatcherResponse => ({
   requestId,
   categoryIds: response.categoryIds,
@@ -29,17 +33,55 @@ export const convertTyperighterResponse = (
     matcherType: rule.matcherType,
     category: rule.category,
     ruleId: rule.id,
+    ruleDetails: {
+      description: rule.description,
+      issueType: rule.issueType,
+      suggestions: rule.suggestions,
+      url: getRuleUrl(rule)
+    },
     ...match
   }))
 });
 
+/**
+ * Merge several responses from a Typerighter service into one, so we can
+ * report them to the plugin in a single batch.
+ */
+export const mergeTyperighterResponses = (
+  requestId: string,
+  responses: ITypeRighterResponse[]
+): ITypeRighterResponse => ({
+  blocks: uniqBy(
+    responses.flatMap(_ => _.blocks),
+    "id"
+  ),
+  categoryIds: uniq(responses.flatMap(_ => _.categoryIds)),
+  matches: responses.flatMap(_ => _.matches),
+  requestId
+});
+
+interface IRequestInFlight {
+  abortController: AbortController;
+  responseBuffer: ITypeRighterResponse[];
+  // Flushes the response buffer at most once per throttle window.
+  throttledFlush: (() => void) & { cancel: () => void; flush: () => void };
+}
+
 /**
  * A MatcherAdapter for the Typerighter remote service.
  */
 class TyperighterAdapter implements IMatcherAdapter {
-  constructor(protected url: string, protected responseThrottleMs = 250) {}
+  /**
+   * @param getRuleUrl Given a rule, return a link to its definition, if
+   * there is one – we show it to users when they ask why text is flagged.
+   */
+  constructor(
+    protected url: string,
+    protected responseThrottleMs = 250,
+    protected getRuleUrl: TGetTyperighterRuleUrl = () => undefined
+  ) {}
 
-  protected responseBuffer: ITypeRighterResponse[] = [];
+  protected requestsInFlight: { [requestId: string]: IRequestInFlight } = {};
 
   public fetchMatches = async (
     requestId: string,
@@ -47,9 +89,19 @@ class TyperighterAdapter implements IMatcherAdapter {
     categoryIds: string[],
     onMatchesReceived: TMatchesReceivedCallback,
     onRequestError: TRequestErrorCallback,
-    _: TRequestCompleteCallback
+    onRequestComplete: TRequestCompleteCallback
   ) => {
-    inputs.map(async input => {
+    const abortController = new AbortController();
+    const request: IRequestInFlight = {
+      abortController,
+      responseBuffer: [],
+      throttledFlush: throttle(
+        () => this.flushResponseBuffer(requestId, request, onMatchesReceived),
+        this.responseThrottleMs
+      )
+    };
+    this.requestsInFlight[requestId] = request;
+    const requests = inputs.map(async input => {
       const body = {
         requestId,
         blocks: [input],
@@ -61,7 +113,8 @@ class TyperighterAdapter implements IMatcherAdapter {
           headers: new Headers({
             "Content-Type": "application/json"
           }),
-          body: JSON.stringify(body)
+          body: JSON.stringify(body),
+          signal: abortController.signal
         });
         if (response.status === 401 || response.status === 419) {
           return onRequestError({
@@ -76,9 +129,15 @@ class TyperighterAdapter implements IMatcherAdapter {
           throw new Error(`${response.status}: ${response.statusText}`);
         }
         const responseData: ITypeRighterResponse = await response.json();
-        this.responseBuffer.push(responseData);
-        this.throttledHandleResponse(requestId, onMatchesReceived);
+        if (abortController.signal.aborted) {
+          return;
+        }
+        request.responseBuffer.push(responseData);
+        request.throttledFlush();
       } catch (e) {
+        if (abortController.signal.aborted) {
+          return;
+        }
         onRequestError({
           requestId,
           blockId: input.id,
@@ -88,6 +147,30 @@ class TyperighterAdapter implements IMatcherAdapter {
         });
       }
     });
+    await Promise.all(requests);
+    if (abortController.signal.aborted) {
+      return;
+    }
+    if (this.requestsInFlight[requestId] === request) {
+      delete this.requestsInFlight[requestId];
+    }
+    // Report any responses we're still holding before we complete.
+    request.throttledFlush.flush();
+    onRequestComplete(requestId);
+  };
+
+  /**
+   * Abort any fetches still in flight for this request, and discard any
+   * responses we've buffered for it.
+   */
+  public cancelRequest = (requestId: string) => {
+    const request = this.requestsInFlight[requestId];
+    if (!request) {
+      return;
+    }
+    request.abortController.abort();
+    request.throttledFlush.cancel();
+    delete this.requestsInFlight[requestId];
   };
   public fetchCategories = async () => {
     const response = await fetch(`${this.url}/categories`, {
@@ -106,34 +189,24 @@ class TyperighterAdapter implements IMatcherAdapter {
 
   protected flushResponseBuffer = (
     requestId: string,
+    request: IRequestInFlight,
     onMatchesReceived: TMatchesReceivedCallback
   ) => {
-    if (!this.responseBuffer.length) {
+    if (!request.responseBuffer.length) {
       return;
     }
-    const blocks = uniqBy(
-      this.responseBuffer.flatMap(_ => _.blocks),
-      "id"
+    const response = mergeTyperighterResponses(
+      requestId,
+      request.responseBuffer
     );
-    const categoryIds = uniq(this.responseBuffer.flatMap(_ => _.categoryIds));
-    const matches = this.responseBuffer.flatMap(_ => _.matches);
-    const socketMessage = {
-      blocks,
-      categoryIds,
-      matches,
-      requestId
-    };
-
-    onMatchesReceived(convertTyperighterResponse(requestId, socketMessage));
 
     // Clear the buffer
-    this.responseBuffer = [];
-  };
+    request.responseBuffer = [];
 
-  protected throttledHandleResponse = throttle(
-    this.flushResponseBuffer,
-    this.responseThrottleMs
-  );
+    onMatchesReceived(
+      convertTyperighterResponse(requestId, response, this.getRuleUrl)
+    );
+  };
 }
 
 export default TyperighterAdapter;
@@ -1,14 +1,27 @@
-
+import throttle from "lodash/throttle";
 import { IBlock } from "../../interfaces/IMatch";
-import { ITypeRighterResponse } from "./interfaces/ITyperighter";
-import TyperighterAdapter from "./TyperighterAdapter";
+import {
+  ITypeRighterResponse,
+  TGetTyperighterRuleUrl
+} from "./interfaces/ITyperighter";
+import TyperighterAdapter, {
+  convertTyperighterResponse,
+  mergeTyperighterResponses
+} from "./TyperighterAdapter";
 import {
   TMatchesReceivedCallback,
   TRequestErrorCallback,
   IMatcherAdapter,
-  TRequestCompleteCallback
+  TRequestCompleteCallback,
+  TConnectionStatus,
+  TConnectionStatusCallback
 } from "../../interfaces/IMatcherAdapter";
+import { getBackoffDelay } from "../../utils/backoff";
 
+const CHECK = "CHECK" as const;
+const CANCEL = "CANCEL" as const;
+const PING = "PING" as const;
+const PONG = "PONG" as const;
 const CHECK_RESPONSE = "CHECK_RESPONSE" as const;
 const CHECK_ERROR = "CHECK_ERROR" as const;
 const CHECK_COMPLETE = "CHECK_COMPLETE" as const;
@@ -19,21 +32,125 @@ interface ISocketResponse extends ITypeRighterResponse {
 
 interface ISocketError {
   type: typeof CHECK_ERROR;
+  requestId: string;
   id: string | undefined;
   message: string;
 }
 
 interface ISocketWorkComplete {
   type: typeof CHECK_COMPLETE;
+  requestId: string;
+}
+
+interface ISocketPong {
+  type: typeof PONG;
+}
+
+type TSocketMessage =
+  | ISocketResponse
+  | ISocketError
+  | ISocketWorkComplete
+  | ISocketPong;
+
+interface ISocketRequest {
+  blocks: IBlock[];
+  categoryIds: string[];
+  responseBuffer: ITypeRighterResponse[];
+  // Flushes the response buffer at most once per throttle window.
+  throttledFlush: (() => void) & { cancel: () => void };
+  onMatchesReceived: TMatchesReceivedCallback;
+  onRequestError: TRequestErrorCallback;
+  onRequestComplete: TRequestCompleteCallback;
+}
+
+export interface ISocketOptions {
+  // The version of the socket protocol the server speaks – see
+  // `TyperighterWsAdapter` for the differences.
+  protocolVersion: 1 | 2;
+  // How often we ping the server to check the connection is alive. If we
+  // don't hear anything back before the next ping, we reconnect.
+  heartbeatInterval: number;
+  // The delay before our first attempt to reconnect. Subsequent attempts
+  // back off exponentially.
+  initialReconnectDelay: number;
+  // The longest we'll wait between attempts to reconnect.
+  maxReconnectDelay: number;
+  // The proportion of each reconnect delay to randomise, between 0 and 1.
+  reconnectJitter: number;
 }
 
-type TSocketMessage = ISocketResponse | ISocketError | ISocketWorkComplete;
+export const defaultSocketOptions: ISocketOptions = {
+  protocolVersion: 2,
+  heartbeatInterval: 30000,
+  initialReconnectDelay: 1000,
+  maxReconnectDelay: 30000,
+  reconnectJitter: 0.2
+};
+
+/**
+ * Get the URL of the socket for the given service, using a secure socket
+ * if the page is served securely – browsers refuse insecure sockets from
+ * secure pages.
+ */
+export const getSocketUrl = (
+  url: string,
+  pageProtocol = window.location.protocol
+) => {
+  const protocol = pageProtocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${new URL(url).host}/checkStream`;
+};
 
 /**
- * An adapter for the Typerighter service that uses WebSockets.
+ * An adapter for the Typerighter service that uses WebSockets. It speaks
+ * one of two versions of the socket protocol.
+ *
+ * Version 1 opens a socket to `/checkStream` for each request. The client
+ * sends `{ requestId, blocks }`, and the server replies with
+ * `CHECK_RESPONSE`, `CHECK_ERROR` and `CHECK_COMPLETE` messages for that
+ * request alone, so the last two needn't carry a requestId. We close the
+ * socket when the request completes or is cancelled. We keep this version
+ * for servers that don't yet speak version 2. There's no connection between
+ * requests, so we don't report connection status for it.
+ *
+ * Version 2, the default, keeps a single socket open to
+ * `/checkStream?protocolVersion=2`, and multiplexes requests over it:
+ *  - the client sends `{ type: "CHECK", requestId, blocks }` to start a
+ *    request, and `{ type: "CANCEL", requestId }` to stop one;
+ *  - every server message for a request – including `CHECK_ERROR` and
+ *    `CHECK_COMPLETE` – must carry its requestId;
+ *  - the client sends `{ type: "PING" }` every `heartbeatInterval`, and the
+ *    server must reply with `{ type: "PONG" }`. If we hear nothing before
+ *    the next ping, we assume the connection is dead.
+ * If the connection drops, requests in flight fail, and we reconnect with
+ * backoff.
+ *
+ * In either version, messages we can't parse or don't recognise are
+ * reported as errors for the requests they might belong to.
  */
 class TyperighterWsAdapter extends TyperighterAdapter
   implements IMatcherAdapter {
+  protected socket: WebSocket | undefined;
+  protected requests: { [requestId: string]: ISocketRequest } = {};
+  // Protocol v1 only – the socket serving each request.
+  protected requestSockets: { [requestId: string]: WebSocket } = {};
+  protected connectionStatus: TConnectionStatus = "DISCONNECTED";
+  protected connectionStatusCallbacks: TConnectionStatusCallback[] = [];
+  protected socketOptions: ISocketOptions;
+  private reconnectAttempt = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  private heartbeatInterval: ReturnType<typeof setInterval> | undefined;
+  private awaitingHeartbeat = false;
+  private isClosed = false;
+
+  constructor(
+    url: string,
+    responseThrottleMs?: number,
+    socketOptions: Partial<ISocketOptions> = {},
+    getRuleUrl?: TGetTyperighterRuleUrl
+  ) {
+    super(url, responseThrottleMs, getRuleUrl);
+    this.socketOptions = { ...defaultSocketOptions, ...socketOptions };
+  }
 
   public fetchMatches = async (
     requestId: string,
@@ -43,87 +160,340 @@ class TyperighterWsAdapter extends TyperighterAdapter
     onRequestError: TRequestErrorCallback,
     onRequestComplete: TRequestCompleteCallback
   ) => {
-    const url = new URL(this.url)
-    const socket = new WebSocket(`ws://${url.host}/checkStream`);
-    const blocks = inputs.map(input => ({
-      id: input.id,
-      text: input.text,
-      from: input.from,
-      to: input.to,
-      categoryIds
-    }));
-    const handleRequestComplete = (id: string) => {
-      socket.close();
-      onRequestComplete(id)
+    this.requests[requestId] = {
+      blocks: inputs,
+      categoryIds,
+      responseBuffer: [],
+      throttledFlush: throttle(
+        () => this.flushRequestBuffer(requestId),
+        this.responseThrottleMs
+      ),
+      onMatchesReceived,
+      onRequestError,
+      onRequestComplete
+    };
+    if (this.socketOptions.protocolVersion === 1) {
+      return this.openRequestSocket(requestId);
+    }
+    this.isClosed = false;
+    const socket = this.getSocket();
+    // If the socket isn't open yet, we send the request once it is.
+    if (socket.readyState === WebSocket.OPEN) {
+      this.sendRequest(socket, requestId);
+    }
+  };
+
+  /**
+   * Ask the server to stop work on this request. We won't report anything
+   * further for it, even if the server has already sent us responses.
+   */
+  public cancelRequest = (requestId: string) => {
+    const request = this.requests[requestId];
+    if (!request) {
+      return;
+    }
+    request.throttledFlush.cancel();
+    delete this.requests[requestId];
+    if (this.socketOptions.protocolVersion === 1) {
+      return this.closeRequestSocket(requestId, "Request cancelled");
+    }
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: CANCEL, requestId }));
+    }
+  };
+
+  public onConnectionStatusChange = (callback: TConnectionStatusCallback) => {
+    this.connectionStatusCallbacks.push(callback);
+  };
+
+  /**
+   * Close the socket, and stop trying to reconnect until we're next asked
+   * for matches.
+   */
+  public close = () => {
+    Object.keys(this.requestSockets).forEach(requestId => {
+      this.closeRequestSocket(requestId, "Connection closed");
+      this.failRequest(requestId, "Connection closed");
+    });
+    this.isClosed = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+    const socket = this.socket;
+    if (socket) {
+      this.handleDisconnect("Connection closed");
+      socket.close(1000, "Connection closed");
+    }
+  };
+
+  private getSocket = () => {
+    if (this.socket) {
+      return this.socket;
+    }
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
     }
+    this.setConnectionStatus("CONNECTING");
+    const socket = new WebSocket(`${getSocketUrl(this.url)}?protocolVersion=2`);
+    this.socket = socket;
 
     socket.addEventListener("open", () => {
-      socket.addEventListener("message", event =>
-        this.handleMessage(
-          event,
-          requestId,
-          onMatchesReceived,
-          onRequestError,
-          handleRequestComplete
-        )
-      );
-      socket.send(
-        JSON.stringify({
-          requestId,
-          blocks
-        })
+      this.reconnectAttempt = 0;
+      this.setConnectionStatus("CONNECTED");
+      this.startHeartbeat(socket);
+      Object.keys(this.requests).forEach(requestId =>
+        this.sendRequest(socket, requestId)
       );
     });
+    socket.addEventListener("message", event => {
+      // Ignore anything from a socket we've since abandoned.
+      if (this.socket === socket) {
+        this.handleMessage(event);
+      }
+    });
+    socket.addEventListener("close", closeEvent => {
+      if (this.socket === socket) {
+        this.handleDisconnect(closeEvent.reason || "Connection lost");
+      }
+    });
+
+    return socket;
+  };
+
+  /**
+   * Open a socket for a single request (protocol v1), and send the request
+   * once it's open.
+   */
+  private openRequestSocket = (requestId: string) => {
+    const socket = new WebSocket(getSocketUrl(this.url));
+    this.requestSockets[requestId] = socket;
+    const isCurrentSocket = () => this.requestSockets[requestId] === socket;
 
+    socket.addEventListener("open", () => {
+      if (isCurrentSocket()) {
+        socket.send(
+          JSON.stringify({
+            requestId,
+            blocks: this.getRequestBlocks(requestId)
+          })
+        );
+      }
+    });
+    socket.addEventListener("message", event => {
+      // Ignore anything that arrives once the request is complete or
+      // cancelled.
+      if (isCurrentSocket()) {
+        this.handleMessage(event, requestId);
+      }
+    });
     socket.addEventListener("close", closeEvent => {
-      if (closeEvent.code !== 1000) {
-        onRequestError({ requestId, message: closeEvent.reason, categoryIds });
+      if (isCurrentSocket()) {
+        delete this.requestSockets[requestId];
+        this.failRequest(requestId, closeEvent.reason || "Connection lost");
       }
     });
   };
 
-  private handleMessage = (
-    message: MessageEvent,
-    requestId: string,
-    onMatchesReceived: TMatchesReceivedCallback,
-    onRequestError: TRequestErrorCallback,
-    onRequestComplete: TRequestCompleteCallback
-  ) => {
+  /**
+   * Close the socket for this request, if it has one. We close with a
+   * normal closure code, so the closure isn't reported as an error.
+   */
+  private closeRequestSocket = (requestId: string, reason: string) => {
+    const socket = this.requestSockets[requestId];
+    if (!socket) {
+      return;
+    }
+    delete this.requestSockets[requestId];
+    socket.close(1000, reason);
+  };
+
+  private sendRequest = (socket: WebSocket, requestId: string) => {
+    socket.send(
+      JSON.stringify({
+        type: CHECK,
+        requestId,
+        blocks: this.getRequestBlocks(requestId)
+      })
+    );
+  };
+
+  private getRequestBlocks = (requestId: string) => {
+    const { blocks, categoryIds } = this.requests[requestId];
+    return blocks.map(block => ({
+      id: block.id,
+      text: block.text,
+      from: block.from,
+      to: block.to,
+      categoryIds
+    }));
+  };
+
+  /**
+   * Ping the server periodically. Any message from the server counts as a
+   * reply – if we haven't heard anything since our last ping, we assume the
+   * connection is dead.
+   */
+  private startHeartbeat = (socket: WebSocket) => {
+    this.awaitingHeartbeat = false;
+    this.heartbeatInterval = setInterval(() => {
+      if (this.awaitingHeartbeat) {
+        this.handleDisconnect("Heartbeat timed out");
+        return socket.close();
+      }
+      this.awaitingHeartbeat = true;
+      socket.send(JSON.stringify({ type: PING }));
+    }, this.socketOptions.heartbeatInterval);
+  };
+
+  /**
+   * Fail the requests in flight, so their blocks are checked again, and
+   * schedule a reconnection.
+   */
+  private handleDisconnect = (message: string) => {
+    this.socket = undefined;
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+    }
+    this.setConnectionStatus("DISCONNECTED");
+    Object.keys(this.requests).forEach(requestId =>
+      this.failRequest(requestId, message)
+    );
+
+    if (this.isClosed) {
+      return;
+    }
+    const {
+      initialReconnectDelay,
+      maxReconnectDelay,
+      reconnectJitter
+    } = this.socketOptions;
+    const delay = getBackoffDelay(
+      this.reconnectAttempt,
+      initialReconnectDelay,
+      maxReconnectDelay,
+      reconnectJitter
+    );
+    this.reconnectAttempt++;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      this.getSocket();
+    }, delay);
+  };
+
+  /**
+   * Fail each block in the request, so they're checked again.
+   */
+  private failRequest = (requestId: string, message: string) => {
+    const request = this.requests[requestId];
+    if (!request) {
+      return;
+    }
+    request.throttledFlush.cancel();
+    delete this.requests[requestId];
+    request.blocks.forEach(block =>
+      request.onRequestError({
+        requestId,
+        blockId: block.id,
+        message,
+        categoryIds: request.categoryIds
+      })
+    );
+  };
+
+  private setConnectionStatus = (status: TConnectionStatus) => {
+    if (status === this.connectionStatus) {
+      return;
+    }
+    this.connectionStatus = status;
+    this.connectionStatusCallbacks.forEach(callback => callback(status));
+  };
+
+  /**
+   * Handle a message from the server. Sockets that serve a single request
+   * (protocol v1) pass its requestId, as their messages may not carry it.
+   */
+  private handleMessage = (message: MessageEvent, socketRequestId?: string) => {
+    this.awaitingHeartbeat = false;
+    let socketMessage: TSocketMessage;
     try {
-      const socketMessage: TSocketMessage = JSON.parse(message.data);
-      switch (socketMessage.type) {
-        case CHECK_ERROR: {
-          return onRequestError({
-            requestId,
+      socketMessage = JSON.parse(message.data);
+    } catch (e) {
+      return this.reportMessageError(e.message, socketRequestId);
+    }
+    const requestId =
+      socketRequestId ||
+      (socketMessage as { requestId?: string } | undefined)?.requestId;
+    const request = requestId ? this.requests[requestId] : undefined;
+    switch (socketMessage?.type) {
+      case PONG: {
+        return;
+      }
+      case CHECK_ERROR: {
+        return (
+          request &&
+          request.onRequestError({
+            requestId: requestId!,
             blockId: socketMessage.id,
             message: socketMessage.message,
             categoryIds: []
-          });
-        }
-        case CHECK_RESPONSE: {
-          this.responseBuffer.push(socketMessage);
-          return this.throttledHandleResponse(requestId, onMatchesReceived);
-        }
-        case CHECK_COMPLETE: {
-          this.flushResponseBuffer(requestId, onMatchesReceived);
-          return onRequestComplete(requestId);
+          })
+        );
+      }
+      case CHECK_RESPONSE: {
+        if (!request) {
+          return;
         }
-        default: {
-          const errorMessage = `Received unknown message type: ${JSON.stringify(
-            socketMessage
-          )}`;
-          return onRequestError({
-            requestId,
-            message: errorMessage,
-            categoryIds: []
-          });
+        request.responseBuffer.push(socketMessage);
+        return request.throttledFlush();
+      }
+      case CHECK_COMPLETE: {
+        if (!request) {
+          return;
         }
+        request.throttledFlush.cancel();
+        this.flushRequestBuffer(requestId!);
+        delete this.requests[requestId!];
+        this.closeRequestSocket(requestId!, "Request complete");
+        return request.onRequestComplete(requestId!);
+      }
+      default: {
+        return this.reportMessageError(
+          `Received unknown message type: ${message.data}`,
+          requestId
+        );
       }
-    } catch (e) {
-      onRequestError({ requestId, message: e.message, categoryIds: [] });
     }
   };
 
+  /**
+   * Report a message we can't handle as an error. If we can't tell which
+   * request it belongs to, it might belong to any of them.
+   */
+  private reportMessageError = (message: string, requestId?: string) => {
+    const requestIds = requestId ? [requestId] : Object.keys(this.requests);
+    requestIds.forEach(id =>
+      this.requests[id]?.onRequestError({
+        requestId: id,
+        message,
+        categoryIds: []
+      })
+    );
+  };
+
+  private flushRequestBuffer = (requestId: string) => {
+    const request = this.requests[requestId];
+    if (!request || !request.responseBuffer.length) {
+      return;
+    }
+    const response = mergeTyperighterResponses(
+      requestId,
+      request.responseBuffer
+    );
+    request.responseBuffer = [];
+    request.onMatchesReceived(
+      convertTyperighterResponse(requestId, response, this.getRuleUrl)
+    );
+  };
 }
 
 export default TyperighterWsAdapter;
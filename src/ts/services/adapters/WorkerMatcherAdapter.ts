@@ -0,0 +1,242 @@
+import { v4 } from "uuid";
+import { IBlock, ICategory } from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+import {
+  CANCEL,
+  CATEGORIES_ERROR,
+  CATEGORIES_RESPONSE,
+  CHECK,
+  CHECK_COMPLETE,
+  CHECK_ERROR,
+  CHECK_RESPONSE,
+  FETCH_CATEGORIES,
+  IMessageEndpoint,
+  TWorkerRequest,
+  TWorkerResponse
+} from "./interfaces/IWorker";
+
+export type TWorker = IMessageEndpoint<TWorkerRequest, TWorkerResponse>;
+export type TWorkerScope = IMessageEndpoint<TWorkerResponse, TWorkerRequest>;
+
+interface IRequestInFlight {
+  blocks: IBlock[];
+  categoryIds: string[];
+  onMatchesReceived: TMatchesReceivedCallback;
+  onRequestError: TRequestErrorCallback;
+  onRequestComplete: TRequestCompleteCallback;
+}
+
+interface ICategoryRequestCallbacks {
+  resolve: (categories: ICategory[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A MatcherAdapter that delegates to another adapter running in a Web
+ * Worker, to keep expensive matching off the main thread. The worker should
+ * call `exposeMatcherAdapter` with the adapter it'd like to run.
+ *
+ * Blocks are copied to the worker, and responses are streamed back as the
+ * worker's adapter produces them.
+ */
+class WorkerMatcherAdapter implements IMatcherAdapter {
+  protected requestsInFlight: { [requestId: string]: IRequestInFlight } = {};
+  protected categoryRequestsInFlight: {
+    [requestId: string]: ICategoryRequestCallbacks;
+  } = {};
+
+  constructor(protected worker: TWorker) {
+    this.worker.addEventListener("message", event =>
+      this.handleMessage(event.data)
+    );
+    this.worker.addEventListener("error", () =>
+      this.failRequests("The matcher worker encountered an error")
+    );
+    this.worker.addEventListener("messageerror", () =>
+      this.failRequests("Could not read a message from the matcher worker")
+    );
+  }
+
+  public fetchMatches = (
+    requestId: string,
+    inputs: IBlock[],
+    categoryIds: string[],
+    onMatchesReceived: TMatchesReceivedCallback,
+    onRequestError: TRequestErrorCallback,
+    onRequestComplete: TRequestCompleteCallback
+  ) => {
+    this.requestsInFlight[requestId] = {
+      blocks: inputs,
+      categoryIds,
+      onMatchesReceived,
+      onRequestError,
+      onRequestComplete
+    };
+    this.worker.postMessage({
+      type: CHECK,
+      requestId,
+      blocks: inputs,
+      categoryIds
+    });
+  };
+
+  public fetchCategories = () =>
+    new Promise<ICategory[]>((resolve, reject) => {
+      const requestId = v4();
+      this.categoryRequestsInFlight[requestId] = { resolve, reject };
+      this.worker.postMessage({ type: FETCH_CATEGORIES, requestId });
+    });
+
+  /**
+   * Cancel a request. We won't report anything further for it, even if the
+   * worker has already sent responses that we haven't yet received.
+   */
+  public cancelRequest = (requestId: string) => {
+    if (!this.requestsInFlight[requestId]) {
+      return;
+    }
+    delete this.requestsInFlight[requestId];
+    this.worker.postMessage({ type: CANCEL, requestId });
+  };
+
+  /**
+   * Report every request in flight as failed. We can't tell which request
+   * an error or unreadable message belongs to, or whether the worker can
+   * carry on, so we report an error for each block we're waiting on – the
+   * blocks will be checked again on the next request.
+   */
+  protected failRequests = (message: string) => {
+    const requestsInFlight = this.requestsInFlight;
+    const categoryRequestsInFlight = this.categoryRequestsInFlight;
+    this.requestsInFlight = {};
+    this.categoryRequestsInFlight = {};
+    Object.keys(requestsInFlight).forEach(requestId => {
+      const { blocks, categoryIds, onRequestError } = requestsInFlight[
+        requestId
+      ];
+      // Ask the worker to stop, in case it's still working on the request.
+      this.worker.postMessage({ type: CANCEL, requestId });
+      blocks.forEach(block =>
+        onRequestError({ requestId, blockId: block.id, message, categoryIds })
+      );
+    });
+    Object.values(categoryRequestsInFlight).forEach(({ reject }) =>
+      reject(new Error(message))
+    );
+  };
+
+  protected handleMessage = (message: TWorkerResponse) => {
+    switch (message.type) {
+      case CHECK_RESPONSE: {
+        const request = this.requestsInFlight[message.response.requestId];
+        return request && request.onMatchesReceived(message.response);
+      }
+      case CHECK_ERROR: {
+        const request = this.requestsInFlight[message.error.requestId];
+        return request && request.onRequestError(message.error);
+      }
+      case CHECK_COMPLETE: {
+        const request = this.requestsInFlight[message.requestId];
+        delete this.requestsInFlight[message.requestId];
+        return request && request.onRequestComplete(message.requestId);
+      }
+      case CATEGORIES_RESPONSE: {
+        const request = this.categoryRequestsInFlight[message.requestId];
+        delete this.categoryRequestsInFlight[message.requestId];
+        return request && request.resolve(message.categories);
+      }
+      case CATEGORIES_ERROR: {
+        const request = this.categoryRequestsInFlight[message.requestId];
+        delete this.categoryRequestsInFlight[message.requestId];
+        return request && request.reject(new Error(message.message));
+      }
+    }
+  };
+}
+
+/**
+ * Run the given adapter in a worker, responding to the messages sent by a
+ * WorkerMatcherAdapter on the main thread. Call this from the worker script,
+ * e.g. `exposeMatcherAdapter(new RegexMatcherAdapter(library), self)`.
+ */
+export const exposeMatcherAdapter = (
+  adapter: IMatcherAdapter,
+  scope: TWorkerScope
+) => {
+  // The requests we're working on. We forget requests as they complete or
+  // are cancelled, and don't report anything further for them.
+  const requestsInProgress = new Set<string>();
+  const postIfInProgress = (requestId: string, message: TWorkerResponse) => {
+    if (requestsInProgress.has(requestId)) {
+      scope.postMessage(message);
+    }
+  };
+
+  scope.addEventListener("message", async ({ data: message }) => {
+    switch (message.type) {
+      case CHECK: {
+        const { requestId } = message;
+        requestsInProgress.add(requestId);
+        try {
+          await adapter.fetchMatches(
+            requestId,
+            message.blocks,
+            message.categoryIds,
+            response =>
+              postIfInProgress(requestId, { type: CHECK_RESPONSE, response }),
+            error => postIfInProgress(requestId, { type: CHECK_ERROR, error }),
+            () => {
+              postIfInProgress(requestId, {
+                type: CHECK_COMPLETE,
+                requestId
+              });
+              requestsInProgress.delete(requestId);
+            }
+          );
+        } catch (e) {
+          postIfInProgress(requestId, {
+            type: CHECK_ERROR,
+            error: {
+              requestId,
+              message: e.message,
+              categoryIds: message.categoryIds,
+              type: "GENERAL_ERROR"
+            }
+          });
+          requestsInProgress.delete(requestId);
+        }
+        return;
+      }
+      case CANCEL: {
+        requestsInProgress.delete(message.requestId);
+        return (
+          adapter.cancelRequest && adapter.cancelRequest(message.requestId)
+        );
+      }
+      case FETCH_CATEGORIES: {
+        const { requestId } = message;
+        try {
+          const categories = await adapter.fetchCategories();
+          scope.postMessage({
+            type: CATEGORIES_RESPONSE,
+            requestId,
+            categories
+          });
+        } catch (e) {
+          scope.postMessage({
+            type: CATEGORIES_ERROR,
+            requestId,
+            message: e.message
+          });
+        }
+      }
+    }
+  });
+};
+
+export default WorkerMatcherAdapter;
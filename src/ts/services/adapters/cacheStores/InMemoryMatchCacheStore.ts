@@ -0,0 +1,35 @@
+import { IMatch } from "../../../interfaces/IMatch";
+import {
+  IMatchCacheEntry,
+  IMatchCacheStore
+} from "../interfaces/IMatchCacheStore";
+
+/**
+ * A cache store that keeps matches in memory for the lifetime of the page.
+ */
+class InMemoryMatchCacheStore<TMatch extends IMatch = IMatch>
+  implements IMatchCacheStore<TMatch> {
+  // Maps iterate in insertion order, so we reinsert entries as they're
+  // used to keep the least recently used entries first.
+  private entries = new Map<string, IMatchCacheEntry<TMatch>>();
+
+  public get = async (key: string) => this.entries.get(key);
+
+  public set = async (key: string, entry: IMatchCacheEntry<TMatch>) => {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  };
+
+  public delete = async (key: string) => {
+    this.entries.delete(key);
+  };
+
+  public prune = async (maxSize: number) => {
+    const keys = Array.from(this.entries.keys());
+    keys
+      .slice(0, Math.max(keys.length - maxSize, 0))
+      .forEach(key => this.entries.delete(key));
+  };
+}
+
+export default InMemoryMatchCacheStore;
@@ -0,0 +1,86 @@
+import { IMatch } from "../../../interfaces/IMatch";
+import {
+  IMatchCacheEntry,
+  IMatchCacheStore
+} from "../interfaces/IMatchCacheStore";
+
+const OBJECT_STORE_NAME = "matches";
+const LAST_USED_INDEX_NAME = "lastUsedAt";
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * A cache store that persists matches to IndexedDB, so they survive
+ * across page loads.
+ */
+class IndexedDBMatchCacheStore<TMatch extends IMatch = IMatch>
+  implements IMatchCacheStore<TMatch> {
+  private db: Promise<IDBDatabase> | undefined;
+
+  constructor(private dbName = "prosemirror-typerighter-cache") {}
+
+  public get = async (key: string) => {
+    const store = await this.getObjectStore("readonly");
+    const entry: IMatchCacheEntry<TMatch> | undefined = await promisifyRequest(
+      store.get(key)
+    );
+    return entry;
+  };
+
+  public set = async (key: string, entry: IMatchCacheEntry<TMatch>) => {
+    const store = await this.getObjectStore("readwrite");
+    await promisifyRequest(store.put(entry, key));
+  };
+
+  public delete = async (key: string) => {
+    const store = await this.getObjectStore("readwrite");
+    await promisifyRequest(store.delete(key));
+  };
+
+  public prune = async (maxSize: number) => {
+    const store = await this.getObjectStore("readwrite");
+    const size = await promisifyRequest(store.count());
+    let entriesToRemove = size - maxSize;
+    if (entriesToRemove <= 0) {
+      return;
+    }
+    const cursorRequest = store.index(LAST_USED_INDEX_NAME).openCursor();
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || entriesToRemove <= 0) {
+          return resolve();
+        }
+        cursor.delete();
+        entriesToRemove--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  };
+
+  private getObjectStore = async (mode: IDBTransactionMode) => {
+    const db = await this.openDb();
+    return db
+      .transaction(OBJECT_STORE_NAME, mode)
+      .objectStore(OBJECT_STORE_NAME);
+  };
+
+  private openDb = () => {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(OBJECT_STORE_NAME);
+        store.createIndex(LAST_USED_INDEX_NAME, LAST_USED_INDEX_NAME);
+      };
+      this.db = promisifyRequest(request);
+    }
+    return this.db;
+  };
+}
+
+export default IndexedDBMatchCacheStore;
@@ -34,6 +34,7 @@ export interface ILTRule {
   description: string;
   id: string;
   issueType: string;
+  urls?: Array<{ value: string }>;
 }
 
 export interface ILTCategory {
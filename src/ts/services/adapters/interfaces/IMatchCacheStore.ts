@@ -0,0 +1,24 @@
+import { IMatch } from "../../../interfaces/IMatch";
+
+export interface IMatchCacheEntry<TMatch extends IMatch = IMatch> {
+  // The matches for the cached block, with offsets relative to the
+  // start of the block.
+  matches: TMatch[];
+  // When the entry was created, as a timestamp in milliseconds.
+  createdAt: number;
+  // When the entry was last read or written, as a timestamp in
+  // milliseconds – we evict the least recently used entries first.
+  lastUsedAt: number;
+}
+
+/**
+ * Somewhere to keep cached matches, keyed by a hash of the block's text and
+ * categories.
+ */
+export interface IMatchCacheStore<TMatch extends IMatch = IMatch> {
+  get: (key: string) => Promise<IMatchCacheEntry<TMatch> | undefined>;
+  set: (key: string, entry: IMatchCacheEntry<TMatch>) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  // Evict the least recently used entries until at most maxSize remain.
+  prune: (maxSize: number) => Promise<void>;
+}
@@ -47,6 +47,10 @@ export interface ITypeRighterRule {
   issueType: string;
 }
 
+export type TGetTyperighterRuleUrl = (
+  rule: ITypeRighterRule
+) => string | undefined;
+
 export interface ITypeRighterCategory {
   id: string;
   name: string;
@@ -0,0 +1,92 @@
+import {
+  IBlock,
+  ICategory,
+  IMatcherResponse,
+  TMatchRequestErrorWithDefault
+} from "../../../interfaces/IMatch";
+
+export const CHECK = "CHECK" as const;
+export const CANCEL = "CANCEL" as const;
+export const FETCH_CATEGORIES = "FETCH_CATEGORIES" as const;
+export const CHECK_RESPONSE = "CHECK_RESPONSE" as const;
+export const CHECK_ERROR = "CHECK_ERROR" as const;
+export const CHECK_COMPLETE = "CHECK_COMPLETE" as const;
+export const CATEGORIES_RESPONSE = "CATEGORIES_RESPONSE" as const;
+export const CATEGORIES_ERROR = "CATEGORIES_ERROR" as const;
+
+/**
+ * Messages sent to the worker.
+ */
+export interface IWorkerCheck {
+  type: typeof CHECK;
+  requestId: string;
+  blocks: IBlock[];
+  categoryIds: string[];
+}
+
+export interface IWorkerCancel {
+  type: typeof CANCEL;
+  requestId: string;
+}
+
+export interface IWorkerFetchCategories {
+  type: typeof FETCH_CATEGORIES;
+  requestId: string;
+}
+
+export type TWorkerRequest =
+  | IWorkerCheck
+  | IWorkerCancel
+  | IWorkerFetchCategories;
+
+/**
+ * Messages sent from the worker.
+ */
+export interface IWorkerCheckResponse {
+  type: typeof CHECK_RESPONSE;
+  response: IMatcherResponse;
+}
+
+export interface IWorkerCheckError {
+  type: typeof CHECK_ERROR;
+  error: TMatchRequestErrorWithDefault;
+}
+
+export interface IWorkerCheckComplete {
+  type: typeof CHECK_COMPLETE;
+  requestId: string;
+}
+
+export interface IWorkerCategoriesResponse {
+  type: typeof CATEGORIES_RESPONSE;
+  requestId: string;
+  categories: ICategory[];
+}
+
+export interface IWorkerCategoriesError {
+  type: typeof CATEGORIES_ERROR;
+  requestId: string;
+  message: string;
+}
+
+export type TWorkerResponse =
+  | IWorkerCheckResponse
+  | IWorkerCheckError
+  | IWorkerCheckComplete
+  | IWorkerCategoriesResponse
+  | IWorkerCategoriesError;
+
+/**
+ * The parts of a message channel we rely upon – satisfied by a Worker on
+ * the main thread, and by the global scope within a worker.
+ */
+export interface IMessageEndpoint<TOutgoingMessage, TIncomingMessage> {
+  postMessage: (message: TOutgoingMessage) => void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: TIncomingMessage }) => void
+  ): void;
+  // A worker dispatches "error" when its script throws, and "messageerror"
+  // when a message it sends can't be deserialised.
+  addEventListener(type: "error" | "messageerror", listener: () => void): void;
+}
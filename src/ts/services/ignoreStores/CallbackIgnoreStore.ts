@@ -0,0 +1,20 @@
+import { IIgnoreList, IIgnoreStore } from "../../interfaces/IIgnoreStore";
+
+/**
+ * An ignore store that hands the ignore list to consumer code, e.g. to
+ * persist it to a CMS. The callbacks may be synchronous or return promises.
+ */
+class CallbackIgnoreStore implements IIgnoreStore {
+  constructor(
+    private onLoad: () => IIgnoreList | Promise<IIgnoreList>,
+    private onSave: (ignoreList: IIgnoreList) => void | Promise<void>
+  ) {}
+
+  public load = async () => this.onLoad();
+
+  public save = async (ignoreList: IIgnoreList) => {
+    await this.onSave(ignoreList);
+  };
+}
+
+export default CallbackIgnoreStore;
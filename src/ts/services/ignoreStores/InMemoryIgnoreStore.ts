@@ -0,0 +1,17 @@
+import { IIgnoreList, IIgnoreStore } from "../../interfaces/IIgnoreStore";
+
+/**
+ * An ignore store that keeps the ignore list in memory for the lifetime of
+ * the page.
+ */
+class InMemoryIgnoreStore implements IIgnoreStore {
+  constructor(private ignoreList: IIgnoreList = { ruleIds: [], words: [] }) {}
+
+  public load = async () => this.ignoreList;
+
+  public save = async (ignoreList: IIgnoreList) => {
+    this.ignoreList = ignoreList;
+  };
+}
+
+export default InMemoryIgnoreStore;
@@ -0,0 +1,40 @@
+import { IIgnoreList, IIgnoreStore } from "../../interfaces/IIgnoreStore";
+
+const readList = (storage: Storage, key: string): string[] => {
+  try {
+    const list = JSON.parse(storage.getItem(key) || "[]");
+    return Array.isArray(list) ? list : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * An ignore store that persists the ignore list to localStorage. The
+ * dictionary is shared between documents, but ignored rules are stored
+ * against the given document id.
+ */
+class LocalStorageIgnoreStore implements IIgnoreStore {
+  constructor(
+    private documentId: string,
+    private keyPrefix = "prosemirror-typerighter",
+    private storage: Storage = window.localStorage
+  ) {}
+
+  public load = async (): Promise<IIgnoreList> => ({
+    ruleIds: readList(this.storage, this.getRuleIdsKey()),
+    words: readList(this.storage, this.getWordsKey())
+  });
+
+  public save = async ({ ruleIds, words }: IIgnoreList) => {
+    this.storage.setItem(this.getRuleIdsKey(), JSON.stringify(ruleIds));
+    this.storage.setItem(this.getWordsKey(), JSON.stringify(words));
+  };
+
+  private getRuleIdsKey = () =>
+    `${this.keyPrefix}:ignored-rules:${this.documentId}`;
+
+  private getWordsKey = () => `${this.keyPrefix}:dictionary`;
+}
+
+export default LocalStorageIgnoreStore;
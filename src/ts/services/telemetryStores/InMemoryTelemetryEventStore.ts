@@ -0,0 +1,33 @@
+import { ITelemetryEvent } from "../../interfaces/ITelemetryData";
+import {
+  IPersistedTelemetryEvents,
+  ITelemetryEventStore
+} from "../../interfaces/ITelemetryEventStore";
+import omit from "lodash/omit";
+
+/**
+ * A telemetry event store that keeps events in memory for the lifetime of
+ * the page.
+ */
+class InMemoryTelemetryEventStore<
+  TEvent extends ITelemetryEvent = ITelemetryEvent
+> implements ITelemetryEventStore<TEvent> {
+  constructor(
+    private pages: { [pageId: string]: IPersistedTelemetryEvents<TEvent> } = {}
+  ) {}
+
+  public load = async () => this.pages;
+
+  public save = async (
+    pageId: string,
+    persistedEvents: IPersistedTelemetryEvents<TEvent>
+  ) => {
+    this.pages = { ...this.pages, [pageId]: persistedEvents };
+  };
+
+  public remove = async (pageId: string) => {
+    this.pages = omit(this.pages, pageId);
+  };
+}
+
+export default InMemoryTelemetryEventStore;
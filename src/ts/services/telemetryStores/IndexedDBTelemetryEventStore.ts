@@ -0,0 +1,71 @@
+import { ITelemetryEvent } from "../../interfaces/ITelemetryData";
+import {
+  IPersistedTelemetryEvents,
+  ITelemetryEventStore
+} from "../../interfaces/ITelemetryEventStore";
+
+const OBJECT_STORE_NAME = "events";
+
+const promisifyRequest = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * A telemetry event store that persists events to IndexedDB, for buffers
+ * too large to keep comfortably in localStorage. Each page's events are
+ * kept under its page id.
+ */
+class IndexedDBTelemetryEventStore<
+  TEvent extends ITelemetryEvent = ITelemetryEvent
+> implements ITelemetryEventStore<TEvent> {
+  private db: Promise<IDBDatabase> | undefined;
+
+  constructor(private dbName = "prosemirror-typerighter-telemetry") {}
+
+  public load = async () => {
+    const store = await this.getObjectStore("readonly");
+    const [pageIds, entries] = await Promise.all([
+      promisifyRequest(store.getAllKeys()),
+      promisifyRequest(store.getAll())
+    ]);
+    return pageIds.reduce(
+      (acc, pageId, index) => ({ ...acc, [String(pageId)]: entries[index] }),
+      {} as { [pageId: string]: IPersistedTelemetryEvents<TEvent> }
+    );
+  };
+
+  public save = async (
+    pageId: string,
+    persistedEvents: IPersistedTelemetryEvents<TEvent>
+  ) => {
+    const store = await this.getObjectStore("readwrite");
+    await promisifyRequest(store.put(persistedEvents, pageId));
+  };
+
+  public remove = async (pageId: string) => {
+    const store = await this.getObjectStore("readwrite");
+    await promisifyRequest(store.delete(pageId));
+  };
+
+  private getObjectStore = async (mode: IDBTransactionMode) => {
+    const db = await this.openDb();
+    return db
+      .transaction(OBJECT_STORE_NAME, mode)
+      .objectStore(OBJECT_STORE_NAME);
+  };
+
+  private openDb = () => {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE_NAME);
+      };
+      this.db = promisifyRequest(request);
+    }
+    return this.db;
+  };
+}
+
+export default IndexedDBTelemetryEventStore;
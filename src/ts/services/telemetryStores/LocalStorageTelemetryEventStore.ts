@@ -0,0 +1,64 @@
+import { ITelemetryEvent } from "../../interfaces/ITelemetryData";
+import {
+  IPersistedTelemetryEvents,
+  ITelemetryEventStore
+} from "../../interfaces/ITelemetryEventStore";
+
+/**
+ * A telemetry event store that persists events to localStorage, keeping
+ * each page's events under their own key.
+ */
+class LocalStorageTelemetryEventStore<
+  TEvent extends ITelemetryEvent = ITelemetryEvent
+> implements ITelemetryEventStore<TEvent> {
+  constructor(
+    private keyPrefix = "prosemirror-typerighter:telemetry-events",
+    private storage: Storage = window.localStorage
+  ) {}
+
+  public load = async () => {
+    const pages: { [pageId: string]: IPersistedTelemetryEvents<TEvent> } = {};
+    const prefix = `${this.keyPrefix}:`;
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key && key.startsWith(prefix)) {
+        const persistedEvents = this.parse(this.storage.getItem(key));
+        if (persistedEvents) {
+          pages[key.slice(prefix.length)] = persistedEvents;
+        }
+      }
+    }
+    return pages;
+  };
+
+  public save = async (
+    pageId: string,
+    persistedEvents: IPersistedTelemetryEvents<TEvent>
+  ) => {
+    this.storage.setItem(this.getKey(pageId), JSON.stringify(persistedEvents));
+  };
+
+  public remove = async (pageId: string) => {
+    this.storage.removeItem(this.getKey(pageId));
+  };
+
+  private getKey = (pageId: string) => `${this.keyPrefix}:${pageId}`;
+
+  /**
+   * Parse a persisted entry, treating malformed entries as absent.
+   */
+  private parse = (
+    value: string | null
+  ): IPersistedTelemetryEvents<TEvent> | undefined => {
+    try {
+      const persistedEvents = JSON.parse(value || "null");
+      return persistedEvents && Array.isArray(persistedEvents.events)
+        ? persistedEvents
+        : undefined;
+    } catch (e) {
+      return undefined;
+    }
+  };
+}
+
+export default LocalStorageTelemetryEventStore;
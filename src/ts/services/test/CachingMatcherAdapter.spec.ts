@@ -0,0 +1,295 @@
+import CachingMatcherAdapter, {
+  createCacheKey
+} from "../adapters/CachingMatcherAdapter";
+import InMemoryMatchCacheStore from "../adapters/cacheStores/InMemoryMatchCacheStore";
+import { IBlock, IMatcherResponse } from "../../interfaces/IMatch";
+import { IMatcherAdapter } from "../../interfaces/IMatcherAdapter";
+import { createMatch } from "../../test/helpers/fixtures";
+
+jest.mock("uuid", () => ({ v4: () => "new-id" }));
+
+const firstBlock: IBlock = {
+  id: "0-from:0-to:10",
+  from: 0,
+  to: 10,
+  text: "1234567890"
+};
+const movedBlock: IBlock = {
+  id: "0-from:20-to:30",
+  from: 20,
+  to: 30,
+  text: "1234567890"
+};
+const categoryIds = ["cat-1"];
+
+/**
+ * An adapter that finds a match two characters into every block.
+ */
+const createMockAdapter = (): IMatcherAdapter => ({
+  fetchMatches: jest.fn(
+    (
+      requestId,
+      blocks: IBlock[],
+      requestCategoryIds,
+      onMatchesReceived,
+      _,
+      onRequestComplete
+    ) => {
+      onMatchesReceived({
+        requestId,
+        categoryIds: requestCategoryIds,
+        blocks,
+        matches: blocks.map(block => createMatch(block.from + 2))
+      });
+      onRequestComplete(requestId);
+    }
+  ),
+  fetchCategories: jest.fn(),
+  cancelRequest: jest.fn()
+});
+
+const fetchMatches = (
+  adapter: IMatcherAdapter,
+  blocks: IBlock[],
+  requestCategoryIds = categoryIds
+) =>
+  new Promise<IMatcherResponse[]>(resolve => {
+    const responses: IMatcherResponse[] = [];
+    adapter.fetchMatches(
+      "set-id",
+      blocks,
+      requestCategoryIds,
+      response => responses.push(response),
+      jest.fn(),
+      () => resolve(responses)
+    );
+  });
+
+// Let the cache's writes settle.
+const flushPromises = () => new Promise(resolve => setTimeout(resolve));
+
+describe("CachingMatcherAdapter", () => {
+  it("should fetch uncached blocks from the adapter it wraps", async () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    const responses = await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(1);
+    expect(responses[0].matches[0]).toMatchObject({ from: 2, to: 5 });
+  });
+
+  it("should serve repeated text from the cache, rebasing matches onto the block's position", async () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    const responses = await fetchMatches(adapter, [movedBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(1);
+    expect(responses).toEqual([
+      {
+        requestId: "set-id",
+        categoryIds,
+        blocks: [movedBlock],
+        matches: [{ ...createMatch(22), matchId: "new-id" }]
+      }
+    ]);
+  });
+
+  it("should only send the blocks we haven't cached", async () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+    const otherBlock = { ...movedBlock, text: "Other text" };
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [firstBlock, otherBlock]);
+
+    expect((innerAdapter.fetchMatches as jest.Mock).mock.calls[1][1]).toEqual([
+      otherBlock
+    ]);
+  });
+
+  it("should key the cache on the categories as well as the text", async () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [firstBlock], ["cat-2"]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(2);
+    expect(createCacheKey(firstBlock, ["a", "b"])).toBe(
+      createCacheKey(firstBlock, ["b", "a"])
+    );
+  });
+
+  it("should not cache blocks that fail", async () => {
+    const innerAdapter: IMatcherAdapter = {
+      ...createMockAdapter(),
+      fetchMatches: jest.fn(
+        (requestId, blocks, _, __, onRequestError, onRequestComplete) => {
+          onRequestError({
+            requestId,
+            blockId: blocks[0].id,
+            categoryIds: [],
+            message: "Something went wrong"
+          });
+          onRequestComplete(requestId);
+        }
+      )
+    };
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache any blocks when the request fails as a whole", async () => {
+    const innerAdapter: IMatcherAdapter = {
+      ...createMockAdapter(),
+      fetchMatches: jest.fn(
+        (
+          requestId,
+          blocks,
+          requestCategoryIds,
+          onMatchesReceived,
+          onRequestError,
+          onRequestComplete
+        ) => {
+          onMatchesReceived({
+            requestId,
+            categoryIds: requestCategoryIds,
+            blocks,
+            matches: []
+          });
+          onRequestError({
+            requestId,
+            categoryIds: [],
+            message: "Something went wrong"
+          });
+          onRequestComplete(requestId);
+        }
+      )
+    };
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cache blocks from adapters that don't report completion", async () => {
+    const innerAdapter: IMatcherAdapter = {
+      ...createMockAdapter(),
+      fetchMatches: jest.fn(
+        (requestId, blocks, requestCategoryIds, onMatchesReceived) =>
+          onMatchesReceived({
+            requestId,
+            categoryIds: requestCategoryIds,
+            blocks,
+            matches: []
+          })
+      )
+    };
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    const responses = await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(1);
+    expect(responses[0].blocks).toEqual([firstBlock]);
+  });
+
+  it("should not cache blocks we hadn't heard back about when a request is cancelled", async () => {
+    const otherBlock = { ...movedBlock, text: "Other text" };
+    const innerAdapter: IMatcherAdapter = {
+      ...createMockAdapter(),
+      fetchMatches: jest.fn(
+        (requestId, blocks, requestCategoryIds, onMatchesReceived) =>
+          onMatchesReceived({
+            requestId,
+            categoryIds: requestCategoryIds,
+            blocks: blocks.slice(0, 1),
+            matches: []
+          })
+      )
+    };
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    fetchMatches(adapter, [firstBlock, otherBlock]);
+    await flushPromises();
+    adapter.cancelRequest("set-id");
+    fetchMatches(adapter, [firstBlock, otherBlock]);
+    await flushPromises();
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(2);
+    expect((innerAdapter.fetchMatches as jest.Mock).mock.calls[1][1]).toEqual([
+      otherBlock
+    ]);
+  });
+
+  it("should expire entries once they're older than the TTL", async () => {
+    const innerAdapter = createMockAdapter();
+    const store = new InMemoryMatchCacheStore();
+    const adapter = new CachingMatcherAdapter(innerAdapter, {
+      store,
+      ttl: 1000
+    });
+    await store.set(createCacheKey(firstBlock, categoryIds), {
+      matches: [],
+      createdAt: Date.now() - 1001,
+      lastUsedAt: Date.now() - 1001
+    });
+
+    await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(1);
+  });
+
+  it("should evict the least recently used entries beyond the maximum size", async () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter, { maxSize: 1 });
+    const otherBlock = { ...firstBlock, text: "Other text" };
+
+    await fetchMatches(adapter, [firstBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [otherBlock]);
+    await flushPromises();
+    await fetchMatches(adapter, [firstBlock]);
+
+    expect(innerAdapter.fetchMatches).toHaveBeenCalledTimes(3);
+  });
+
+  it("should pass cancellations on to the adapter it wraps", () => {
+    const innerAdapter = createMockAdapter();
+    const adapter = new CachingMatcherAdapter(innerAdapter);
+
+    adapter.cancelRequest("set-id");
+
+    expect(innerAdapter.cancelRequest).toHaveBeenCalledWith("set-id");
+  });
+});
+
+describe("InMemoryMatchCacheStore", () => {
+  it("should prune the least recently used entries first", async () => {
+    const store = new InMemoryMatchCacheStore();
+    const entry = { matches: [], createdAt: 0, lastUsedAt: 0 };
+    await store.set("a", entry);
+    await store.set("b", entry);
+    await store.set("a", entry);
+
+    await store.prune(1);
+
+    expect(await store.get("a")).toEqual(entry);
+    expect(await store.get("b")).toBe(undefined);
+  });
+});
@@ -0,0 +1,309 @@
+import fetchMock from "fetch-mock";
+import CompositeMatcherAdapter from "../adapters/CompositeMatcherAdapter";
+import TyperighterAdapter from "../adapters/TyperighterAdapter";
+import { IBlock, IMatch, IMatcherResponse } from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TMatchesReceivedCallback,
+  TRequestErrorCallback,
+  TRequestCompleteCallback
+} from "../../interfaces/IMatcherAdapter";
+
+const requestId = "set-id";
+
+const blocks: IBlock[] = [
+  { id: "0-from:0-to:10", from: 0, to: 10, text: "1234567890" },
+  { id: "0-from:20-to:30", from: 20, to: 30, text: "1234567890" }
+];
+
+const createMatch = (from: number, categoryId: string): IMatch => ({
+  matcherType: "regex",
+  matchId: `${categoryId}-${from}`,
+  from,
+  to: from + 2,
+  ruleId: "rule",
+  matchedText: "12",
+  message: "Example message",
+  category: { id: categoryId, name: categoryId, colour: "eee" },
+  matchContext: "[[12]]34567890",
+  precedingText: "",
+  subsequentText: "34567890"
+});
+
+interface IFetchMatchesCall {
+  categoryIds: string[];
+  onMatchesReceived: TMatchesReceivedCallback;
+  onRequestError: TRequestErrorCallback;
+  onRequestComplete: TRequestCompleteCallback;
+}
+
+/**
+ * An adapter that records its calls, so tests can respond to them
+ * in whichever order they like.
+ */
+const createMockAdapter = (categoryIds: string[]) => {
+  const calls: IFetchMatchesCall[] = [];
+  const adapter: IMatcherAdapter = {
+    fetchMatches: (
+      _,
+      __,
+      requestCategoryIds,
+      onMatchesReceived,
+      onRequestError,
+      onRequestComplete
+    ) => {
+      calls.push({
+        categoryIds: requestCategoryIds,
+        onMatchesReceived,
+        onRequestError,
+        onRequestComplete
+      });
+    },
+    fetchCategories: async () =>
+      categoryIds.map(id => ({ id, name: id, colour: "eee" }))
+  };
+  return { adapter, calls };
+};
+
+const createResponse = (
+  responseBlocks: IBlock[],
+  matches: IMatch[],
+  categoryIds: string[] = []
+): IMatcherResponse => ({
+  requestId,
+  blocks: responseBlocks,
+  categoryIds,
+  matches
+});
+
+const createCompositeAdapter = () => {
+  const first = createMockAdapter(["spelling"]);
+  const second = createMockAdapter(["style"]);
+  const adapter = new CompositeMatcherAdapter([
+    { id: "first", adapter: first.adapter },
+    { id: "second", adapter: second.adapter }
+  ]);
+  const callbacks = {
+    onMatchesReceived: jest.fn(),
+    onRequestError: jest.fn(),
+    onRequestComplete: jest.fn()
+  };
+  const fetchMatches = (categoryIds: string[] = []) =>
+    adapter.fetchMatches(
+      requestId,
+      blocks,
+      categoryIds,
+      callbacks.onMatchesReceived,
+      callbacks.onRequestError,
+      callbacks.onRequestComplete
+    );
+  return { adapter, first, second, callbacks, fetchMatches };
+};
+
+describe("CompositeMatcherAdapter", () => {
+  describe("fetchCategories", () => {
+    it("should namespace the categories of each adapter", async () => {
+      const { adapter } = createCompositeAdapter();
+      const categories = await adapter.fetchCategories();
+      expect(categories.map(_ => _.id)).toEqual([
+        "first:spelling",
+        "second:style"
+      ]);
+    });
+  });
+
+  describe("fetchMatches", () => {
+    it("should send each adapter the categories it provides, without their namespace", () => {
+      const { first, second, fetchMatches } = createCompositeAdapter();
+      fetchMatches(["first:spelling", "second:style"]);
+      expect(first.calls[0].categoryIds).toEqual(["spelling"]);
+      expect(second.calls[0].categoryIds).toEqual(["style"]);
+    });
+
+    it("should not ask adapters that provide none of the requested categories", () => {
+      const { first, second, fetchMatches } = createCompositeAdapter();
+      fetchMatches(["second:style"]);
+      expect(first.calls.length).toBe(0);
+      expect(second.calls.length).toBe(1);
+    });
+
+    it("should merge matches for a block once every adapter has responded for it", () => {
+      const {
+        first,
+        second,
+        callbacks,
+        fetchMatches
+      } = createCompositeAdapter();
+      fetchMatches(["first:spelling", "second:style"]);
+
+      first.calls[0].onMatchesReceived(
+        createResponse(blocks, [createMatch(0, "spelling")], ["spelling"])
+      );
+      expect(callbacks.onMatchesReceived).not.toHaveBeenCalled();
+
+      second.calls[0].onMatchesReceived(
+        createResponse([blocks[0]], [createMatch(2, "style")], ["style"])
+      );
+      expect(callbacks.onMatchesReceived.mock.calls).toEqual([
+        [
+          createResponse(
+            [blocks[0]],
+            [
+              {
+                ...createMatch(0, "spelling"),
+                category: {
+                  id: "first:spelling",
+                  name: "spelling",
+                  colour: "eee"
+                }
+              },
+              {
+                ...createMatch(2, "style"),
+                category: { id: "second:style", name: "style", colour: "eee" }
+              }
+            ],
+            ["first:spelling", "second:style"]
+          )
+        ]
+      ]);
+      expect(callbacks.onRequestComplete).not.toHaveBeenCalled();
+
+      second.calls[0].onMatchesReceived(
+        createResponse([blocks[1]], [], ["style"])
+      );
+      expect(callbacks.onMatchesReceived.mock.calls[1][0].blocks).toEqual([
+        blocks[1]
+      ]);
+      expect(callbacks.onRequestComplete.mock.calls).toEqual([[requestId]]);
+    });
+
+    it("should wait for every category an adapter was asked for", () => {
+      const {
+        first,
+        second,
+        callbacks,
+        fetchMatches
+      } = createCompositeAdapter();
+      fetchMatches(["first:spelling", "first:grammar", "second:style"]);
+
+      first.calls[0].onMatchesReceived(
+        createResponse(blocks, [createMatch(0, "spelling")], ["spelling"])
+      );
+      second.calls[0].onMatchesReceived(createResponse(blocks, [], ["style"]));
+      expect(callbacks.onMatchesReceived).not.toHaveBeenCalled();
+
+      first.calls[0].onMatchesReceived(
+        createResponse(blocks, [createMatch(4, "grammar")], ["grammar"])
+      );
+      expect(
+        callbacks.onMatchesReceived.mock.calls[0][0].matches.map(
+          (_: IMatch) => _.category.id
+        )
+      ).toEqual(["first:spelling", "first:grammar"]);
+      expect(callbacks.onRequestComplete.mock.calls).toEqual([[requestId]]);
+    });
+
+    it("should report matches before errors when some adapters fail for a block", () => {
+      const {
+        first,
+        second,
+        callbacks,
+        fetchMatches
+      } = createCompositeAdapter();
+      fetchMatches(["first:spelling", "second:style"]);
+
+      first.calls[0].onMatchesReceived(
+        createResponse(blocks, [createMatch(0, "spelling")], ["spelling"])
+      );
+      second.calls[0].onRequestError({
+        requestId,
+        blockId: blocks[0].id,
+        categoryIds: ["style"],
+        message: "Something went wrong"
+      });
+
+      expect(callbacks.onMatchesReceived.mock.calls[0][0].matches.length).toBe(
+        1
+      );
+      expect(callbacks.onRequestError.mock.calls).toEqual([
+        [
+          {
+            requestId,
+            blockId: blocks[0].id,
+            categoryIds: ["second:style"],
+            message: "Something went wrong"
+          }
+        ]
+      ]);
+    });
+
+    it("should wait for adapters to complete when we didn't ask for specific categories", () => {
+      const {
+        first,
+        second,
+        callbacks,
+        fetchMatches
+      } = createCompositeAdapter();
+      fetchMatches();
+
+      first.calls[0].onMatchesReceived(createResponse(blocks, []));
+      second.calls[0].onRequestComplete(requestId);
+      expect(callbacks.onMatchesReceived).not.toHaveBeenCalled();
+
+      // Later responses for a block we've heard about aren't lost.
+      first.calls[0].onMatchesReceived(
+        createResponse([blocks[0]], [createMatch(0, "spelling")])
+      );
+      first.calls[0].onRequestComplete(requestId);
+
+      const [[response]] = callbacks.onMatchesReceived.mock.calls;
+      expect(response.blocks).toEqual(blocks);
+      expect(response.matches.length).toBe(1);
+      expect(callbacks.onRequestComplete.mock.calls).toEqual([[requestId]]);
+    });
+
+    it("should complete requests to adapters that report completion once their fetches settle", async () => {
+      const endpoint = "http://typerighter-service-endpoint.rad";
+      fetchMock.post(
+        `${endpoint}/check`,
+        (_: string, { body }: RequestInit) => ({
+          requestId,
+          categoryIds: [],
+          blocks: JSON.parse(body as string).blocks,
+          matches: []
+        })
+      );
+      const other = createMockAdapter(["style"]);
+      const adapter = new CompositeMatcherAdapter([
+        { id: "typerighter", adapter: new TyperighterAdapter(endpoint, 0) },
+        { id: "other", adapter: other.adapter }
+      ]);
+      const onMatchesReceived = jest.fn();
+      const complete = new Promise(resolve =>
+        adapter.fetchMatches(
+          requestId,
+          blocks,
+          [],
+          onMatchesReceived,
+          jest.fn(),
+          resolve
+        )
+      );
+      other.calls[0].onRequestComplete(requestId);
+
+      expect(await complete).toBe(requestId);
+      const receivedBlocks = onMatchesReceived.mock.calls.flatMap(
+        ([response]) => response.blocks
+      );
+      expect(receivedBlocks).toEqual(blocks);
+      fetchMock.reset();
+    });
+
+    it("should complete immediately if no adapter provides the requested categories", () => {
+      const { callbacks, fetchMatches } = createCompositeAdapter();
+      fetchMatches(["third:grammar"]);
+      expect(callbacks.onMatchesReceived).not.toHaveBeenCalled();
+      expect(callbacks.onRequestComplete.mock.calls).toEqual([[requestId]]);
+    });
+  });
+});
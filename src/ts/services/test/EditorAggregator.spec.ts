@@ -0,0 +1,103 @@
+import EditorAggregator from "../EditorAggregator";
+import { createEditor } from "../../test/helpers/createEditor";
+import { createMatch } from "../../test/helpers/fixtures";
+
+const createAggregatedEditor = (
+  label: string,
+  html: string,
+  from: number,
+  to: number
+) => {
+  const match = createMatch(from, to, [
+    { text: "N/A", type: "TEXT_SUGGESTION" }
+  ]);
+  const {
+    view,
+    store,
+    commands,
+    matcherService,
+    editorElement
+  } = createEditor(html, [match]);
+  // The store receives the plugin state when the view next updates.
+  view.dispatch(view.state.tr);
+  return {
+    match,
+    view,
+    editor: {
+      label,
+      store,
+      commands,
+      matcherService,
+      editorScrollElement: editorElement
+    }
+  };
+};
+
+describe("EditorAggregator", () => {
+  it("should route commands for a match to the editor that owns it", () => {
+    const aggregator = new EditorAggregator();
+    const headline = createAggregatedEditor(
+      "Headline",
+      "<p>A headline</p>",
+      1,
+      2
+    );
+    const body = createAggregatedEditor("Body", "<p>Some body text</p>", 6, 10);
+    aggregator.register(headline.editor);
+    aggregator.register(body.editor);
+
+    aggregator.selectMatch(body.match.matchId);
+    expect(body.editor.store.getState()!.selectedMatch).toBe(
+      body.match.matchId
+    );
+    expect(headline.editor.store.getState()!.selectedMatch).toBe(undefined);
+
+    aggregator.applySuggestions([
+      { matchId: body.match.matchId, text: "BODY" }
+    ]);
+    expect(body.view.state.doc.textContent).toBe("Some BODY text");
+    expect(headline.view.state.doc.textContent).toBe("A headline");
+  });
+
+  it("should apply the same filter state to every editor", () => {
+    const aggregator = new EditorAggregator();
+    const headline = createAggregatedEditor(
+      "Headline",
+      "<p>A headline</p>",
+      1,
+      2
+    );
+    const body = createAggregatedEditor("Body", "<p>Some body text</p>", 6, 10);
+    aggregator.register(headline.editor);
+    aggregator.register(body.editor);
+
+    aggregator.setFilterState(["HAS_REPLACEMENT"]);
+
+    expect(
+      aggregator.getEditorStates().map(({ state }) => state!.filterState)
+    ).toEqual([["HAS_REPLACEMENT"], ["HAS_REPLACEMENT"]]);
+  });
+
+  it("should notify listeners when any editor's state changes, until it's removed", () => {
+    const aggregator = new EditorAggregator();
+    const headline = createAggregatedEditor(
+      "Headline",
+      "<p>A headline</p>",
+      1,
+      2
+    );
+    const unregister = aggregator.register(headline.editor);
+    const listener = jest.fn();
+    aggregator.on(listener);
+
+    headline.editor.commands.clearMatches();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0][0].editor.label).toBe("Headline");
+    expect(listener.mock.calls[0][0][0].state.currentMatches).toEqual([]);
+
+    unregister();
+    expect(listener.mock.calls[1][0]).toEqual([]);
+    headline.editor.commands.selectMatch(headline.match.matchId);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
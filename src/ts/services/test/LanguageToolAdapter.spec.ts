@@ -0,0 +1,223 @@
+import fetchMock from "fetch-mock";
+import LanguageToolAdapter, {
+  convertLanguageToolResponse,
+  defaultLanguageToolCategories
+} from "../adapters/LanguageToolAdapter";
+import { ILTResponse } from "../adapters/interfaces/ILanguageTool";
+import { IMatchRequestError } from "../../interfaces/IMatch";
+
+jest.mock("uuid", () => ({ v4: () => "id" }));
+
+const endpoint = "http://languagetool-endpoint.rad/v2";
+
+const block = {
+  id: "0-from:10-to:31",
+  from: 10,
+  to: 31,
+  text: "This is an exampel text"
+};
+
+const createResponse = (): ILTResponse => ({
+  language: {},
+  software: {},
+  warnings: {},
+  matches: [
+    {
+      offset: 11,
+      length: 7,
+      message: "Possible spelling mistake found.",
+      shortMessage: "Spelling mistake",
+      replacements: [{ value: "example" }, { value: "examples" }],
+      context: {
+        text: "This is an exampel text",
+        offset: 11,
+        length: 7
+      },
+      sentence: "This is an exampel text",
+      type: { typeName: "Other" },
+      rule: {
+        id: "MORFOLOGIK_RULE_EN_GB",
+        description: "Possible spelling mistake",
+        issueType: "misspelling",
+        category: { id: "TYPOS", name: "Possible Typo" }
+      }
+    }
+  ]
+});
+
+const getLastRequestBody = () => {
+  const [, request] = fetchMock.lastCall()!;
+  return new URLSearchParams(request!.body!.toString());
+};
+
+describe("LanguageToolAdapter", () => {
+  afterEach(() => {
+    fetchMock.reset();
+  });
+
+  describe("convertLanguageToolResponse", () => {
+    it("should offset matches by the position of their block", () => {
+      const { matches } = convertLanguageToolResponse(
+        "set-id",
+        block,
+        [],
+        createResponse()
+      );
+      expect(matches[0]).toMatchObject({
+        from: 21,
+        to: 28,
+        matchedText: "exampel",
+        ruleId: "MORFOLOGIK_RULE_EN_GB",
+        matcherType: "languageTool",
+        message: "Possible spelling mistake found.",
+        precedingText: "This is an ",
+        subsequentText: " text",
+        matchContext: "This is an [[exampel]] text"
+      });
+    });
+    it("should convert replacements into suggestions", () => {
+      const { matches } = convertLanguageToolResponse(
+        "set-id",
+        block,
+        [],
+        createResponse()
+      );
+      expect(matches[0].suggestions).toEqual([
+        { type: "TEXT_SUGGESTION", text: "example" },
+        { type: "TEXT_SUGGESTION", text: "examples" }
+      ]);
+    });
+    it("should keep the short message and the rule's details", () => {
+      const response = createResponse();
+      response.matches[0].rule.urls = [
+        { value: "https://languagetool.org/rules/MORFOLOGIK_RULE_EN_GB" }
+      ];
+      const { matches } = convertLanguageToolResponse(
+        "set-id",
+        block,
+        [],
+        response
+      );
+      expect(matches[0]).toMatchObject({
+        shortMessage: "Spelling mistake",
+        ruleDetails: {
+          description: "Possible spelling mistake",
+          issueType: "misspelling",
+          url: "https://languagetool.org/rules/MORFOLOGIK_RULE_EN_GB"
+        }
+      });
+    });
+    it("should convert rule categories, using the supplied colour if there is one", () => {
+      const { matches } = convertLanguageToolResponse(
+        "set-id",
+        block,
+        [],
+        createResponse(),
+        () => "#ff0000"
+      );
+      expect(matches[0].category).toEqual({
+        id: "TYPOS",
+        name: "Possible Typo",
+        colour: "#ff0000"
+      });
+    });
+  });
+
+  describe("fetchMatches", () => {
+    it("should post each block to the check endpoint, and report matches and completion", done => {
+      fetchMock.post(`${endpoint}/check`, createResponse());
+      const adapter = new LanguageToolAdapter(endpoint, "en-US");
+      const onMatchesReceived = jest.fn();
+      const onRequestError = jest.fn();
+
+      adapter.fetchMatches(
+        "set-id",
+        [block],
+        ["TYPOS"],
+        onMatchesReceived,
+        onRequestError,
+        requestId => {
+          const body = getLastRequestBody();
+          expect(body.get("text")).toBe(block.text);
+          expect(body.get("language")).toBe("en-US");
+          expect(body.get("enabledCategories")).toBe("TYPOS");
+          expect(body.get("enabledOnly")).toBe("true");
+          expect(requestId).toBe("set-id");
+          expect(onRequestError).not.toHaveBeenCalled();
+          expect(onMatchesReceived.mock.calls[0]).toEqual([
+            convertLanguageToolResponse(
+              "set-id",
+              block,
+              ["TYPOS"],
+              createResponse()
+            )
+          ]);
+          done();
+        }
+      );
+    });
+    it("should not restrict categories when none are given", done => {
+      fetchMock.post(`${endpoint}/check`, createResponse());
+      const adapter = new LanguageToolAdapter(endpoint);
+
+      adapter.fetchMatches("set-id", [block], [], jest.fn(), jest.fn(), () => {
+        const body = getLastRequestBody();
+        expect(body.get("enabledCategories")).toBe(null);
+        expect(body.get("enabledOnly")).toBe(null);
+        done();
+      });
+    });
+    it("should handle request errors", done => {
+      fetchMock.post(`${endpoint}/check`, 500);
+      const adapter = new LanguageToolAdapter(endpoint);
+      const onRequestError = jest.fn();
+
+      adapter.fetchMatches(
+        "set-id",
+        [block],
+        [],
+        jest.fn(),
+        onRequestError,
+        () => {
+          expect(onRequestError.mock.calls[0][0]).toEqual({
+            requestId: "set-id",
+            blockId: block.id,
+            message: "500: Internal Server Error",
+            categoryIds: [],
+            type: "GENERAL_ERROR"
+          } as IMatchRequestError);
+          done();
+        }
+      );
+    });
+  });
+
+  describe("fetchCategories", () => {
+    it("should include the default categories, and any categories seen in responses", async () => {
+      const response = createResponse();
+      response.matches[0].rule.category = {
+        id: "HOUSE_STYLE",
+        name: "House style"
+      };
+      fetchMock.post(`${endpoint}/check`, response);
+      const adapter = new LanguageToolAdapter(endpoint);
+
+      await adapter.fetchMatches(
+        "set-id",
+        [block],
+        [],
+        jest.fn(),
+        jest.fn(),
+        jest.fn()
+      );
+      const categories = await adapter.fetchCategories();
+
+      expect(categories.length).toBe(defaultLanguageToolCategories.length + 1);
+      expect(categories).toContainEqual({
+        id: "HOUSE_STYLE",
+        name: "House style",
+        colour: "#5f5e5e"
+      });
+    });
+  });
+});
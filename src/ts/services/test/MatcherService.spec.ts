@@ -6,7 +6,20 @@ import TyperighterAdapter, {
 } from "../adapters/TyperighterAdapter";
 import { ITypeRighterResponse } from "../adapters/interfaces/ITyperighter";
 import { createBlockId } from "../../utils/block";
-import { IMatchRequestError } from "../../interfaces/IMatch";
+import {
+  IMatcherResponse,
+  IMatchRequestError,
+  TErrorType
+} from "../../interfaces/IMatch";
+import {
+  IMatcherAdapter,
+  TConnectionStatus
+} from "../../interfaces/IMatcherAdapter";
+import {
+  createBlockQueriesInFlight,
+  createInitialData,
+  exampleRequestId
+} from "../../test/helpers/fixtures";
 
 const createResponse = (
   strs: string[],
@@ -60,6 +73,8 @@ const block = {
 const commands = {
   applyMatcherResponse: jest.fn(),
   applyRequestError: jest.fn(),
+  applyRequestComplete: jest.fn(),
+  setRetryState: jest.fn(),
   checkDirtyRangesCommand: jest.fn()
 };
 
@@ -122,6 +137,26 @@ describe("MatcherService", () => {
     });
   });
 
+  it("should expose the adapter's connection status in the plugin state", () => {
+    const setConnectionStatus = jest.fn();
+    let reportStatus: (status: TConnectionStatus) => void = () => undefined;
+    const adapter: IMatcherAdapter = {
+      fetchMatches: jest.fn(),
+      fetchCategories: jest.fn(),
+      onConnectionStatusChange: callback => (reportStatus = callback)
+    };
+    // tslint:disable-next-line:no-unused-expression
+    new MatcherService(
+      store,
+      { ...commands, setConnectionStatus } as any,
+      adapter
+    );
+
+    reportStatus("CONNECTED");
+
+    expect(setConnectionStatus).toHaveBeenCalledWith("CONNECTED");
+  });
+
   describe("handling skipRanges", () => {
     const blockText = "ABCDEF";
     const outgoingText = "BDF";
@@ -175,4 +210,454 @@ describe("MatcherService", () => {
       });
     });
   });
+
+  describe("cancelling superseded requests", () => {
+    const createStoreWithRequestInFlight = () => {
+      const { state } = createInitialData();
+      const storeWithRequest = new Store();
+      storeWithRequest.emit("STORE_EVENT_NEW_STATE", {
+        ...state,
+        dirtiedRanges: [{ from: 2, to: 3 }],
+        requestsInFlight: createBlockQueriesInFlight([block])
+      });
+      return storeWithRequest;
+    };
+    const createAdapter = (): IMatcherAdapter => ({
+      fetchMatches: jest.fn(),
+      fetchCategories: jest.fn(),
+      cancelRequest: jest.fn()
+    });
+
+    it("should cancel requests in flight for blocks that have since been dirtied, and request matches straight away", () => {
+      const storeWithRequest = createStoreWithRequestInFlight();
+      const adapter = createAdapter();
+      const commandsWithCancel = {
+        ...commands,
+        requestMatchesForDirtyRanges: jest.fn(),
+        // Mimic the reducer, which removes the request from the state.
+        applyRequestCancelled: jest.fn(() =>
+          storeWithRequest.emit("STORE_EVENT_NEW_STATE", {
+            ...storeWithRequest.getState()!,
+            requestsInFlight: {}
+          })
+        )
+      };
+      const service = new MatcherService(
+        storeWithRequest,
+        commandsWithCancel as any,
+        adapter
+      );
+
+      service.requestFetchMatches();
+
+      expect(adapter.cancelRequest).toHaveBeenCalledWith(exampleRequestId);
+      expect(commandsWithCancel.applyRequestCancelled).toHaveBeenCalledWith(
+        exampleRequestId
+      );
+      expect(commandsWithCancel.requestMatchesForDirtyRanges).toHaveBeenCalled();
+    });
+
+    it("should only drop the superseded blocks of requests that are still waiting on other blocks", () => {
+      const { state } = createInitialData();
+      const otherBlock = { ...block, from: 20, to: 30, id: "0-from:20-to:30" };
+      const storeWithRequest = new Store();
+      storeWithRequest.emit("STORE_EVENT_NEW_STATE", {
+        ...state,
+        dirtiedRanges: [{ from: 2, to: 3 }],
+        requestsInFlight: createBlockQueriesInFlight([block, otherBlock])
+      });
+      const adapter = createAdapter();
+      const commandsWithCancel = {
+        ...commands,
+        requestMatchesForDirtyRanges: jest.fn(),
+        // Mimic the reducer, which stops waiting on the cancelled block.
+        applyRequestCancelled: jest.fn(() =>
+          storeWithRequest.emit("STORE_EVENT_NEW_STATE", {
+            ...storeWithRequest.getState()!,
+            requestsInFlight: createBlockQueriesInFlight([otherBlock])
+          })
+        )
+      };
+      const service = new MatcherService(
+        storeWithRequest,
+        commandsWithCancel as any,
+        adapter
+      );
+
+      service.requestFetchMatches();
+
+      expect(adapter.cancelRequest).not.toHaveBeenCalled();
+      expect(commandsWithCancel.applyRequestCancelled).toHaveBeenCalledWith(
+        exampleRequestId,
+        [block.id]
+      );
+      expect(commandsWithCancel.requestMatchesForDirtyRanges).toHaveBeenCalled();
+    });
+
+    it("should let requests run to completion if the adapter can't cancel them", () => {
+      const storeWithRequest = createStoreWithRequestInFlight();
+      const adapter = { ...createAdapter(), cancelRequest: undefined };
+      const commandsWithCancel = {
+        ...commands,
+        requestMatchesForDirtyRanges: jest.fn(),
+        applyRequestCancelled: jest.fn()
+      };
+      const service = new MatcherService(
+        storeWithRequest,
+        commandsWithCancel as any,
+        adapter
+      );
+
+      service.requestFetchMatches();
+
+      expect(commandsWithCancel.applyRequestCancelled).not.toHaveBeenCalled();
+      expect(
+        commandsWithCancel.requestMatchesForDirtyRanges
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("retrying failed requests", () => {
+    const createStoreWithState = () => {
+      const storeWithState = new Store();
+      storeWithState.emit(
+        "STORE_EVENT_NEW_STATE",
+        createInitialData().state
+      );
+      return storeWithState;
+    };
+    const createFailingAdapter = (
+      type: TErrorType = "GENERAL_ERROR"
+    ): IMatcherAdapter => ({
+      fetchMatches: jest.fn((id, blocks, categoryIds, _, onRequestError) =>
+        onRequestError({
+          requestId: id,
+          blockId: blocks[0].id,
+          categoryIds,
+          message: "Something went wrong",
+          type
+        })
+      ),
+      fetchCategories: jest.fn()
+    });
+    const createCommands = () => ({
+      ...commands,
+      requestMatchesForDirtyRanges: jest.fn(),
+      setRetryState: jest.fn()
+    });
+    const createService = (
+      adapter: IMatcherAdapter,
+      serviceCommands: ReturnType<typeof createCommands>,
+      retryPolicy = {},
+      storeWithState = createStoreWithState()
+    ) =>
+      new MatcherService(
+        storeWithState,
+        serviceCommands as any,
+        adapter,
+        undefined,
+        1000,
+        { jitter: 0, ...retryPolicy }
+      );
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should retry failed blocks with exponential backoff, exposing the retry state", () => {
+      const serviceCommands = createCommands();
+      const service = createService(createFailingAdapter(), serviceCommands);
+
+      service.fetchMatches("request-1", [block]);
+      expect(serviceCommands.setRetryState).toHaveBeenLastCalledWith({
+        attempt: 1,
+        nextAttemptTime: expect.any(Number)
+      });
+      jest.advanceTimersByTime(999);
+      expect(serviceCommands.requestMatchesForDirtyRanges).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+
+      service.fetchMatches("request-2", [block]);
+      expect(serviceCommands.setRetryState).toHaveBeenLastCalledWith({
+        attempt: 2,
+        nextAttemptTime: expect.any(Number)
+      });
+      jest.advanceTimersByTime(1999);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(1);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only count each failed request once", () => {
+      const serviceCommands = createCommands();
+      const service = createService(createFailingAdapter(), serviceCommands);
+
+      service.fetchMatches("request-1", [block, { ...block, id: "block-2" }]);
+      service.fetchMatches("request-1", [block]);
+
+      expect(serviceCommands.setRetryState).toHaveBeenCalledTimes(1);
+    });
+
+    it("should give up once it has made the maximum number of attempts", () => {
+      const serviceCommands = createCommands();
+      const service = createService(createFailingAdapter(), serviceCommands, {
+        maxAttempts: 1
+      });
+
+      service.fetchMatches("request-1", [block]);
+      jest.advanceTimersByTime(1000);
+      service.fetchMatches("request-2", [block]);
+      jest.advanceTimersByTime(10000);
+
+      expect(serviceCommands.setRetryState).toHaveBeenLastCalledWith(undefined);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stay given up until a new edit asks for a check", () => {
+      const serviceCommands = createCommands();
+      const storeWithState = createStoreWithState();
+      const service = createService(
+        createFailingAdapter(),
+        serviceCommands,
+        { maxAttempts: 1 },
+        storeWithState
+      );
+
+      service.fetchMatches("request-1", [block]);
+      jest.advanceTimersByTime(1000);
+      service.fetchMatches("request-2", [block, { ...block, id: "block-2" }]);
+      service.fetchMatches("request-3", [block]);
+      jest.advanceTimersByTime(10000);
+
+      expect(serviceCommands.setRetryState).toHaveBeenCalledTimes(2);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+
+      storeWithState.emit("STORE_EVENT_DOCUMENT_DIRTIED");
+      jest.advanceTimersByTime(1000);
+
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(2);
+    });
+
+    it("should wait for the backoff delay, even if a request is already scheduled", () => {
+      const serviceCommands = createCommands();
+      const storeWithState = createStoreWithState();
+      const service = createService(
+        createFailingAdapter(),
+        serviceCommands,
+        {},
+        storeWithState
+      );
+
+      service.fetchMatches("request-1", [block]);
+      jest.advanceTimersByTime(1000);
+      storeWithState.emit("STORE_EVENT_DOCUMENT_DIRTIED");
+      jest.advanceTimersByTime(500);
+      service.fetchMatches("request-2", [block]);
+      jest.advanceTimersByTime(1999);
+
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+      jest.advanceTimersByTime(1);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry errors that aren't retryable", () => {
+      const serviceCommands = createCommands();
+      const service = createService(
+        createFailingAdapter("AUTH_ERROR"),
+        serviceCommands
+      );
+
+      service.fetchMatches("request-1", [block]);
+      jest.advanceTimersByTime(10000);
+
+      expect(serviceCommands.setRetryState).not.toHaveBeenCalled();
+      expect(serviceCommands.requestMatchesForDirtyRanges).not.toHaveBeenCalled();
+    });
+
+    it("should reset the throttle and retry state after a successful response", () => {
+      const serviceCommands = createCommands();
+      const adapter = createFailingAdapter();
+      const service = createService(adapter, serviceCommands);
+
+      service.fetchMatches("request-1", [block]);
+      service.fetchMatches("request-2", [block]);
+      (adapter.fetchMatches as jest.Mock).mockImplementationOnce(
+        (id, _, categoryIds, onMatchesReceived) =>
+          onMatchesReceived({ requestId: id, categoryIds, blocks: [], matches: [] })
+      );
+      service.fetchMatches("request-3", [block]);
+      expect(serviceCommands.setRetryState).toHaveBeenLastCalledWith(undefined);
+
+      jest.advanceTimersByTime(10000);
+      serviceCommands.requestMatchesForDirtyRanges.mockClear();
+      service.fetchMatches("request-4", [block]);
+      expect(serviceCommands.setRetryState).toHaveBeenLastCalledWith({
+        attempt: 1,
+        nextAttemptTime: expect.any(Number)
+      });
+      jest.advanceTimersByTime(1000);
+      expect(serviceCommands.requestMatchesForDirtyRanges).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("telemetry", () => {
+    const createService = (adapter: IMatcherAdapter) => {
+      const storeWithState = new Store();
+      storeWithState.emit("STORE_EVENT_NEW_STATE", createInitialData().state);
+      const telemetryAdapter = {
+        matchesFound: jest.fn(),
+        checkCompleted: jest.fn()
+      };
+      const service = new MatcherService(
+        storeWithState,
+        { ...commands, requestMatchesForDirtyRanges: jest.fn() } as any,
+        adapter,
+        telemetryAdapter as any
+      );
+      return { service, telemetryAdapter };
+    };
+
+    it("should send the telemetry for a check once its blocks have settled, even if the adapter doesn't complete it", () => {
+      const { service, telemetryAdapter } = createService({
+        fetchMatches: jest.fn(
+          (id, blocks, categoryIds, onMatchesReceived, onRequestError) => {
+            onMatchesReceived({
+              requestId: id,
+              categoryIds,
+              blocks: blocks.slice(0, 1),
+              matches: []
+            });
+            onRequestError({
+              requestId: id,
+              blockId: blocks[1].id,
+              categoryIds,
+              message: "Something went wrong"
+            });
+          }
+        ),
+        fetchCategories: jest.fn()
+      });
+
+      service.fetchMatches(requestId, [block, { ...block, id: "block-2" }]);
+
+      expect(telemetryAdapter.checkCompleted).toHaveBeenCalledWith(requestId);
+    });
+  });
+
+  describe("TyperighterAdapter", () => {
+    it("should not report anything for a request once it's cancelled", done => {
+      const adapter = new TyperighterAdapter(endpoint);
+      const response = createResponse(["1234567890"]);
+      fetchMock.post(
+        `${endpoint}/check`,
+        new Promise(resolve => setTimeout(() => resolve(response), 10))
+      );
+      const onMatchesReceived = jest.fn();
+      const onRequestError = jest.fn();
+
+      adapter.fetchMatches(
+        requestId,
+        [block],
+        [],
+        onMatchesReceived,
+        onRequestError,
+        jest.fn()
+      );
+      adapter.cancelRequest(requestId);
+
+      setTimeout(() => {
+        expect(onMatchesReceived).not.toHaveBeenCalled();
+        expect(onRequestError).not.toHaveBeenCalled();
+        done();
+      }, 50);
+    });
+    it("should buffer responses for each request separately", done => {
+      const adapter = new TyperighterAdapter(endpoint, 100);
+      const delays: { [blockId: string]: number } = {
+        "b-1": 0,
+        "a-1": 5,
+        "b-2": 10,
+        "a-2": 20,
+        "a-3": 100
+      };
+      fetchMock.post(
+        `${endpoint}/check`,
+        (_: string, { body }: RequestInit) => {
+          const { requestId: id, blocks } = JSON.parse(body as string);
+          return new Promise(resolve =>
+            setTimeout(
+              () =>
+                resolve({ requestId: id, categoryIds: [], blocks, matches: [] }),
+              delays[blocks[0].id]
+            )
+          );
+        }
+      );
+      const onMatchesReceivedA = jest.fn();
+      const onMatchesReceivedB = jest.fn();
+
+      adapter.fetchMatches(
+        "request-b",
+        [
+          { ...block, id: "b-1" },
+          { ...block, id: "b-2" }
+        ],
+        [],
+        onMatchesReceivedB,
+        jest.fn(),
+        jest.fn()
+      );
+      adapter.fetchMatches(
+        "request-a",
+        [
+          { ...block, id: "a-1" },
+          { ...block, id: "a-2" },
+          { ...block, id: "a-3" }
+        ],
+        [],
+        onMatchesReceivedA,
+        jest.fn(),
+        jest.fn()
+      );
+      setTimeout(() => adapter.cancelRequest("request-a"), 50);
+
+      setTimeout(() => {
+        // We'd only heard about the first block before we cancelled.
+        expect(onMatchesReceivedA.mock.calls.length).toBe(1);
+        expect(onMatchesReceivedA.mock.calls[0][0].blocks[0].id).toBe("a-1");
+        const responses: IMatcherResponse[] = onMatchesReceivedB.mock.calls.map(
+          ([_]) => _
+        );
+        expect(responses.map(_ => _.requestId)).toEqual([
+          "request-b",
+          "request-b"
+        ]);
+        expect(responses.flatMap(_ => _.blocks.map(b => b.id))).toEqual([
+          "b-1",
+          "b-2"
+        ]);
+        done();
+      }, 200);
+    });
+    it("should keep the short message and the rule's details, linking to the rule if it can", () => {
+      const { matches } = convertTyperighterResponse(
+        requestId,
+        createResponse(["1234567890"]),
+        rule => `https://rules.example.com/${rule.id}`
+      );
+      expect(matches[0]).toMatchObject({
+        shortMessage: "It's just a bunch of numbers, mate",
+        ruleDetails: {
+          description: "Number things",
+          issueType: "issue-type",
+          suggestions: [],
+          url: "https://rules.example.com/number-rule"
+        }
+      });
+    });
+  });
 });
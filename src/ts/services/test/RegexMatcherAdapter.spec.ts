@@ -0,0 +1,171 @@
+import RegexMatcherAdapter, {
+  createRegexRuleId
+} from "../adapters/RegexMatcherAdapter";
+import { IMatchLibrary, IMatcherResponse } from "../../interfaces/IMatch";
+import { createBlock, matchLibrary } from "../../test/helpers/fixtures";
+
+jest.mock("uuid", () => ({ v4: () => "id" }));
+
+const requestId = "set-id";
+
+const fetchMatches = (
+  adapter: RegexMatcherAdapter,
+  blocks = [createBlock(10, 40, "A first match and a second match")],
+  categoryIds: string[] = []
+) =>
+  new Promise<IMatcherResponse[]>(resolve => {
+    const responses: IMatcherResponse[] = [];
+    adapter.fetchMatches(
+      requestId,
+      blocks,
+      categoryIds,
+      response => responses.push(response),
+      jest.fn(),
+      () => resolve(responses)
+    );
+  });
+
+describe("RegexMatcherAdapter", () => {
+  it("should produce matches positioned relative to the document, with their context", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary);
+    const [{ matches }] = await fetchMatches(adapter);
+    expect(matches[0]).toEqual({
+      matchId: "id",
+      matcherType: "regex",
+      from: 12,
+      to: 23,
+      ruleId: createRegexRuleId(0, 0),
+      matchedText: "first match",
+      message: "Found 'first match'",
+      category: { id: "legal", name: "legal", colour: "#5f5e5e" },
+      precedingText: "A ",
+      subsequentText: " and a second match",
+      matchContext: "A [[first match]] and a second match"
+    });
+  });
+
+  it("should give earlier entries in a group precedence over later, overlapping entries", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary);
+    const [{ matches }] = await fetchMatches(adapter);
+    expect(matches.map(_ => [_.matchedText, _.ruleId])).toEqual([
+      ["first match", createRegexRuleId(0, 0)],
+      ["second match", createRegexRuleId(1, 0)],
+      ["match", createRegexRuleId(1, 1)]
+    ]);
+    expect(matches[2].from).toBe(18);
+  });
+
+  it("should add a replacement for REPLACE operations, expanding capture groups", async () => {
+    const library: IMatchLibrary = [
+      [
+        {
+          regExp: /(\d+) per cent/,
+          annotation: "$1%",
+          operation: "REPLACE",
+          type: "style"
+        }
+      ]
+    ];
+    const adapter = new RegexMatcherAdapter(library);
+    const [{ matches }] = await fetchMatches(adapter, [
+      createBlock(0, 22, "It rose by 10 per cent")
+    ]);
+    expect(matches[0].replacement).toEqual({
+      type: "TEXT_SUGGESTION",
+      text: "10%"
+    });
+    expect(matches[0].message).toBe("10%");
+    expect(matches[0].suggestions).toBe(undefined);
+  });
+
+  it("should expand capture groups from the original match, even when the matched text alone wouldn't match", async () => {
+    const library: IMatchLibrary = [
+      [
+        {
+          regExp: /(?<=Mr )(?<name>[A-Z]\w+)\b(?= said)/,
+          annotation: "$<name> ($&, $2)",
+          operation: "REPLACE",
+          type: "style"
+        }
+      ]
+    ];
+    const adapter = new RegexMatcherAdapter(library);
+    const [{ matches }] = await fetchMatches(adapter, [
+      createBlock(0, 16, "Mr Smith said so")
+    ]);
+    expect(matches[0].replacement).toEqual({
+      type: "TEXT_SUGGESTION",
+      text: "Smith (Smith, $2)"
+    });
+  });
+
+  it("should not match text in skipped ranges, and map matches through them", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary);
+    const [{ matches }] = await fetchMatches(adapter, [
+      createBlock(0, 24, "Some [first match] match", [{ from: 5, to: 17 }])
+    ]);
+    expect(matches.map(_ => [_.matchedText, _.from, _.to])).toEqual([
+      ["match", 19, 24]
+    ]);
+  });
+
+  it("should only apply entries in the requested categories", async () => {
+    const library: IMatchLibrary = [
+      [
+        {
+          regExp: /first/g,
+          annotation: "Found 'first'",
+          operation: "ANNOTATE",
+          type: "legal"
+        },
+        {
+          regExp: /match/g,
+          annotation: "Found 'match'",
+          operation: "ANNOTATE",
+          type: "style"
+        }
+      ]
+    ];
+    const adapter = new RegexMatcherAdapter(library);
+    const [{ matches }] = await fetchMatches(adapter, undefined, ["style"]);
+    expect(matches.map(_ => _.category.id)).toEqual(["style", "style"]);
+  });
+
+  it("should check blocks in chunks, reporting each chunk as it's done", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary, undefined, 2);
+    const responses = await fetchMatches(adapter, [
+      createBlock(0, 5, "match"),
+      createBlock(10, 15, "match"),
+      createBlock(20, 25, "match")
+    ]);
+    expect(responses.map(_ => _.blocks.length)).toEqual([2, 1]);
+    expect(responses.map(_ => _.matches.length)).toEqual([2, 1]);
+  });
+
+  it("should stop checking blocks once a request is cancelled", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary, undefined, 1);
+    const onMatchesReceived = jest.fn();
+    const onRequestComplete = jest.fn();
+    adapter.fetchMatches(
+      requestId,
+      [createBlock(0, 5, "match"), createBlock(10, 15, "match")],
+      [],
+      onMatchesReceived,
+      jest.fn(),
+      onRequestComplete
+    );
+    adapter.cancelRequest(requestId);
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(onMatchesReceived).not.toHaveBeenCalled();
+    expect(onRequestComplete).not.toHaveBeenCalled();
+  });
+
+  it("should provide a category for each type in the library", async () => {
+    const adapter = new RegexMatcherAdapter(matchLibrary, () => "#ff0000");
+    expect(await adapter.fetchCategories()).toEqual([
+      { id: "legal", name: "legal", colour: "#ff0000" }
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 import fetchMock from "fetch-mock";
 
 import TelemetryService from "../TelemetryService";
+import InMemoryTelemetryEventStore from "../telemetryStores/InMemoryTelemetryEventStore";
 import {
   ITyperighterTelemetryEvent,
   TYPERIGHTER_TELEMETRY_TYPE
@@ -157,4 +158,160 @@ describe("TelemetryService", () => {
       done();
     }, 150);
   });
+
+  describe("persisting events", () => {
+    const createEvent = (id: string): ITyperighterTelemetryEvent => ({
+      ...exampleEvent,
+      id
+    });
+    // Create a store with the events left behind by a page that has closed.
+    const createEventStore = (events: ITyperighterTelemetryEvent[] = []) =>
+      new InMemoryTelemetryEventStore<ITyperighterTelemetryEvent>(
+        events.length
+          ? { "closed-page": { events, savedAt: 0, isClosed: true } }
+          : {}
+      );
+    const getPersistedEvents = async (
+      eventStore: InMemoryTelemetryEventStore<ITyperighterTelemetryEvent>
+    ) => Object.values(await eventStore.load()).flatMap(page => page.events);
+    // Let the service load the events persisted by a previous page.
+    const waitForLoad = () => new Promise(resolve => setTimeout(resolve));
+
+    it("should persist buffered events, and send them when the service is next created", async () => {
+      fetchMock.post(endpoint, 201);
+      const eventStore = createEventStore();
+      const closedPageService = new TelemetryService(url, 100, {
+        eventStore
+      });
+      await waitForLoad();
+      closedPageService.addEvent(createEvent("1"));
+      closedPageService.destroy();
+
+      expect(await getPersistedEvents(eventStore)).toEqual([createEvent("1")]);
+
+      const service = new TelemetryService(url, 100, { eventStore });
+      await waitForLoad();
+      await service.flushEvents();
+      service.destroy();
+
+      const [[, request]] = fetchMock.calls(endpoint);
+      expect(JSON.parse(request!.body as string)).toEqual([createEvent("1")]);
+      expect(await getPersistedEvents(eventStore)).toEqual([]);
+    });
+
+    it("should persist events at most once in each persist interval", async () => {
+      const eventStore = createEventStore();
+      const save = jest.spyOn(eventStore, "save");
+      const service = new TelemetryService(url, 100, {
+        eventStore,
+        persistInterval: 10
+      });
+      await waitForLoad();
+      service.addEvent(createEvent("1"));
+      service.addEvent(createEvent("2"));
+
+      expect(save).not.toHaveBeenCalled();
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      service.destroy();
+
+      expect(save.mock.calls[0][1].events).toEqual([
+        createEvent("1"),
+        createEvent("2")
+      ]);
+    });
+
+    it("should leave the events of pages that are still open to those pages", async () => {
+      fetchMock.post(endpoint, 201);
+      const eventStore = new InMemoryTelemetryEventStore<
+        ITyperighterTelemetryEvent
+      >({
+        "open-page": {
+          events: [createEvent("1")],
+          savedAt: Date.now(),
+          isClosed: false
+        },
+        "abandoned-page": {
+          events: [createEvent("2")],
+          savedAt: 0,
+          isClosed: false
+        }
+      });
+      const service = new TelemetryService(url, 100, { eventStore });
+      await waitForLoad();
+      await service.flushEvents();
+      service.destroy();
+
+      const [[, request]] = fetchMock.calls(endpoint);
+      expect(JSON.parse(request!.body as string)).toEqual([createEvent("2")]);
+      expect(Object.keys(await eventStore.load())).toEqual(["open-page"]);
+    });
+
+    it("should only buffer one event for each id", async () => {
+      fetchMock.post(endpoint, 201);
+      const eventStore = createEventStore([createEvent("1")]);
+      const service = new TelemetryService(url, 100, { eventStore });
+      await waitForLoad();
+      service.addEvent(createEvent("1"));
+      service.addEvent(createEvent("2"));
+      await service.flushEvents();
+      service.destroy();
+
+      const [[, request]] = fetchMock.calls(endpoint);
+      expect(JSON.parse(request!.body as string)).toEqual([
+        createEvent("1"),
+        createEvent("2")
+      ]);
+    });
+
+    it("should drop the oldest events when the buffer is full", async () => {
+      const eventStore = createEventStore();
+      const service = new TelemetryService(url, 100, {
+        eventStore,
+        maxBufferSize: 2
+      });
+      await waitForLoad();
+      ["1", "2", "3"].forEach(id => service.addEvent(createEvent(id)));
+      service.destroy();
+
+      expect(await getPersistedEvents(eventStore)).toEqual([
+        createEvent("2"),
+        createEvent("3")
+      ]);
+    });
+
+    it("should discard persisted events when the events are cleared", async () => {
+      const eventStore = createEventStore([createEvent("1")]);
+      const service = new TelemetryService(url, 100, { eventStore });
+      service.clearEvents();
+      await waitForLoad();
+      service.addEvent(createEvent("2"));
+      service.clearEvents();
+      service.destroy();
+
+      expect(await getPersistedEvents(eventStore)).toEqual([]);
+    });
+
+    it("should send buffered events with a beacon when the page is hidden", async () => {
+      const sendBeacon = jest.fn(() => true);
+      Object.defineProperty(navigator, "sendBeacon", {
+        value: sendBeacon,
+        configurable: true
+      });
+      const eventStore = createEventStore();
+      const service = new TelemetryService(url, 100, { eventStore });
+      await waitForLoad();
+      service.addEvent(createEvent("1"));
+
+      window.dispatchEvent(new Event("pagehide"));
+      service.destroy();
+      delete (navigator as any).sendBeacon;
+
+      expect(sendBeacon).toHaveBeenCalledWith(
+        endpoint,
+        JSON.stringify([createEvent("1")])
+      );
+      expect(await getPersistedEvents(eventStore)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,188 @@
+import TelemetryService from "../TelemetryService";
+import TyperighterTelemetryAdapter, {
+  ITyperighterTelemetryOptions,
+  redactTelemetryEvent
+} from "../TyperighterTelemetryAdapter";
+import { TYPERIGHTER_TELEMETRY_TYPE } from "../../interfaces/ITelemetryData";
+import { createMatch } from "../../test/helpers/fixtures";
+
+const documentUrl = "https://example.com/embargoed-story?draft=true";
+
+const createAdapter = (options: Partial<ITyperighterTelemetryOptions> = {}) => {
+  const telemetryService = new TelemetryService("http://endpoint", 100, {
+    sendOnPageHide: false
+  });
+  const addEvent = jest
+    .spyOn(telemetryService, "addEvent")
+    .mockImplementation(() => undefined);
+  const clearEvents = jest.spyOn(telemetryService, "clearEvents");
+  const adapter = new TyperighterTelemetryAdapter(
+    telemetryService,
+    "example-app",
+    "PROD",
+    options
+  );
+  const getEvents = () => addEvent.mock.calls.map(([event]) => event);
+  return { adapter, getEvents, clearEvents };
+};
+
+describe("TyperighterTelemetryAdapter", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("should add an id, app, stage and time to each event", () => {
+    const { adapter, getEvents } = createAdapter();
+    adapter.matchFound(createMatch(0), documentUrl);
+
+    expect(getEvents()).toEqual([
+      expect.objectContaining({
+        id: expect.any(String),
+        app: "example-app",
+        stage: "PROD",
+        eventTime: expect.any(String),
+        type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND
+      })
+    ]);
+  });
+
+  describe("consent", () => {
+    it("should not send events until the user consents", () => {
+      const { adapter, getEvents } = createAdapter({ hasConsent: false });
+      adapter.matchFound(createMatch(0), documentUrl);
+      expect(getEvents()).toEqual([]);
+
+      adapter.setConsent(true);
+      adapter.matchFound(createMatch(0), documentUrl);
+      expect(getEvents().length).toBe(1);
+    });
+
+    it("should discard unsent events when consent is withdrawn", () => {
+      const { adapter, getEvents, clearEvents } = createAdapter({
+        aggregateMatchesFound: true
+      });
+      adapter.matchesFound("request-id", [createMatch(0)], documentUrl);
+      adapter.setConsent(false);
+      adapter.checkCompleted("request-id");
+
+      expect(clearEvents).toHaveBeenCalled();
+      expect(getEvents()).toEqual([]);
+    });
+  });
+
+  describe("sampling", () => {
+    it("should send events in proportion to the sample rate for their type", () => {
+      const { adapter, getEvents } = createAdapter({
+        sampleRates: {
+          [TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND]: 0.5
+        }
+      });
+      const random = jest.spyOn(Math, "random");
+      random.mockReturnValueOnce(0.75);
+      adapter.matchFound(createMatch(0), documentUrl);
+      random.mockReturnValueOnce(0.25);
+      adapter.matchFound(createMatch(0), documentUrl);
+      adapter.filterStateToggled("correct", true);
+
+      expect(getEvents().map(event => event.tags.sampleRate)).toEqual([
+        0.5,
+        undefined
+      ]);
+    });
+  });
+
+  describe("scrubbing", () => {
+    it("should remove the text of the document from events by default", () => {
+      const { adapter, getEvents } = createAdapter();
+      adapter.suggestionIsAccepted(createMatch(0), documentUrl, "suggestion");
+      adapter.filterStateToggled("correct", true);
+
+      const [acceptedEvent, filterEvent] = getEvents();
+      expect(acceptedEvent.tags).not.toHaveProperty("matchedText");
+      expect(acceptedEvent.tags).not.toHaveProperty("suggestion");
+      expect(acceptedEvent.tags.documentUrl).toBe("https://example.com");
+      expect(filterEvent.tags).not.toHaveProperty("documentUrl");
+    });
+
+    it("should apply the scrubber to each event, dropping those it doesn't return", () => {
+      const { adapter, getEvents } = createAdapter({
+        scrubEvent: event =>
+          event.type === TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND
+            ? undefined
+            : redactTelemetryEvent(event)
+      });
+      adapter.matchFound(createMatch(0), documentUrl);
+      adapter.suggestionIsAccepted(createMatch(0), documentUrl, "suggestion");
+
+      const [acceptedEvent] = getEvents();
+      expect(getEvents().length).toBe(1);
+      expect(acceptedEvent.type).toBe(
+        TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_SUGGESTION_IS_ACCEPTED
+      );
+      expect(acceptedEvent.tags).toEqual({
+        documentUrl: "https://example.com",
+        matcherType: "regex",
+        ruleId: "ruleId",
+        matchId: createMatch(0).matchId,
+        matchHasReplacement: "false",
+        matchIsAdvisory: "false",
+        matchIsMarkedAsCorrect: "false"
+      });
+    });
+  });
+
+  describe("aggregating matches", () => {
+    it("should send an event per match when we're not aggregating them", () => {
+      const { adapter, getEvents } = createAdapter({
+        aggregateMatchesFound: false
+      });
+      adapter.matchesFound(
+        "request-id",
+        [createMatch(0), createMatch(5)],
+        documentUrl
+      );
+
+      expect(getEvents().length).toBe(2);
+    });
+
+    it("should send a count of the matches for each rule when the check completes", () => {
+      const { adapter, getEvents } = createAdapter({
+        scrubEvent: event => event
+      });
+      const otherRuleMatch = { ...createMatch(10), ruleId: "other-rule" };
+      adapter.matchesFound(
+        "request-id",
+        [createMatch(0), otherRuleMatch],
+        documentUrl
+      );
+      adapter.matchesFound("request-id", [createMatch(5)], documentUrl);
+      expect(getEvents()).toEqual([]);
+
+      adapter.checkCompleted("request-id");
+      adapter.checkCompleted("request-id");
+
+      expect(
+        getEvents().map(({ type, value, tags }) => ({ type, value, tags }))
+      ).toEqual([
+        {
+          type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND,
+          value: 2,
+          tags: {
+            documentUrl,
+            matcherType: "regex",
+            ruleId: "ruleId",
+            requestId: "request-id"
+          }
+        },
+        {
+          type: TYPERIGHTER_TELEMETRY_TYPE.TYPERIGHTER_MATCH_FOUND,
+          value: 1,
+          tags: {
+            documentUrl,
+            matcherType: "regex",
+            ruleId: "other-rule",
+            requestId: "request-id"
+          }
+        }
+      ]);
+    });
+  });
+});
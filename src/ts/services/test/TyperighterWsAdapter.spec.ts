@@ -0,0 +1,292 @@
+import TyperighterWsAdapter, {
+  getSocketUrl
+} from "../adapters/TyperighterWsAdapter";
+import { createBlock } from "../../test/helpers/fixtures";
+
+jest.mock("uuid", () => ({ v4: () => "id" }));
+
+type TListener = (event: any) => void;
+
+/**
+ * Stands in for a WebSocket, letting us open, close, and send messages
+ * from the server side.
+ */
+class FakeWebSocket {
+  public static OPEN = 1;
+  public static CLOSED = 3;
+  public static instances: FakeWebSocket[] = [];
+  public readyState = 0;
+  public sent: any[] = [];
+  private listeners: { [type: string]: TListener[] } = {};
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  public addEventListener(type: string, listener: TListener) {
+    this.listeners[type] = (this.listeners[type] || []).concat(listener);
+  }
+  public send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+  public close(code = 1000, reason = "") {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.emit("close", { code, reason });
+  }
+  public open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.emit("open", {});
+  }
+  public receive(message: object) {
+    this.emit("message", { data: JSON.stringify(message) });
+  }
+  private emit(type: string, event: object) {
+    (this.listeners[type] || []).forEach(listener => listener(event));
+  }
+}
+
+const endpoint = "http://typerighter-service-endpoint.rad";
+const blocks = [createBlock(0, 10, "Some text")];
+const createResponse = (requestId: string) => ({
+  type: "CHECK_RESPONSE",
+  requestId,
+  categoryIds: [],
+  blocks: [{ id: blocks[0].id, from: 0, to: 10, text: "Some text" }],
+  matches: []
+});
+
+const fetchMatches = (adapter: TyperighterWsAdapter, requestId: string) => {
+  const callbacks = {
+    onMatchesReceived: jest.fn(),
+    onRequestError: jest.fn(),
+    onRequestComplete: jest.fn()
+  };
+  adapter.fetchMatches(
+    requestId,
+    blocks,
+    [],
+    callbacks.onMatchesReceived,
+    callbacks.onRequestError,
+    callbacks.onRequestComplete
+  );
+  return callbacks;
+};
+
+describe("TyperighterWsAdapter", () => {
+  const originalWebSocket = (window as any).WebSocket;
+  let adapter: TyperighterWsAdapter;
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeWebSocket.instances = [];
+    (window as any).WebSocket = FakeWebSocket;
+    adapter = new TyperighterWsAdapter(endpoint, 0, {
+      protocolVersion: 2,
+      heartbeatInterval: 1000,
+      initialReconnectDelay: 100,
+      reconnectJitter: 0
+    });
+  });
+  afterEach(() => {
+    adapter.close();
+    (window as any).WebSocket = originalWebSocket;
+    jest.useRealTimers();
+  });
+
+  describe("getSocketUrl", () => {
+    it("should use a secure socket on secure pages", () => {
+      expect(getSocketUrl(endpoint, "https:")).toBe(
+        "wss://typerighter-service-endpoint.rad/checkStream"
+      );
+      expect(getSocketUrl(endpoint, "http:")).toBe(
+        "ws://typerighter-service-endpoint.rad/checkStream"
+      );
+    });
+  });
+
+  it("should multiplex requests over a single socket, routing responses by requestId", () => {
+    const first = fetchMatches(adapter, "request-1");
+    const second = fetchMatches(adapter, "request-2");
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+
+    expect(socket.url).toBe(
+      "ws://typerighter-service-endpoint.rad/checkStream?protocolVersion=2"
+    );
+    expect(FakeWebSocket.instances.length).toBe(1);
+    expect(socket.sent.map(_ => [_.type, _.requestId])).toEqual([
+      ["CHECK", "request-1"],
+      ["CHECK", "request-2"]
+    ]);
+
+    socket.receive(createResponse("request-2"));
+    socket.receive({ type: "CHECK_COMPLETE", requestId: "request-2" });
+
+    expect(first.onMatchesReceived).not.toHaveBeenCalled();
+    expect(second.onMatchesReceived.mock.calls[0][0].requestId).toBe(
+      "request-2"
+    );
+    expect(second.onRequestComplete).toHaveBeenCalledWith("request-2");
+
+    // The socket stays open for the next request.
+    fetchMatches(adapter, "request-3");
+    expect(FakeWebSocket.instances.length).toBe(1);
+    expect(socket.sent[2]).toMatchObject({
+      type: "CHECK",
+      requestId: "request-3"
+    });
+  });
+
+  it("should ask the server to cancel requests, and ignore anything further for them", () => {
+    const callbacks = fetchMatches(adapter, "request-1");
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+
+    adapter.cancelRequest("request-1");
+    socket.receive(createResponse("request-1"));
+    socket.receive({ type: "CHECK_COMPLETE", requestId: "request-1" });
+
+    expect(socket.sent[1]).toEqual({ type: "CANCEL", requestId: "request-1" });
+    expect(callbacks.onMatchesReceived).not.toHaveBeenCalled();
+    expect(callbacks.onRequestComplete).not.toHaveBeenCalled();
+  });
+
+  it("should report connection status changes", () => {
+    const onConnectionStatusChange = jest.fn();
+    adapter.onConnectionStatusChange(onConnectionStatusChange);
+
+    fetchMatches(adapter, "request-1");
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].close(1006);
+
+    expect(onConnectionStatusChange.mock.calls).toEqual([
+      ["CONNECTING"],
+      ["CONNECTED"],
+      ["DISCONNECTED"]
+    ]);
+  });
+
+  it("should fail requests in flight when the connection drops, and reconnect with backoff", () => {
+    const callbacks = fetchMatches(adapter, "request-1");
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].close(1006, "Going away");
+
+    expect(callbacks.onRequestError).toHaveBeenCalledWith({
+      requestId: "request-1",
+      blockId: blocks[0].id,
+      message: "Going away",
+      categoryIds: []
+    });
+
+    jest.advanceTimersByTime(99);
+    expect(FakeWebSocket.instances.length).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances.length).toBe(2);
+
+    // If we fail to connect again, we back off further.
+    FakeWebSocket.instances[1].close(1006);
+    jest.advanceTimersByTime(199);
+    expect(FakeWebSocket.instances.length).toBe(2);
+    jest.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances.length).toBe(3);
+  });
+
+  it("should send heartbeats, and reconnect if the server stops replying", () => {
+    fetchMatches(adapter, "request-1");
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+
+    jest.advanceTimersByTime(1000);
+    expect(socket.sent[1]).toEqual({ type: "PING" });
+    socket.receive({ type: "PONG" });
+
+    jest.advanceTimersByTime(1000);
+    expect(socket.sent[2]).toEqual({ type: "PING" });
+    expect(socket.readyState).toBe(FakeWebSocket.OPEN);
+
+    // No reply this time.
+    jest.advanceTimersByTime(1000);
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    jest.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances.length).toBe(2);
+  });
+
+  it("should report messages it can't parse or doesn't recognise as errors", () => {
+    const callbacks = fetchMatches(adapter, "request-1");
+    const [socket] = FakeWebSocket.instances;
+    socket.open();
+
+    socket.receive({ type: "SOMETHING_ELSE", requestId: "request-1" });
+    (socket as any).emit("message", { data: "{" });
+
+    expect(callbacks.onRequestError.mock.calls).toEqual([
+      [
+        {
+          requestId: "request-1",
+          message: expect.stringContaining("unknown message type"),
+          categoryIds: []
+        }
+      ],
+      [{ requestId: "request-1", message: expect.any(String), categoryIds: [] }]
+    ]);
+  });
+
+  describe("protocol version 1", () => {
+    beforeEach(() => {
+      adapter = new TyperighterWsAdapter(endpoint, 0, { protocolVersion: 1 });
+    });
+
+    it("should open a socket for each request, and close it when the request completes", () => {
+      const first = fetchMatches(adapter, "request-1");
+      fetchMatches(adapter, "request-2");
+      const [socket, otherSocket] = FakeWebSocket.instances;
+      socket.open();
+      otherSocket.open();
+
+      expect(socket.url).toBe(
+        "ws://typerighter-service-endpoint.rad/checkStream"
+      );
+      expect(socket.sent).toEqual([
+        { requestId: "request-1", blocks: [expect.any(Object)] }
+      ]);
+
+      socket.receive(createResponse("request-1"));
+      socket.receive({ type: "CHECK_COMPLETE" });
+
+      expect(first.onMatchesReceived.mock.calls[0][0].requestId).toBe(
+        "request-1"
+      );
+      expect(first.onRequestComplete).toHaveBeenCalledWith("request-1");
+      expect(first.onRequestError).not.toHaveBeenCalled();
+      expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+      expect(otherSocket.readyState).toBe(FakeWebSocket.OPEN);
+    });
+
+    it("should attribute errors to the socket's request, and not send heartbeats", () => {
+      const callbacks = fetchMatches(adapter, "request-1");
+      const [socket] = FakeWebSocket.instances;
+      socket.open();
+
+      socket.receive({ type: "CHECK_ERROR", id: "block-id", message: "Oh no" });
+      jest.advanceTimersByTime(5000);
+
+      expect(callbacks.onRequestError).toHaveBeenCalledWith({
+        requestId: "request-1",
+        blockId: "block-id",
+        message: "Oh no",
+        categoryIds: []
+      });
+      expect(socket.sent.length).toBe(1);
+    });
+
+    it("should close the request's socket when the request is cancelled", () => {
+      const callbacks = fetchMatches(adapter, "request-1");
+      const [socket] = FakeWebSocket.instances;
+      socket.open();
+
+      adapter.cancelRequest("request-1");
+
+      expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+      expect(callbacks.onRequestError).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import WorkerMatcherAdapter, {
+  exposeMatcherAdapter
+} from "../adapters/WorkerMatcherAdapter";
+import RegexMatcherAdapter from "../adapters/RegexMatcherAdapter";
+import { IMatcherResponse } from "../../interfaces/IMatch";
+import { IMatcherAdapter } from "../../interfaces/IMatcherAdapter";
+import { createBlock, matchLibrary } from "../../test/helpers/fixtures";
+import { createWorkerShim } from "../../test/helpers/worker";
+
+jest.mock("uuid", () => ({ v4: () => "id" }));
+
+const requestId = "set-id";
+const blocks = [
+  createBlock(0, 11, "first match"),
+  createBlock(20, 32, "second match")
+];
+
+const createAdapter = (
+  innerAdapter: IMatcherAdapter = new RegexMatcherAdapter(
+    matchLibrary,
+    undefined,
+    1
+  )
+) => {
+  const { worker, scope, dispatchError } = createWorkerShim();
+  exposeMatcherAdapter(innerAdapter, scope);
+  return { adapter: new WorkerMatcherAdapter(worker), dispatchError };
+};
+
+const fetchMatches = (adapter: WorkerMatcherAdapter) => {
+  const onRequestError = jest.fn();
+  const responses: IMatcherResponse[] = [];
+  const complete = new Promise<IMatcherResponse[]>(resolve =>
+    adapter.fetchMatches(
+      requestId,
+      blocks,
+      [],
+      response => responses.push(response),
+      onRequestError,
+      () => resolve(responses)
+    )
+  );
+  return { complete, responses, onRequestError };
+};
+
+describe("WorkerMatcherAdapter", () => {
+  it("should stream responses from the adapter running in the worker", async () => {
+    const { adapter } = createAdapter();
+    const responses = await fetchMatches(adapter).complete;
+    expect(responses.length).toBe(2);
+    expect(responses.map(_ => _.blocks[0].id)).toEqual(blocks.map(_ => _.id));
+    expect(responses[0].matches[0]).toMatchObject({
+      from: 0,
+      to: 11,
+      matchedText: "first match",
+      message: "Found 'first match'"
+    });
+  });
+
+  it("should report errors from the adapter running in the worker", async () => {
+    const { adapter } = createAdapter({
+      fetchMatches: (id, input, categoryIds, _, onError, onComplete) => {
+        onError({
+          requestId: id,
+          blockId: input[0].id,
+          categoryIds,
+          message: "Something went wrong"
+        });
+        onComplete(id);
+      },
+      fetchCategories: async () => []
+    });
+    const { complete, onRequestError } = fetchMatches(adapter);
+    await complete;
+    expect(onRequestError.mock.calls[0][0]).toEqual({
+      requestId,
+      blockId: blocks[0].id,
+      categoryIds: [],
+      message: "Something went wrong"
+    });
+  });
+
+  it("should not report anything further for a request once it's cancelled", async () => {
+    const { adapter } = createAdapter();
+    const onRequestComplete = jest.fn();
+    const onMatchesReceived = jest.fn();
+    adapter.fetchMatches(
+      requestId,
+      blocks,
+      [],
+      onMatchesReceived,
+      jest.fn(),
+      onRequestComplete
+    );
+    adapter.cancelRequest(requestId);
+
+    // Give the worker plenty of time to do its work.
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(onMatchesReceived).not.toHaveBeenCalled();
+    expect(onRequestComplete).not.toHaveBeenCalled();
+  });
+
+  it("should forget requests once they're cancelled", async () => {
+    // The first request never completes – it's cancelled before it can.
+    const fetchInnerMatches = jest
+      .fn()
+      .mockImplementationOnce(() => undefined)
+      .mockImplementation((id, _, __, ___, ____, onComplete) => onComplete(id));
+    const { adapter } = createAdapter({
+      fetchMatches: fetchInnerMatches,
+      fetchCategories: async () => [],
+      cancelRequest: jest.fn()
+    });
+    fetchMatches(adapter);
+    adapter.cancelRequest(requestId);
+
+    // A cancelled id shouldn't silence a later request that reuses it.
+    await fetchMatches(adapter).complete;
+    expect(fetchInnerMatches).toHaveBeenCalledTimes(2);
+  });
+
+  it("should report an error for each block in flight if the worker fails", async () => {
+    const { adapter, dispatchError } = createAdapter({
+      fetchMatches: jest.fn(),
+      fetchCategories: () => new Promise(jest.fn())
+    });
+    const { onRequestError } = fetchMatches(adapter);
+    const categories = adapter.fetchCategories();
+    dispatchError("error");
+
+    expect(onRequestError.mock.calls.map(([error]) => error)).toEqual(
+      blocks.map(block => ({
+        requestId,
+        blockId: block.id,
+        categoryIds: [],
+        message: "The matcher worker encountered an error"
+      }))
+    );
+    await expect(categories).rejects.toEqual(
+      new Error("The matcher worker encountered an error")
+    );
+
+    // The failed request is no longer in flight.
+    dispatchError("messageerror");
+    expect(onRequestError).toHaveBeenCalledTimes(blocks.length);
+  });
+
+  it("should fetch categories from the adapter running in the worker", async () => {
+    const { adapter } = createAdapter();
+    expect(await adapter.fetchCategories()).toEqual([
+      { id: "legal", name: "legal", colour: "#5f5e5e" }
+    ]);
+  });
+
+  it("should reject if the worker can't fetch categories", async () => {
+    const { adapter } = createAdapter({
+      fetchMatches: jest.fn(),
+      fetchCategories: async () => {
+        throw new Error("No categories here");
+      }
+    });
+    await expect(adapter.fetchCategories()).rejects.toEqual(
+      new Error("No categories here")
+    );
+  });
+});
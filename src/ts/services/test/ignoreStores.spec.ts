@@ -0,0 +1,52 @@
+import LocalStorageIgnoreStore from "../ignoreStores/LocalStorageIgnoreStore";
+import CallbackIgnoreStore from "../ignoreStores/CallbackIgnoreStore";
+import InMemoryIgnoreStore from "../ignoreStores/InMemoryIgnoreStore";
+
+const ignoreList = { ruleIds: ["rule-1"], words: ["Guardian"] };
+
+describe("InMemoryIgnoreStore", () => {
+  it("should load the ignore list it last saved", async () => {
+    const store = new InMemoryIgnoreStore();
+    expect(await store.load()).toEqual({ ruleIds: [], words: [] });
+
+    await store.save(ignoreList);
+
+    expect(await store.load()).toEqual(ignoreList);
+  });
+});
+
+describe("LocalStorageIgnoreStore", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("should share the dictionary between documents, but not ignored rules", async () => {
+    await new LocalStorageIgnoreStore("doc-1").save(ignoreList);
+
+    expect(await new LocalStorageIgnoreStore("doc-1").load()).toEqual(
+      ignoreList
+    );
+    expect(await new LocalStorageIgnoreStore("doc-2").load()).toEqual({
+      ruleIds: [],
+      words: ["Guardian"]
+    });
+  });
+
+  it("should treat malformed entries as empty", async () => {
+    window.localStorage.setItem("prosemirror-typerighter:dictionary", "{");
+
+    expect(await new LocalStorageIgnoreStore("doc-1").load()).toEqual({
+      ruleIds: [],
+      words: []
+    });
+  });
+});
+
+describe("CallbackIgnoreStore", () => {
+  it("should load and save the ignore list via the given callbacks", async () => {
+    const onSave = jest.fn();
+    const store = new CallbackIgnoreStore(() => ignoreList, onSave);
+
+    expect(await store.load()).toEqual(ignoreList);
+    await store.save(ignoreList);
+    expect(onSave).toHaveBeenCalledWith(ignoreList);
+  });
+});
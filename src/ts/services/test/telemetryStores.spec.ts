@@ -0,0 +1,59 @@
+import InMemoryTelemetryEventStore from "../telemetryStores/InMemoryTelemetryEventStore";
+import LocalStorageTelemetryEventStore from "../telemetryStores/LocalStorageTelemetryEventStore";
+
+const events = [
+  {
+    id: "event-1",
+    app: "example-app",
+    stage: "PROD",
+    type: "EXAMPLE_EVENT",
+    value: 1,
+    eventTime: "2020-09-03T07:51:27.669Z"
+  }
+];
+
+const persistedEvents = { events, savedAt: 0, isClosed: false };
+
+describe("InMemoryTelemetryEventStore", () => {
+  it("should load the events each page last saved", async () => {
+    const store = new InMemoryTelemetryEventStore();
+    expect(await store.load()).toEqual({});
+
+    await store.save("page-1", persistedEvents);
+    await store.save("page-2", persistedEvents);
+    await store.remove("page-2");
+
+    expect(await store.load()).toEqual({ "page-1": persistedEvents });
+  });
+});
+
+describe("LocalStorageTelemetryEventStore", () => {
+  beforeEach(() => window.localStorage.clear());
+
+  it("should load the events each page last saved", async () => {
+    await new LocalStorageTelemetryEventStore().save("page-1", persistedEvents);
+    await new LocalStorageTelemetryEventStore().save("page-2", persistedEvents);
+
+    expect(await new LocalStorageTelemetryEventStore().load()).toEqual({
+      "page-1": persistedEvents,
+      "page-2": persistedEvents
+    });
+  });
+
+  it("should remove a page's entry", async () => {
+    const store = new LocalStorageTelemetryEventStore("events");
+    await store.save("page-1", persistedEvents);
+    await store.remove("page-1");
+
+    expect(window.localStorage.getItem("events:page-1")).toBe(null);
+  });
+
+  it("should ignore malformed entries, and entries that aren't its own", async () => {
+    window.localStorage.setItem("events:page-1", "{");
+    window.localStorage.setItem("other-key", JSON.stringify(persistedEvents));
+
+    expect(await new LocalStorageTelemetryEventStore("events").load()).toEqual(
+      {}
+    );
+  });
+});
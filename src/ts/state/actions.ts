@@ -3,7 +3,19 @@ import {
   IMatcherResponse,
   IRange
 } from "../interfaces/IMatch";
-import { IPluginConfig, IPluginState } from "./reducer";
+import {
+  IPluginConfig,
+  IPluginState,
+  IRestoredState,
+  IRetryState
+} from "./reducer";
+import { TConnectionStatus } from "../interfaces/IMatcherAdapter";
+import {
+  IIgnoreList,
+  IGNORE_SCOPE_OCCURRENCE,
+  TIgnoreScope
+} from "../interfaces/IIgnoreStore";
+import { TCollabMessage } from "../interfaces/ICollab";
 
 /**
  * Action types.
@@ -14,14 +26,24 @@ export const REQUEST_FOR_DOCUMENT = "REQUEST_FOR_DOCUMENT" as const;
 export const REQUEST_SUCCESS = "REQUEST_SUCCESS" as const;
 export const REQUEST_ERROR = "REQUEST_ERROR" as const;
 export const REQUEST_COMPLETE = "REQUEST_COMPLETE" as const;
+export const REQUEST_CANCELLED = "REQUEST_CANCELLED" as const;
 export const NEW_HOVER_ID = "NEW_HOVER_ID" as const;
 export const NEW_HIGHLIGHT_ID = "NEW_HIGHLIGHT_ID" as const;
+export const NEW_SUGGESTION_PREVIEW = "NEW_SUGGESTION_PREVIEW" as const;
 export const SELECT_MATCH = "SELECT_MATCH" as const;
 export const REMOVE_MATCH = "REMOVE_MATCH" as const;
 export const REMOVE_ALL_MATCHES = "REMOVE_ALL_MATCHES" as const;
+export const IGNORE_MATCH = "IGNORE_MATCH" as const;
+export const IGNORE_MATCHES = "IGNORE_MATCHES" as const;
+export const RESTORE_STATE = "RESTORE_STATE" as const;
+export const SET_IGNORE_LIST = "SET_IGNORE_LIST" as const;
+export const SUGGESTIONS_APPLIED = "SUGGESTIONS_APPLIED" as const;
+export const RECEIVE_COLLAB_MESSAGE = "RECEIVE_COLLAB_MESSAGE" as const;
 export const APPLY_NEW_DIRTY_RANGES = "HANDLE_NEW_DIRTY_RANGES" as const;
 export const SET_CONFIG_VALUE = "SET_CONFIG_VALUE" as const;
 export const SET_FILTER_STATE = "SET_FILTER_STATE" as const;
+export const SET_RETRY_STATE = "SET_RETRY_STATE" as const;
+export const SET_CONNECTION_STATUS = "SET_CONNECTION_STATUS" as const;
 
 /**
  * Action creators.
@@ -40,10 +62,11 @@ export type ActionRequestMatchesForDirtyRanges = ReturnType<
 
 export const requestMatchesForDocument = (
   requestId: string,
-  categoryIds: string[]
+  categoryIds: string[],
+  force = false
 ) => ({
   type: REQUEST_FOR_DOCUMENT,
-  payload: { requestId, categoryIds }
+  payload: { requestId, categoryIds, force }
 });
 export type ActionRequestMatchesForDocument = ReturnType<
   typeof requestMatchesForDocument
@@ -75,9 +98,26 @@ export const requestMatchesComplete = (requestId: string) => ({
 });
 export type ActionRequestComplete = ReturnType<typeof requestMatchesComplete>;
 
-export const newHoverIdReceived = (matchId: string | undefined, rectIndex: number | undefined) => ({
+/**
+ * Cancel a request in flight – or, if blockIds are given, only those blocks
+ * within it.
+ */
+export const requestMatchesCancelled = (
+  requestId: string,
+  blockIds?: string[]
+) => ({
+  type: REQUEST_CANCELLED,
+  payload: { requestId, blockIds }
+});
+export type ActionRequestCancelled = ReturnType<typeof requestMatchesCancelled>;
+
+export const newHoverIdReceived = (
+  matchId: string | undefined,
+  rectIndex: number | undefined,
+  takeFocus = false
+) => ({
   type: NEW_HOVER_ID,
-  payload: { matchId, rectIndex }
+  payload: { matchId, rectIndex, takeFocus }
 });
 export type ActionNewHoverIdReceived = ReturnType<typeof newHoverIdReceived>;
 
@@ -89,17 +129,24 @@ export type ActionNewHighlightIdReceived = ReturnType<
   typeof newHighlightIdReceived
 >;
 
-export const applyNewDirtiedRanges = (ranges: IRange[]) => ({
+export const applyNewDirtiedRanges = (
+  ranges: IRange[],
+  requestMatches = true
+) => ({
   type: APPLY_NEW_DIRTY_RANGES,
-  payload: { ranges }
+  payload: { ranges, requestMatches }
 });
 export type ActionHandleNewDirtyRanges = ReturnType<
   typeof applyNewDirtiedRanges
 >;
 
-export const selectMatch = (matchId: string) => ({
+export const selectMatch = (
+  matchId: string,
+  openOverlay = false,
+  focusOverlay = false
+) => ({
   type: SELECT_MATCH,
-  payload: { matchId }
+  payload: { matchId, openOverlay, focusOverlay }
 });
 export type ActionSelectMatch = ReturnType<typeof selectMatch>;
 
@@ -126,6 +173,73 @@ export const removeAllMatches = () => ({
 });
 export type ActionRemoveAllMatches = ReturnType<typeof removeAllMatches>;
 
+export const markMatchAsIgnored = (
+  id: string,
+  scope: TIgnoreScope = IGNORE_SCOPE_OCCURRENCE
+) => ({
+  type: IGNORE_MATCH,
+  payload: { id, scope }
+});
+export type ActionMarkMatchAsIgnored = ReturnType<typeof markMatchAsIgnored>;
+
+export const markMatchesAsIgnored = (
+  ids: string[],
+  scope: TIgnoreScope = IGNORE_SCOPE_OCCURRENCE
+) => ({
+  type: IGNORE_MATCHES,
+  payload: { ids, scope }
+});
+export type ActionMarkMatchesAsIgnored = ReturnType<
+  typeof markMatchesAsIgnored
+>;
+
+export const newSuggestionPreview = (
+  matchId: string | undefined,
+  text: string | undefined
+) => ({
+  type: NEW_SUGGESTION_PREVIEW,
+  payload: { matchId, text }
+});
+export type ActionNewSuggestionPreview = ReturnType<
+  typeof newSuggestionPreview
+>;
+
+export const setIgnoreList = (ignoreList: IIgnoreList) => ({
+  type: SET_IGNORE_LIST,
+  payload: { ignoreList }
+});
+export type ActionSetIgnoreList = ReturnType<typeof setIgnoreList>;
+
+export const suggestionsApplied = (matchIds: string[]) => ({
+  type: SUGGESTIONS_APPLIED,
+  payload: { matchIds }
+});
+export type ActionSuggestionsApplied = ReturnType<typeof suggestionsApplied>;
+
+export const receiveCollabMessage = <TPluginState extends IPluginState>(
+  message: TCollabMessage<TPluginState["currentMatches"][0]>
+) => ({
+  type: RECEIVE_COLLAB_MESSAGE,
+  payload: { message }
+});
+// tslint:disable-next-line:interface-over-type-literal
+export type ActionReceiveCollabMessage<TPluginState extends IPluginState> = {
+  type: typeof RECEIVE_COLLAB_MESSAGE;
+  payload: { message: TCollabMessage<TPluginState["currentMatches"][0]> };
+};
+
+export const restoreState = <TPluginState extends IPluginState>(
+  restoredState: IRestoredState<TPluginState>
+) => ({
+  type: RESTORE_STATE,
+  payload: restoredState
+});
+// tslint:disable-next-line:interface-over-type-literal
+export type ActionRestoreState<TPluginState extends IPluginState> = {
+  type: typeof RESTORE_STATE;
+  payload: IRestoredState<TPluginState>;
+};
+
 export const setFilterState = <TPluginState extends IPluginState>(
   filterState: TPluginState["filterState"]
 ) => ({
@@ -138,17 +252,39 @@ export type ActionSetFilterState<TPluginState extends IPluginState> = {
   payload: { filterState: TPluginState["filterState"] };
 };
 
+export const setRetryState = (retryState: IRetryState | undefined) => ({
+  type: SET_RETRY_STATE,
+  payload: { retryState }
+});
+export type ActionSetRetryState = ReturnType<typeof setRetryState>;
+
+export const setConnectionStatus = (connectionStatus: TConnectionStatus) => ({
+  type: SET_CONNECTION_STATUS,
+  payload: { connectionStatus }
+});
+export type ActionSetConnectionStatus = ReturnType<typeof setConnectionStatus>;
+
 export type Action<TPluginState extends IPluginState> =
   | ActionNewHoverIdReceived
   | ActionNewHighlightIdReceived
+  | ActionNewSuggestionPreview
   | ActionRequestMatchesSuccess<TPluginState>
   | ActionRequestMatchesForDirtyRanges
   | ActionRequestMatchesForDocument
   | ActionRequestError
   | ActionRequestComplete
+  | ActionRequestCancelled
   | ActionSelectMatch
   | ActionHandleNewDirtyRanges
   | ActionSetConfigValue
   | ActionRemoveMatch
   | ActionRemoveAllMatches
-  | ActionSetFilterState<TPluginState>;
+  | ActionMarkMatchAsIgnored
+  | ActionMarkMatchesAsIgnored
+  | ActionSetIgnoreList
+  | ActionSuggestionsApplied
+  | ActionReceiveCollabMessage<TPluginState>
+  | ActionRestoreState<TPluginState>
+  | ActionSetFilterState<TPluginState>
+  | ActionSetRetryState
+  | ActionSetConnectionStatus;
@@ -0,0 +1,100 @@
+import { Transaction } from "prosemirror-state";
+import { IPluginState } from "./reducer";
+import {
+  Action,
+  IGNORE_MATCH,
+  IGNORE_MATCHES,
+  REQUEST_SUCCESS,
+  SUGGESTIONS_APPLIED
+} from "./actions";
+import {
+  selectBlockQueriesInFlightById,
+  selectBlockQueriesInFlightForSet
+} from "./selectors";
+import {
+  COLLAB_MESSAGE_APPLY,
+  COLLAB_MESSAGE_IGNORE,
+  COLLAB_MESSAGE_MATCHES,
+  TCollabMessage
+} from "../interfaces/ICollab";
+import { blockToRange, mapRanges } from "../utils/range";
+
+/**
+ * prosemirror-collab's `receiveTransaction` marks the transactions it
+ * creates with its plugin's key.
+ */
+export const isCollabTransaction = (tr: Transaction) =>
+  tr.getMeta("collab$") !== undefined;
+
+/**
+ * Create the messages to share with other clients for an action this client
+ * has applied, if it's one they should know about.
+ *
+ * The state before the action gives us the blocks a response was for, and
+ * the mapping from the document they were requested in to this one; the
+ * state after gives us the matches we've kept for them.
+ */
+export const createCollabMessages = <TPluginState extends IPluginState>(
+  action: Action<TPluginState>,
+  oldState: TPluginState,
+  newState: TPluginState
+): Array<TCollabMessage<TPluginState["currentMatches"][0]>> => {
+  switch (action.type) {
+    case REQUEST_SUCCESS: {
+      const { response } = action.payload;
+      const blocksInFlightState = selectBlockQueriesInFlightForSet(
+        oldState,
+        response.requestId
+      );
+      const blocksInFlight = selectBlockQueriesInFlightById(
+        oldState,
+        response.requestId,
+        response.blocks.map(_ => _.id)
+      );
+      if (!blocksInFlightState || !blocksInFlight.length) {
+        return [];
+      }
+      const ranges = mapRanges(
+        blocksInFlight.map(_ => blockToRange(_.block)),
+        blocksInFlightState.mapping
+      );
+      return [
+        {
+          type: COLLAB_MESSAGE_MATCHES,
+          ranges,
+          categoryIds: response.categoryIds,
+          matches: newState.currentMatches.filter(
+            match =>
+              response.categoryIds.includes(match.category.id) &&
+              ranges.some(
+                range => match.from >= range.from && match.to <= range.to
+              )
+          )
+        }
+      ];
+    }
+    case IGNORE_MATCH:
+      return [
+        {
+          type: COLLAB_MESSAGE_IGNORE,
+          matchId: action.payload.id,
+          scope: action.payload.scope
+        }
+      ];
+    case IGNORE_MATCHES:
+      return action.payload.ids.map(matchId => ({
+        type: COLLAB_MESSAGE_IGNORE,
+        matchId,
+        scope: action.payload.scope
+      }));
+    case SUGGESTIONS_APPLIED:
+      return [
+        {
+          type: COLLAB_MESSAGE_APPLY,
+          matchIds: action.payload.matchIds
+        }
+      ];
+    default:
+      return [];
+  }
+};
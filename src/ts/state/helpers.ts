@@ -10,6 +10,7 @@ import {
 import { DecorationSet } from "prosemirror-view";
 import { TFilterMatches } from "../utils/plugin";
 import { Node } from "prosemirror-model";
+import { resolveConflicts } from "../utils/conflicts";
 
 export const addMatchesToState = <TPluginState extends IPluginState>(
   state: TPluginState,
@@ -19,7 +20,16 @@ export const addMatchesToState = <TPluginState extends IPluginState>(
 ) => {
   const matchesToApply = matches.filter(match => !ignoreMatch(match));
   const decorations = matchesToApply.reduce(
-    (set, output) => set.add(doc, createDecorationsForMatch(output)),
+    (set, output) =>
+      set.add(
+        doc,
+        createDecorationsForMatch(
+          output,
+          state.config.matchColours,
+          false,
+          state.config.severity
+        )
+      ),
     DecorationSet.empty
   );
   return {
@@ -29,6 +39,56 @@ export const addMatchesToState = <TPluginState extends IPluginState>(
   };
 };
 
+/**
+ * Resolve conflicts between the current matches, if we're configured to,
+ * replacing the decorations of any matches the resolution removes or merges.
+ */
+export const resolveMatchConflicts = <TPluginState extends IPluginState>(
+  state: TPluginState,
+  doc: Node
+): TPluginState => {
+  if (!state.config.conflicts) {
+    return state;
+  }
+  const currentMatches = resolveConflicts(
+    state.currentMatches,
+    state.config.conflicts
+  );
+  const alteredMatchIds = state.currentMatches
+    .filter(match => !currentMatches.includes(match))
+    .map(match => match.matchId);
+  // Merged matches keep the id of one of their sources, so we redecorate
+  // every match that shares an id with an altered match.
+  const matchesToDecorate = currentMatches.filter(
+    match =>
+      !state.currentMatches.includes(match) ||
+      alteredMatchIds.includes(match.matchId)
+  );
+  if (!alteredMatchIds.length && !matchesToDecorate.length) {
+    return state;
+  }
+
+  const decorationsToRemove = state.decorations.find(
+    undefined,
+    undefined,
+    spec => alteredMatchIds.includes(spec.id)
+  );
+  return {
+    ...state,
+    currentMatches,
+    decorations: state.decorations
+      .remove(decorationsToRemove)
+      .add(
+        doc,
+        createDecorationsForMatches(
+          matchesToDecorate,
+          state.config.matchColours,
+          state.config.severity
+        )
+      )
+  };
+};
+
 /**
  * Is the current filter state stale, given the incoming state?
  */
@@ -71,7 +131,8 @@ export const deriveFilteredDecorations = <TPluginState extends IPluginState>(
 
   const decorationsToAdd = createDecorationsForMatches(
     matchesWithoutDecorations,
-    newState.config.matchColours
+    newState.config.matchColours,
+    newState.config.severity
   );
 
   const decorationsToRemove = newState.decorations.find(
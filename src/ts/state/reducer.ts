@@ -8,9 +8,11 @@ import {
   ActionHandleNewDirtyRanges,
   ActionNewHoverIdReceived,
   ActionNewHighlightIdReceived,
+  ActionNewSuggestionPreview,
   ActionSelectMatch,
   NEW_HOVER_ID,
   NEW_HIGHLIGHT_ID,
+  NEW_SUGGESTION_PREVIEW,
   REQUEST_FOR_DIRTY_RANGES,
   REQUEST_FOR_DOCUMENT,
   REQUEST_SUCCESS,
@@ -23,9 +25,31 @@ import {
   SET_CONFIG_VALUE,
   Action,
   ActionRequestComplete,
+  ActionRequestCancelled,
+  REQUEST_CANCELLED,
   ActionRemoveMatch,
   SET_FILTER_STATE,
-  ActionSetFilterState
+  ActionSetFilterState,
+  SET_RETRY_STATE,
+  ActionSetRetryState,
+  SET_CONNECTION_STATUS,
+  ActionSetConnectionStatus,
+  IGNORE_MATCH,
+  ActionMarkMatchAsIgnored,
+  IGNORE_MATCHES,
+  ActionMarkMatchesAsIgnored,
+  RESTORE_STATE,
+  ActionRestoreState,
+  SET_IGNORE_LIST,
+  ActionSetIgnoreList,
+  SUGGESTIONS_APPLIED,
+  ActionSuggestionsApplied,
+  RECEIVE_COLLAB_MESSAGE,
+  ActionReceiveCollabMessage,
+  markMatchAsIgnored,
+  removeMatch,
+  suggestionsApplied,
+  newHoverIdReceived
 } from "./actions";
 import {
   IMatch,
@@ -35,6 +59,7 @@ import {
 } from "../interfaces/IMatch";
 import { DecorationSet, Decoration } from "prosemirror-view";
 import omit from "lodash/omit";
+import uniq from "lodash/uniq";
 import {
   createDebugDecorationFromRange,
   DECORATION_DIRTY,
@@ -43,9 +68,13 @@ import {
   DECORATION_MATCH,
   createDecorationsForMatch,
   createDecorationsForMatches,
+  createDecorationsForSuggestionPreview,
+  DECORATION_SUGGESTION_PREVIEW,
   IMatchTypeToColourMap,
   defaultMatchColours
 } from "../utils/decoration";
+import { ISeverityConfig } from "../utils/severity";
+import { IConflictConfig } from "../utils/conflicts";
 import {
   mergeRanges,
   blockToRange,
@@ -55,7 +84,10 @@ import {
   removeOverlappingRanges
 } from "../utils/range";
 import { ExpandRanges, IFilterOptions } from "../createTyperighterPlugin";
-import { getBlocksFromDocument } from "../utils/prosemirror";
+import {
+  getBlocksFromDocument,
+  getPatchesFromReplacementText
+} from "../utils/prosemirror";
 import { Node } from "prosemirror-model";
 import {
   selectSingleBlockInFlightById,
@@ -66,15 +98,30 @@ import {
 import { Mapping } from "prosemirror-transform";
 import {
   createBlock,
+  createBlockHash,
   doNotSkipRanges,
   TGetSkippedRanges
 } from "../utils/block";
 import {
   addMatchesToState,
   deriveFilteredDecorations,
-  isFilterStateStale
+  isFilterStateStale,
+  resolveMatchConflicts
 } from "./helpers";
 import { TFilterMatches } from "../utils/plugin";
+import { TConnectionStatus } from "../interfaces/IMatcherAdapter";
+import {
+  IIgnoreList,
+  IGNORE_SCOPE_RULE,
+  IGNORE_SCOPE_WORD
+} from "../interfaces/IIgnoreStore";
+import { isMatchIgnored, isMatchValidForDoc } from "../utils/match";
+import {
+  COLLAB_MESSAGE_APPLY,
+  COLLAB_MESSAGE_IGNORE,
+  COLLAB_MESSAGE_MATCHES,
+  ICollabMatchesMessage
+} from "../interfaces/ICollab";
 
 export interface IBlockInFlight {
   // The categories that haven't yet reported for this block.
@@ -95,9 +142,17 @@ export interface IBlocksInFlightState {
   // The category ids that were sent with the request.
   categoryIds: string[];
   pendingBlocks: IBlockInFlight[];
+  // The blocks we've stopped waiting on, as they've been superseded. We
+  // ignore anything further we hear about them.
+  cancelledBlockIds: string[];
   mapping: Mapping;
 }
 
+export interface ICheckedBlock extends IRange {
+  // A hash of the block's content and categories when it was checked.
+  hash: string;
+}
+
 export interface IPluginConfig {
   // Should we trigger a request when the document is modified?
   requestMatchesOnDocModified: boolean;
@@ -106,6 +161,23 @@ export interface IPluginConfig {
   debug: boolean;
   // The colours to use when rendering matches
   matchColours: IMatchTypeToColourMap;
+  // The severity levels for matches, if we're using them. Matches are
+  // coloured and ordered by severity when this is present, and by match
+  // type when it isn't.
+  severity: ISeverityConfig | undefined;
+  // Are matches filtered by their severity levels, rather than their match
+  // types? We offer the filter options to match.
+  filterBySeverity: boolean;
+  // How we resolve conflicts between matches for the same or overlapping
+  // ranges, if we do. When this is absent, every match is kept.
+  conflicts: IConflictConfig | undefined;
+}
+
+export interface IRetryState {
+  // The number of retries we've made since the last successful request.
+  attempt: number;
+  // When we'll next retry, as a timestamp in milliseconds.
+  nextAttemptTime: number;
 }
 
 export interface IPluginState<
@@ -117,6 +189,10 @@ export interface IPluginState<
   decorations: DecorationSet;
   // The current matches for the document.
   currentMatches: TMatches[];
+  // The occurrences of matches the user has chosen to ignore.
+  ignoredMatches: TMatches[];
+  // The rules and words the user has chosen to ignore.
+  ignoreList: IIgnoreList;
   // The current matches, filtered by the current filterState and the
   // supplied filter predicate. This is cached in the state and only
   // recomputed when necessary – filtering decorations in the plugin
@@ -136,6 +212,10 @@ export interface IPluginState<
   // popup next to the correct section of the span.
   // See https://developer.mozilla.org/en-US/docs/Web/API/Element/getClientRects.
   hoverRectIndex: number | undefined;
+  // Should the overlay for the hovered match take focus? Only when the
+  // user opens it explicitly – otherwise we'd pull focus out of the editor
+  // while they're typing or stepping through matches.
+  hoverTakesFocus: boolean;
   // The id of the match the user is currently highlighting –
   // triggers a focus state on the match decoration.
   highlightId: string | undefined;
@@ -149,14 +229,25 @@ export interface IPluginState<
   };
   // The current error message.
   requestErrors: IMatchRequestError[];
+  // The blocks that have been checked successfully, mapped through subsequent
+  // changes. Document checks skip blocks whose content hasn't changed since.
+  checkedBlocks: ICheckedBlock[];
+  // If requests are failing and we're due to retry them, when and how often.
+  retryState: IRetryState | undefined;
+  // The status of the matcher adapter's connection to its service, if it
+  // holds one open.
+  connectionStatus: TConnectionStatus | undefined;
   // The current state of the filter
   filterState: TFilterState;
   // Has the document changed since the last document check?
   docChangedSinceCheck: boolean;
 }
 
-// The transaction meta key that namespaces our actions.
-export const PROSEMIRROR_TYPERIGHTER_ACTION = "PROSEMIRROR_TYPERIGHTER_ACTION";
+// The parts of the plugin state we can restore from a serialised state.
+export type IRestoredState<TPluginState extends IPluginState> = Pick<
+  TPluginState,
+  "currentMatches" | "ignoredMatches" | "filterState"
+>;
 
 interface IInitialStateOpts<
   TFilterState extends unknown,
@@ -166,7 +257,10 @@ interface IInitialStateOpts<
   matches: TMatch[];
   ignoreMatch: IIgnoreMatchPredicate;
   matchColours: IMatchTypeToColourMap;
+  severity?: ISeverityConfig;
+  conflicts?: IConflictConfig;
   filterOptions: IFilterOptions<TFilterState, TMatch> | undefined;
+  filterBySeverity?: boolean;
 }
 
 /**
@@ -180,7 +274,10 @@ export const createInitialState = <
   matches = [],
   ignoreMatch = includeAllMatches,
   matchColours = defaultMatchColours,
-  filterOptions
+  severity,
+  conflicts,
+  filterOptions,
+  filterBySeverity = false
 }: IInitialStateOpts<TFilterState, TMatch>): IPluginState<
   TFilterState,
   TMatch
@@ -189,31 +286,38 @@ export const createInitialState = <
     config: {
       debug: false,
       requestMatchesOnDocModified: false,
-      matchColours
+      matchColours,
+      severity,
+      filterBySeverity,
+      conflicts
     },
     decorations: DecorationSet.create(
       doc,
-      createDecorationsForMatches(matches, matchColours)
+      createDecorationsForMatches(matches, matchColours, severity)
     ),
     dirtiedRanges: [],
     currentMatches: [] as TMatch[],
+    ignoredMatches: [] as TMatch[],
+    ignoreList: { ruleIds: [], words: [] },
     filteredMatches: [] as TMatch[],
     selectedMatch: undefined,
     hoverId: undefined,
     hoverRectIndex: undefined,
+    hoverTakesFocus: false,
     highlightId: undefined,
     requestsInFlight: {},
     requestPending: false,
     requestErrors: [],
+    checkedBlocks: [],
+    retryState: undefined,
+    connectionStatus: undefined,
     filterState: filterOptions?.initialFilterState as TFilterState,
     docChangedSinceCheck: false
   };
 
-  const stateWithMatches = addMatchesToState(
-    initialState,
-    doc,
-    matches,
-    ignoreMatch
+  const stateWithMatches = resolveMatchConflicts(
+    addMatchesToState(initialState, doc, matches, ignoreMatch),
+    doc
   );
 
   if (!filterOptions) {
@@ -267,6 +371,8 @@ export const createReducer = <TPluginState extends IPluginState>(
           return handleNewHoverId(tr, state, action);
         case NEW_HIGHLIGHT_ID:
           return handleNewHighlightId(tr, state, action);
+        case NEW_SUGGESTION_PREVIEW:
+          return handleNewSuggestionPreview(tr, state, action);
         case REQUEST_FOR_DIRTY_RANGES:
           return handleMatchesRequestForDirtyRanges(tr, state, action);
         case REQUEST_FOR_DOCUMENT:
@@ -277,10 +383,24 @@ export const createReducer = <TPluginState extends IPluginState>(
           return handleMatchesRequestError(tr, state, action);
         case REQUEST_COMPLETE:
           return handleRequestComplete(tr, state, action);
+        case REQUEST_CANCELLED:
+          return handleRequestCancelled(tr, state, action);
         case SELECT_MATCH:
           return handleSelectMatch(tr, state, action);
         case REMOVE_MATCH:
           return handleRemoveMatch(tr, state, action);
+        case IGNORE_MATCH:
+          return handleMarkMatchAsIgnored(tr, state, action);
+        case IGNORE_MATCHES:
+          return handleMarkMatchesAsIgnored(tr, state, action);
+        case SET_IGNORE_LIST:
+          return handleSetIgnoreList(tr, state, action);
+        case SUGGESTIONS_APPLIED:
+          return handleSuggestionsApplied(tr, state, action);
+        case RECEIVE_COLLAB_MESSAGE:
+          return handleReceiveCollabMessage(ignoreMatch)(tr, state, action);
+        case RESTORE_STATE:
+          return handleRestoreState(ignoreMatch)(tr, state, action);
         case REMOVE_ALL_MATCHES:
           return handleRemoveAllMatches(tr, state);
         case APPLY_NEW_DIRTY_RANGES:
@@ -289,6 +409,10 @@ export const createReducer = <TPluginState extends IPluginState>(
           return handleSetConfigValue(tr, state, action);
         case SET_FILTER_STATE:
           return handleSetFilterState(tr, state, action);
+        case SET_RETRY_STATE:
+          return handleSetRetryState(tr, state, action);
+        case SET_CONNECTION_STATUS:
+          return handleSetConnectionStatus(tr, state, action);
         default:
           return state;
       }
@@ -335,6 +459,8 @@ const getNewStateFromTransaction = <TPluginState extends IPluginState>(
     decorations: incomingState.decorations.map(tr.mapping, tr.doc),
     dirtiedRanges: mapAndMergeRanges(incomingState.dirtiedRanges, tr.mapping),
     currentMatches: mapRanges(incomingState.currentMatches, tr.mapping),
+    ignoredMatches: mapRanges(incomingState.ignoredMatches, tr.mapping),
+    checkedBlocks: mapRanges(incomingState.checkedBlocks, tr.mapping),
     requestsInFlight: mappedRequestsInFlight,
     docChangedSinceCheck: true
   };
@@ -348,14 +474,22 @@ const getNewStateFromTransaction = <TPluginState extends IPluginState>(
  * Handle the selection of a hover id.
  */
 const handleSelectMatch = <TPluginState extends IPluginState>(
-  _: unknown,
+  tr: Transaction,
   state: TPluginState,
-  action: ActionSelectMatch
+  { payload: { matchId, openOverlay, focusOverlay } }: ActionSelectMatch
 ): TPluginState => {
-  return {
+  const newState = {
     ...state,
-    selectedMatch: action.payload.matchId
+    selectedMatch: matchId
   };
+  // We open the overlay for a match as if the user was hovering over it.
+  return openOverlay
+    ? createHandleNewFocusState<TPluginState>("hoverId")(
+        tr,
+        newState,
+        newHoverIdReceived(matchId, 0, focusOverlay)
+      )
+    : newState;
 };
 
 /**
@@ -384,6 +518,98 @@ const handleRemoveMatch = <TPluginState extends IPluginState>(
   };
 };
 
+/**
+ * Remove the matches whose suggestions have been applied.
+ */
+const handleSuggestionsApplied = <TPluginState extends IPluginState>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload: { matchIds } }: ActionSuggestionsApplied
+): TPluginState =>
+  matchIds.reduce(
+    (acc, id) => handleRemoveMatch(tr, acc, removeMatch(id)),
+    state
+  );
+
+/**
+ * Remove the matches the user has ignored, and their decorations, from the
+ * state.
+ */
+const removeIgnoredMatches = <TPluginState extends IPluginState>(
+  state: TPluginState
+): TPluginState => {
+  const idsToRemove = state.currentMatches
+    .filter(match =>
+      isMatchIgnored(match, state.ignoredMatches, state.ignoreList)
+    )
+    .map(match => match.matchId);
+  if (!idsToRemove.length) {
+    return state;
+  }
+  const decorationsToRemove = state.decorations.find(
+    undefined,
+    undefined,
+    spec => idsToRemove.includes(spec.id)
+  );
+  return {
+    ...state,
+    decorations: state.decorations.remove(decorationsToRemove),
+    currentMatches: state.currentMatches.filter(
+      match => !idsToRemove.includes(match.matchId)
+    )
+  };
+};
+
+/**
+ * Ignore a match, and any others within the given scope – every match for
+ * its rule, or every match for its text – now and in future responses.
+ */
+const handleMarkMatchAsIgnored = <TPluginState extends IPluginState>(
+  _: Transaction,
+  state: TPluginState,
+  { payload: { id, scope } }: ActionMarkMatchAsIgnored
+): TPluginState => {
+  const match = selectMatchByMatchId(state, id);
+  if (!match) {
+    return state;
+  }
+  const { ruleIds, words } = state.ignoreList;
+  switch (scope) {
+    case IGNORE_SCOPE_RULE:
+      return removeIgnoredMatches({
+        ...state,
+        ignoreList: { ruleIds: uniq(ruleIds.concat(match.ruleId)), words }
+      });
+    case IGNORE_SCOPE_WORD:
+      return removeIgnoredMatches({
+        ...state,
+        ignoreList: { ruleIds, words: uniq(words.concat(match.matchedText)) }
+      });
+    default:
+      return removeIgnoredMatches({
+        ...state,
+        ignoredMatches: state.ignoredMatches.concat(match)
+      });
+  }
+};
+
+const handleMarkMatchesAsIgnored = <TPluginState extends IPluginState>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload: { ids, scope } }: ActionMarkMatchesAsIgnored
+): TPluginState =>
+  ids.reduce(
+    (acc, id) =>
+      handleMarkMatchAsIgnored(tr, acc, markMatchAsIgnored(id, scope)),
+    state
+  );
+
+const handleSetIgnoreList = <TPluginState extends IPluginState>(
+  _: Transaction,
+  state: TPluginState,
+  { payload: { ignoreList } }: ActionSetIgnoreList
+): TPluginState => removeIgnoredMatches({ ...state, ignoreList });
+
 /**
  * Remove all matches and their decoration from the state.
  */
@@ -401,7 +627,10 @@ const handleRemoveAllMatches = <TPluginState extends IPluginState>(
     ...state,
     decorations,
     currentMatches: [],
-    requestErrors: []
+    requestErrors: [],
+    // Without matches, we can't treat any block as unchanged since its last
+    // check – the next check must send them all.
+    checkedBlocks: []
   };
 };
 
@@ -430,6 +659,20 @@ const createHandleNewFocusState = <TPluginState extends IPluginState>(
 
   decorations = decorations.remove(currentHoverDecorations);
 
+  // Previews belong to the match the user is considering – once they've
+  // moved on, they no longer apply.
+  if (focusState === "hoverId") {
+    decorations = decorations.remove(
+      decorations.find(
+        undefined,
+        undefined,
+        spec =>
+          spec.type === DECORATION_SUGGESTION_PREVIEW &&
+          spec.id !== incomingHoverId
+      )
+    );
+  }
+
   // Add the new decorations for the current and incoming matches.
   const decorationData = [{ id: incomingHoverId, isSelected: true }];
   if (incomingHoverId !== currentHoverId) {
@@ -445,28 +688,62 @@ const createHandleNewFocusState = <TPluginState extends IPluginState>(
       createDecorationsForMatch(
         output,
         state.config.matchColours,
-        hoverData.isSelected
+        hoverData.isSelected,
+        state.config.severity
       )
     );
   }, decorations);
 
-  const hoverRectIndex =
+  const [hoverRectIndex, hoverTakesFocus] =
     action.type === "NEW_HOVER_ID"
-      ? action.payload.rectIndex
-      : state.hoverRectIndex;
+      ? [action.payload.rectIndex, action.payload.takeFocus]
+      : [state.hoverRectIndex, state.hoverTakesFocus];
 
   return {
     ...state,
     decorations,
     hoverRectIndex,
+    hoverTakesFocus,
     [focusState]: action.payload.matchId
   };
 };
 
+/**
+ * Replace the current suggestion preview, if there is one, with a preview
+ * of the incoming suggestion text for its match.
+ */
+const handleNewSuggestionPreview = <TPluginState extends IPluginState>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload: { matchId, text } }: ActionNewSuggestionPreview
+): TPluginState => {
+  const currentPreviewDecorations = state.decorations.find(
+    undefined,
+    undefined,
+    spec => spec.type === DECORATION_SUGGESTION_PREVIEW
+  );
+  const decorations = state.decorations.remove(currentPreviewDecorations);
+  const match = matchId && selectMatchByMatchId(state, matchId);
+  if (!match || text === undefined) {
+    return { ...state, decorations };
+  }
+
+  const patches = getPatchesFromReplacementText(tr, match.from, match.to, text);
+  return {
+    ...state,
+    decorations: decorations.add(
+      tr.doc,
+      createDecorationsForSuggestionPreview(match.matchId, patches)
+    )
+  };
+};
+
 const handleNewDirtyRanges = <TPluginState extends IPluginState>(
   tr: Transaction,
   state: TPluginState,
-  { payload: { ranges: dirtiedRanges } }: ActionHandleNewDirtyRanges
+  {
+    payload: { ranges: dirtiedRanges, requestMatches }
+  }: ActionHandleNewDirtyRanges
 ): TPluginState => {
   // Map our dirtied ranges through the current transaction, and append any new ranges it has dirtied.
   let newDecorations = state.config.debug
@@ -481,17 +758,38 @@ const handleNewDirtyRanges = <TPluginState extends IPluginState>(
   const currentMatches = state.currentMatches.filter(
     output => findOverlappingRangeIndex(output, dirtiedRanges) === -1
   );
+  // Forget that we've checked the blocks we've just removed matches from –
+  // if the edit is reverted, their hashes would match again, and we'd skip
+  // them when the document is next checked.
+  const checkedBlocks = state.checkedBlocks.filter(
+    checkedBlock =>
+      findOverlappingRangeIndex(checkedBlock, dirtiedRanges) === -1
+  );
+
+  // We only care about storing dirtied ranges if we're validating
+  // in response to user edits.
+  if (!state.config.requestMatchesOnDocModified) {
+    return {
+      ...state,
+      currentMatches,
+      checkedBlocks,
+      decorations: newDecorations,
+      requestPending: false,
+      dirtiedRanges: []
+    };
+  }
 
+  // Changes another client is responsible for checking clear the matches
+  // they touch, but aren't requested here.
   return {
     ...state,
     currentMatches,
+    checkedBlocks,
     decorations: newDecorations,
-    // We only care about storing dirtied ranges if we're validating
-    // in response to user edits.
-    requestPending: state.config.requestMatchesOnDocModified ? true : false,
-    dirtiedRanges: state.config.requestMatchesOnDocModified
+    requestPending: requestMatches || state.requestPending,
+    dirtiedRanges: requestMatches
       ? state.dirtiedRanges.concat(dirtiedRanges)
-      : []
+      : state.dirtiedRanges
   };
 };
 
@@ -515,19 +813,48 @@ const createHandleMatchesRequestForDirtyRanges = (
 
 /**
  * Handle a matches request for the entire document.
+ *
+ * Unless the request is forced, we only send blocks that have changed since
+ * they were last checked, and keep the matches we have for the rest.
  */
 const createHandleMatchesRequestForDocument = (
   getIgnoredRanges: TGetSkippedRanges
 ) => <TPluginState extends IPluginState>(
   tr: Transaction,
   state: TPluginState,
-  { payload: { requestId, categoryIds } }: ActionRequestMatchesForDocument
+  {
+    payload: { requestId, categoryIds, force }
+  }: ActionRequestMatchesForDocument
 ): TPluginState => {
-  return handleRequestStart(
-    requestId,
-    getBlocksFromDocument(tr.doc, tr.time, getIgnoredRanges),
-    categoryIds
-  )(tr, state);
+  const blocks = getBlocksFromDocument(tr.doc, tr.time, getIgnoredRanges);
+  if (force) {
+    return handleRequestStart(requestId, blocks, categoryIds)(tr, {
+      ...state,
+      checkedBlocks: []
+    });
+  }
+
+  const isUnchanged = (block: IBlockWithSkippedRanges) => {
+    const hash = createBlockHash(block, categoryIds);
+    return (
+      state.checkedBlocks.some(
+        checkedBlock =>
+          checkedBlock.from === block.from && checkedBlock.hash === hash
+      ) && findOverlappingRangeIndex(block, state.dirtiedRanges) === -1
+    );
+  };
+  const unchangedBlocks = blocks.filter(isUnchanged);
+  const changedBlocks = blocks.filter(block => !isUnchanged(block));
+
+  // Discard anything we know about blocks that no longer exist.
+  const checkedBlocks = state.checkedBlocks.filter(checkedBlock =>
+    unchangedBlocks.some(block => block.from === checkedBlock.from)
+  );
+
+  return handleRequestStart(requestId, changedBlocks, categoryIds)(tr, {
+    ...state,
+    checkedBlocks
+  });
 };
 
 /**
@@ -541,6 +868,17 @@ const handleRequestStart = (
   tr: Transaction,
   state: TPluginState
 ): TPluginState => {
+  // If there's nothing to check, there's no request to track.
+  if (!blocks.length) {
+    return {
+      ...state,
+      requestErrors: [],
+      dirtiedRanges: [],
+      requestPending: false,
+      docChangedSinceCheck: false
+    };
+  }
+
   // Replace any debug decorations, if they exist.
   const decorations = state.config.debug
     ? removeDecorationsFromRanges(state.decorations, blocks, [
@@ -568,6 +906,7 @@ const handleRequestStart = (
       [requestId]: {
         totalBlocks: newBlockQueriesInFlight.length,
         pendingBlocks: newBlockQueriesInFlight,
+        cancelledBlockIds: [],
         mapping: tr.mapping,
         categoryIds
       }
@@ -673,12 +1012,24 @@ const handleMatchesRequestSuccess = (ignoreMatch: IIgnoreMatchPredicate) => <
     [] as Decoration[]
   );
 
-  const matchesToAdd = response.matches.filter(match => !ignoreMatch(match));
+  // The response may include blocks we've since cancelled – we only add
+  // matches for the blocks we're still waiting on.
+  const matchesToAdd = response.matches.filter(
+    match =>
+      !ignoreMatch(match) &&
+      requestsInFlight.some(
+        ({ block }) => match.from >= block.from && match.to <= block.to
+      )
+  );
   const currentMapping = selectBlockQueriesInFlightForSet(
     state,
     response.requestId
   )!.mapping;
-  const mappedMatchesToAdd = mapRanges(matchesToAdd, currentMapping);
+  // Matches the user has ignored are compared in the current document, so
+  // we map incoming matches before checking them.
+  const mappedMatchesToAdd = mapRanges(matchesToAdd, currentMapping).filter(
+    match => !isMatchIgnored(match, state.ignoredMatches, state.ignoreList)
+  );
 
   // Add the response to the current matches.
   currentMatches = currentMatches.concat(mappedMatchesToAdd);
@@ -690,7 +1041,8 @@ const handleMatchesRequestSuccess = (ignoreMatch: IIgnoreMatchPredicate) => <
   // Create our decorations for the newly current matches.
   const newDecorations = createDecorationsForMatches(
     mappedMatchesToAdd,
-    state.config.matchColours
+    state.config.matchColours,
+    state.config.severity
   );
 
   // Amend the block queries in flight to remove the returned blocks and categories
@@ -705,14 +1057,47 @@ const handleMatchesRequestSuccess = (ignoreMatch: IIgnoreMatchPredicate) => <
     state.requestsInFlight
   );
 
-  return {
-    ...state,
-    requestsInFlight: newBlockQueriesInFlight,
-    currentMatches,
-    decorations: state.decorations
-      .remove(decsToRemove)
-      .add(tr.doc, newDecorations)
-  };
+  return resolveMatchConflicts(
+    {
+      ...state,
+      requestsInFlight: newBlockQueriesInFlight,
+      checkedBlocks: addCheckedBlocks(
+        state.checkedBlocks,
+        requestsInFlight,
+        newBlockQueriesInFlight[response.requestId],
+        selectBlockQueriesInFlightForSet(state, response.requestId)!
+      ),
+      currentMatches,
+      decorations: state.decorations
+        .remove(decsToRemove)
+        .add(tr.doc, newDecorations)
+    },
+    tr.doc
+  );
+};
+
+/**
+ * Record the blocks that have been checked against all of their categories,
+ * replacing anything we knew about the ranges they cover.
+ */
+const addCheckedBlocks = (
+  checkedBlocks: ICheckedBlock[],
+  blocksInFlight: IBlockInFlight[],
+  newBlocksInFlightState: IBlocksInFlightState | undefined,
+  blocksInFlightState: IBlocksInFlightState
+): ICheckedBlock[] => {
+  const pendingBlockIds = newBlocksInFlightState
+    ? newBlocksInFlightState.pendingBlocks.map(_ => _.block.id)
+    : [];
+  const completedBlocks = blocksInFlight
+    .filter(_ => !pendingBlockIds.includes(_.block.id))
+    .map(({ block }) => ({
+      ...mapRanges([blockToRange(block)], blocksInFlightState.mapping)[0],
+      hash: createBlockHash(block, blocksInFlightState.categoryIds)
+    }));
+  return removeOverlappingRanges(checkedBlocks, completedBlocks).concat(
+    completedBlocks
+  );
 };
 
 /**
@@ -734,7 +1119,10 @@ const handleMatchesRequestError = <TPluginState extends IPluginState>(
 
   const requestsInFlight = selectBlockQueriesInFlightForSet(state, requestId);
 
-  if (!requestsInFlight) {
+  if (
+    !requestsInFlight ||
+    requestsInFlight.cancelledBlockIds.includes(blockId)
+  ) {
     return state;
   }
 
@@ -819,6 +1207,76 @@ const handleRequestComplete = <TPluginState extends IPluginState>(
   };
 };
 
+/**
+ * Handle a cancelled request, or cancelled blocks within it. The blocks we
+ * were still waiting on haven't been checked, so we map them back through
+ * the document and add them to the dirtied ranges to be checked on the
+ * next pass. The request remains in flight until it has no blocks left.
+ */
+const handleRequestCancelled = <TPluginState extends IPluginState>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload: { requestId, blockIds } }: ActionRequestCancelled
+): TPluginState => {
+  const requestInFlight = selectBlockQueriesInFlightForSet(state, requestId);
+  if (!requestInFlight) {
+    return state;
+  }
+
+  const isCancelled = (blockInFlight: IBlockInFlight) =>
+    !blockIds || blockIds.includes(blockInFlight.block.id);
+  const cancelledBlocks = requestInFlight.pendingBlocks.filter(isCancelled);
+  const pendingBlocks = requestInFlight.pendingBlocks.filter(
+    _ => !isCancelled(_)
+  );
+
+  const dirtiedRanges = mapRanges(
+    cancelledBlocks.map(_ => blockToRange(_.block)),
+    requestInFlight.mapping
+  );
+
+  const decsToRemove = dirtiedRanges.reduce(
+    (acc, range) =>
+      acc.concat(
+        state.decorations.find(
+          range.from,
+          range.to,
+          _ => _.type === DECORATION_INFLIGHT
+        )
+      ),
+    [] as Decoration[]
+  );
+
+  let decorations = state.decorations.remove(decsToRemove);
+
+  if (dirtiedRanges.length && state.config.debug) {
+    decorations = decorations.add(
+      tr.doc,
+      dirtiedRanges.map(range => createDebugDecorationFromRange(range))
+    );
+  }
+
+  return {
+    ...state,
+    dirtiedRanges: mergeRanges(state.dirtiedRanges.concat(dirtiedRanges)),
+    decorations,
+    requestsInFlight: pendingBlocks.length
+      ? {
+          ...state.requestsInFlight,
+          [requestId]: {
+            ...requestInFlight,
+            // Cancelled blocks no longer count towards the request's progress.
+            totalBlocks: requestInFlight.totalBlocks - cancelledBlocks.length,
+            pendingBlocks,
+            cancelledBlockIds: requestInFlight.cancelledBlockIds.concat(
+              cancelledBlocks.map(_ => _.block.id)
+            )
+          }
+        }
+      : omit(state.requestsInFlight, requestId)
+  };
+};
+
 const handleSetConfigValue = <TPluginState extends IPluginState>(
   _: Transaction,
   state: TPluginState,
@@ -839,3 +1297,150 @@ const handleSetFilterState = <TPluginState extends IPluginState>(
   ...state,
   filterState
 });
+
+const handleSetRetryState = <TPluginState extends IPluginState>(
+  _: Transaction,
+  state: TPluginState,
+  { payload: { retryState } }: ActionSetRetryState
+): TPluginState => ({
+  ...state,
+  retryState
+});
+
+const handleSetConnectionStatus = <TPluginState extends IPluginState>(
+  _: Transaction,
+  state: TPluginState,
+  { payload: { connectionStatus } }: ActionSetConnectionStatus
+): TPluginState => ({
+  ...state,
+  connectionStatus
+});
+
+/**
+ * Replace the current and ignored matches, and the filter state, with those
+ * we've restored from a serialised state.
+ */
+const handleRestoreState = (ignoreMatch: IIgnoreMatchPredicate) => <
+  TPluginState extends IPluginState
+>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload }: ActionRestoreState<TPluginState>
+): TPluginState => {
+  const currentMatches = payload.currentMatches.filter(
+    match =>
+      !ignoreMatch(match) &&
+      !isMatchIgnored(match, payload.ignoredMatches, state.ignoreList)
+  );
+  return {
+    ...state,
+    currentMatches,
+    ignoredMatches: payload.ignoredMatches,
+    filterState: payload.filterState,
+    selectedMatch: undefined,
+    hoverId: undefined,
+    highlightId: undefined,
+    decorations: DecorationSet.create(
+      tr.doc,
+      createDecorationsForMatches(
+        currentMatches,
+        state.config.matchColours,
+        state.config.severity
+      )
+    )
+  };
+};
+
+/**
+ * Apply the matches another client has received for some ranges of the
+ * document, replacing the matches we have for those ranges and categories.
+ *
+ * The matches were mapped to the sender's document, which may not be ours
+ * yet, so we drop any whose text doesn't agree with our document – the
+ * ranges they cover will have been dirtied, and checked again.
+ */
+const handleRemoteMatches = (ignoreMatch: IIgnoreMatchPredicate) => <
+  TPluginState extends IPluginState
+>(
+  tr: Transaction,
+  state: TPluginState,
+  {
+    ranges,
+    categoryIds,
+    matches
+  }: ICollabMatchesMessage<TPluginState["currentMatches"][0]>
+): TPluginState => {
+  const isInCategories = (categoryId: string) =>
+    categoryIds.includes(categoryId);
+  const matchesToAdd = matches.filter(
+    match =>
+      !ignoreMatch(match) &&
+      isMatchValidForDoc(match, tr.doc) &&
+      !isMatchIgnored(match, state.ignoredMatches, state.ignoreList) &&
+      // We don't apply incoming matches to ranges that have
+      // been dirtied since they were requested.
+      findOverlappingRangeIndex(match, state.dirtiedRanges) === -1
+  );
+  const currentMatches = removeOverlappingRanges(
+    state.currentMatches,
+    ranges,
+    match => !isInCategories(match.category.id)
+  ).concat(matchesToAdd);
+  const decsToRemove = ranges.reduce(
+    (acc, range) =>
+      acc.concat(
+        state.decorations.find(range.from, range.to, spec =>
+          isInCategories(spec.categoryId)
+        )
+      ),
+    [] as Decoration[]
+  );
+
+  return resolveMatchConflicts(
+    {
+      ...state,
+      currentMatches,
+      decorations: state.decorations
+        .remove(decsToRemove)
+        .add(
+          tr.doc,
+          createDecorationsForMatches(
+            matchesToAdd,
+            state.config.matchColours,
+            state.config.severity
+          )
+        )
+    },
+    tr.doc
+  );
+};
+
+/**
+ * Handle a message from another client in a collaborative session.
+ */
+const handleReceiveCollabMessage = (ignoreMatch: IIgnoreMatchPredicate) => <
+  TPluginState extends IPluginState
+>(
+  tr: Transaction,
+  state: TPluginState,
+  { payload: { message } }: ActionReceiveCollabMessage<TPluginState>
+): TPluginState => {
+  switch (message.type) {
+    case COLLAB_MESSAGE_MATCHES:
+      return handleRemoteMatches(ignoreMatch)(tr, state, message);
+    case COLLAB_MESSAGE_IGNORE:
+      return handleMarkMatchAsIgnored(
+        tr,
+        state,
+        markMatchAsIgnored(message.matchId, message.scope)
+      );
+    case COLLAB_MESSAGE_APPLY:
+      return handleSuggestionsApplied(
+        tr,
+        state,
+        suggestionsApplied(message.matchIds)
+      );
+    default:
+      return state;
+  }
+};
@@ -1,7 +1,13 @@
 import { sortBy } from "lodash";
-import { IMatch, ISuggestion } from "../interfaces/IMatch";
+import { IMatch, IRange, ISuggestion } from "../interfaces/IMatch";
 import { getMatchType, MatchType } from "../utils/decoration";
+import { getSeverityRank } from "../utils/severity";
 import { IPluginState, IBlockInFlight, IBlocksInFlightState } from "./reducer";
+import {
+  blockToRange,
+  findOverlappingRangeIndex,
+  mapRanges
+} from "../utils/range";
 
 export const selectMatchByMatchId = <TPluginState extends IPluginState>(
   state: TPluginState,
@@ -9,6 +15,27 @@ export const selectMatchByMatchId = <TPluginState extends IPluginState>(
 ): TPluginState['currentMatches'][number] | undefined =>
   state.currentMatches.find(match => match.matchId === matchId);
 
+/**
+ * Select the matches that are visible in the document – all of the current
+ * matches, unless a filter is applied.
+ */
+export const selectVisibleMatches = <TPluginState extends IPluginState>(
+  state: TPluginState
+): Array<TPluginState["currentMatches"][number]> =>
+  state.filterState ? state.filteredMatches : state.currentMatches;
+
+/**
+ * Select the visible match at the given position in the document, if
+ * there is one.
+ */
+export const selectMatchAtPosition = <TPluginState extends IPluginState>(
+  state: TPluginState,
+  pos: number
+): TPluginState["currentMatches"][number] | undefined =>
+  selectVisibleMatches(state).find(
+    match => match.from <= pos && pos <= match.to
+  );
+
 export const selectBlockQueriesInFlightForSet = (
   state: IPluginState<unknown>,
   requestId: string
@@ -45,6 +72,30 @@ export const selectAllBlockQueriesInFlight = (
     [] as IBlockInFlight[]
   );
 
+/**
+ * Select the pending blocks in flight that overlap the given ranges, grouped
+ * by request. We map each request's blocks through the changes made since
+ * the request was sent, so the ranges should be relative to the current
+ * document.
+ */
+export const selectBlockIdsInFlightOverlappingRanges = (
+  state: IPluginState,
+  ranges: IRange[]
+): Array<{ requestId: string; blockIds: string[] }> =>
+  Object.keys(state.requestsInFlight).reduce((acc, requestId) => {
+    const requestInFlight = state.requestsInFlight[requestId];
+    const blockIds = requestInFlight.pendingBlocks
+      .filter(
+        ({ block }) =>
+          findOverlappingRangeIndex(
+            mapRanges([blockToRange(block)], requestInFlight.mapping)[0],
+            ranges
+          ) !== -1
+      )
+      .map(_ => _.block.id);
+    return blockIds.length ? acc.concat({ requestId, blockIds }) : acc;
+  }, [] as Array<{ requestId: string; blockIds: string[] }>);
+
 type TSelectRequestInFlight = Array<
   IBlocksInFlightState & {
     requestId: string;
@@ -66,15 +117,12 @@ export const selectNewBlockInFlight = (
     [] as TSelectRequestInFlight
   );
 
-export const selectPercentRemaining = <TPluginState extends IPluginState>(
-  state?: TPluginState
-) => {
-  if (!state) {
-    return 0;
-  }
-  const [totalWork, totalRemainingWork] = Object.values(
-    state.requestsInFlight
-  ).reduce(
+/**
+ * Select the total work for the requests in flight, and the work remaining,
+ * counting each block once per category it's checked against.
+ */
+const selectWorkInFlight = (state: IPluginState): [number, number] =>
+  Object.values(state.requestsInFlight).reduce(
     ([totalWorkAcc, remainingWorkAcc], queryState) => {
       const allCategories = queryState.categoryIds.length === 0;
       const allWork =
@@ -87,6 +135,27 @@ export const selectPercentRemaining = <TPluginState extends IPluginState>(
       );
       return [totalWorkAcc + allWork, remainingWorkAcc + remainingWork];
     },
+    [0, 0] as [number, number]
+  );
+
+export const selectPercentRemaining = <TPluginState extends IPluginState>(
+  state?: TPluginState
+) => selectPercentRemainingForStates(state ? [state] : []);
+
+/**
+ * Select the percentage of work remaining across several plugin states,
+ * e.g. for several editors checked together.
+ */
+export const selectPercentRemainingForStates = <
+  TPluginState extends IPluginState
+>(
+  states: TPluginState[]
+) => {
+  const [totalWork, totalRemainingWork] = states.reduce(
+    ([totalWorkAcc, remainingWorkAcc], state) => {
+      const [work, remainingWork] = selectWorkInFlight(state);
+      return [totalWorkAcc + work, remainingWorkAcc + remainingWork];
+    },
     [0, 0]
   );
   return totalRemainingWork ? (totalRemainingWork / totalWork) * 100 : 0;
@@ -131,9 +200,26 @@ export const selectHasAuthError = (state: IPluginState): boolean => {
   return authErrors.length > 0;
 };
 
+export const selectRetryState = (state: IPluginState) => state.retryState;
+
+export const selectConnectionStatus = (state: IPluginState) =>
+  state.connectionStatus;
+
 export const selectRequestsInProgress = (state: IPluginState): boolean =>
   !!Object.keys(state.requestsInFlight).length;
 
+/**
+ * Has a check finished between the given states – were there requests in
+ * flight before, and are there none now?
+ */
+export const selectHasCheckCompleted = (
+  oldState: IPluginState | undefined,
+  newState: IPluginState
+): boolean =>
+  !!oldState &&
+  selectRequestsInProgress(oldState) &&
+  !selectRequestsInProgress(newState);
+
 export const selectHasMatches = <TMatch extends IMatch>(
   state: IPluginState<unknown, TMatch>
 ): boolean => !!state.currentMatches && state.currentMatches.length > 0;
@@ -156,14 +242,22 @@ export const selectDocumentOrderedMatches = <TMatch extends IMatch>(
 ): Array<IMatch<ISuggestion>> =>
   sortBy(state.filteredMatches, getSortOrderForMatchAppearance);
 
+/**
+ * Order matches by their severity, if we're using severity levels, or their
+ * match type if not, and then by their position in the document.
+ */
 export const selectImportanceOrderedMatches = <TMatch extends IMatch>(
   state: IPluginState<unknown, TMatch>
-): Array<IMatch<ISuggestion>> =>
-  sortBy(
+): Array<IMatch<ISuggestion>> => {
+  const { severity } = state.config;
+  return sortBy(
     state.filteredMatches,
-    getSortOrderForMatchType,
+    severity
+      ? (match: IMatch) => getSeverityRank(match, severity)
+      : getSortOrderForMatchType,
     getSortOrderForMatchAppearance
   );
+};
 
 export const selectMatches = <TMatch extends IMatch>(
   state: IPluginState<unknown, TMatch>,
@@ -0,0 +1,70 @@
+import { Node } from "prosemirror-model";
+import { IPluginState, IRestoredState } from "./reducer";
+import { hashString } from "../utils/hash";
+import { isMatchValidForDoc } from "../utils/match";
+
+// Bump this when the shape of the serialised state changes.
+export const SERIALISED_STATE_VERSION = 1;
+
+export interface ISerialisedTyperighterState<
+  TPluginState extends IPluginState = IPluginState
+> extends IRestoredState<TPluginState> {
+  version: number;
+  // A checksum of the document's text when the state was serialised.
+  docChecksum: string;
+}
+
+/**
+ * Get a checksum of the document's text, to tell whether the document we're
+ * restoring state into is the one the state was serialised from.
+ */
+export const getDocChecksum = (doc: Node) =>
+  hashString(doc.textBetween(0, doc.content.size, "\n", "\n"));
+
+/**
+ * Serialise the parts of the plugin state that are worth persisting with
+ * the document – the matches, the matches the user has ignored, and the
+ * filter state – in a form that can be stored as JSON.
+ */
+export const serialiseTyperighterState = <TPluginState extends IPluginState>(
+  state: TPluginState,
+  doc: Node
+): ISerialisedTyperighterState<TPluginState> => ({
+  version: SERIALISED_STATE_VERSION,
+  docChecksum: getDocChecksum(doc),
+  currentMatches: state.currentMatches,
+  ignoredMatches: state.ignoredMatches,
+  filterState: state.filterState
+});
+
+/**
+ * Validate a serialised state against the given document, returning the
+ * state we can restore, or undefined if we can't restore it at all.
+ *
+ * If the document has changed since the state was serialised, we drop any
+ * matches whose text no longer agrees with the document.
+ */
+export const validateSerialisedState = <TPluginState extends IPluginState>(
+  serialisedState: ISerialisedTyperighterState<TPluginState>,
+  doc: Node
+): IRestoredState<TPluginState> | undefined => {
+  if (
+    !serialisedState ||
+    serialisedState.version !== SERIALISED_STATE_VERSION
+  ) {
+    return undefined;
+  }
+  const { currentMatches, ignoredMatches, filterState } = serialisedState;
+  if (serialisedState.docChecksum === getDocChecksum(doc)) {
+    return { currentMatches, ignoredMatches, filterState };
+  }
+  return {
+    currentMatches: currentMatches.filter(match =>
+      isMatchValidForDoc(match, doc)
+    ),
+    ignoredMatches: ignoredMatches.filter(match =>
+      isMatchValidForDoc(match, doc)
+    ),
+    filterState
+  };
+};
@@ -13,7 +13,12 @@ import {
 } from "../../utils/decoration";
 import { filterByMatchState, IDefaultFilterState } from "../../utils/plugin";
 import { expandRangesToParentBlockNode } from "../../utils/range";
-import { deriveFilteredDecorations, isFilterStateStale } from "../helpers";
+import { createConflictConfig } from "../../utils/conflicts";
+import {
+  deriveFilteredDecorations,
+  isFilterStateStale,
+  resolveMatchConflicts
+} from "../helpers";
 import { createReducer, IPluginState } from "../reducer";
 
 describe("State helpers", () => {
@@ -119,4 +124,33 @@ describe("State helpers", () => {
       expect(decorations).toEqual(DecorationSet.empty);
     });
   });
+
+  describe("resolveMatchConflicts", () => {
+    it("should leave the state alone when there's no conflict config", () => {
+      const { tr, state } = getStateWithFilter(
+        [createMatch(1, 4), createMatch(1, 4)],
+        undefined
+      );
+      expect(resolveMatchConflicts(state, tr.doc)).toBe(state);
+    });
+    it("should remove matches and their decorations when the conflict config resolves them", () => {
+      const { tr, state, matches } = getStateWithFilter(
+        [createMatch(1, 4), createMatch(1, 4), createMatch(5, 7)],
+        undefined
+      );
+      const { currentMatches, decorations } = resolveMatchConflicts(
+        {
+          ...state,
+          config: { ...state.config, conflicts: createConflictConfig() }
+        },
+        tr.doc
+      );
+
+      expect(currentMatches).toEqual([matches[0], matches[2]]);
+      expect(decorations.find().map(_ => _.spec.id)).toEqual([
+        matches[0].matchId,
+        matches[2].matchId
+      ]);
+    });
+  });
 });
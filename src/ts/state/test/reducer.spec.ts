@@ -10,8 +10,13 @@ import {
   requestMatchesSuccess,
   newHoverIdReceived,
   requestMatchesComplete as requestComplete,
+  requestMatchesCancelled,
   removeMatch,
-  removeAllMatches
+  removeAllMatches,
+  setRetryState,
+  markMatchAsIgnored,
+  restoreState,
+  setIgnoreList
 } from "../actions";
 import { selectBlockQueriesInFlightForSet } from "../selectors";
 import { createReducer, IPluginState } from "../reducer";
@@ -21,7 +26,10 @@ import {
   createDecorationsForMatch,
   defaultMatchColours
 } from "../../utils/decoration";
-import { expandRangesToParentBlockNode } from "../../utils/range";
+import {
+  expandRangesToParentBlockNode,
+  expandRangesToSentence
+} from "../../utils/range";
 import { createDoc, p } from "../../test/helpers/prosemirror";
 import { IMatch, IMatchRequestError } from "../../interfaces/IMatch";
 import { addMatchesToState } from "../helpers";
@@ -40,6 +48,24 @@ import { createBlockId } from "../../utils/block";
 
 const reducer = createReducer(expandRangesToParentBlockNode);
 
+// Add matches for the given ranges to the state, as if they'd been
+// returned by a request.
+const addMatches = (
+  tr: Transaction,
+  state: IPluginState,
+  specs: Array<{ from: number; to: number }>
+) =>
+  reducer(
+    tr,
+    {
+      ...state,
+      requestsInFlight: createBlockQueriesInFlight(
+        specs.map(({ from, to }) => createBlock(from, to))
+      )
+    },
+    requestMatchesSuccess(createMatcherResponse(specs))
+  );
+
 describe("Action handlers", () => {
   describe("No action", () => {
     it("should just return the state", () => {
@@ -75,6 +101,127 @@ describe("Action handlers", () => {
       });
     });
   });
+  describe("requestMatchesForDocument for blocks we've already checked", () => {
+    const doc = createDoc(p("First paragraph"), p("Second paragraph"));
+    const requestId = "second-request";
+    const createStateWithCheckedDoc = () => {
+      const { state, tr } = createInitialData(doc);
+      const localState = reducer(
+        tr,
+        state,
+        requestMatchesForDocument(exampleRequestId, exampleCategoryIds)
+      );
+      const blocks = selectBlockQueriesInFlightForSet(
+        localState,
+        exampleRequestId
+      )!.pendingBlocks.map(_ => _.block);
+      return reducer(
+        tr,
+        localState,
+        requestMatchesSuccess({
+          requestId: exampleRequestId,
+          categoryIds: exampleCategoryIds,
+          blocks,
+          matches: []
+        })
+      );
+    };
+    const getRequestedText = (state: IPluginState) => {
+      const blocksInFlight = selectBlockQueriesInFlightForSet(state, requestId);
+      return blocksInFlight
+        ? blocksInFlight.pendingBlocks.map(_ => _.block.text)
+        : [];
+    };
+
+    it("should remember the blocks that have been checked", () => {
+      expect(createStateWithCheckedDoc().checkedBlocks).toMatchObject([
+        { from: 1, to: 17 },
+        { from: 18, to: 35 }
+      ]);
+    });
+    it("should not send a request if nothing has changed", () => {
+      const { tr } = createInitialData(doc);
+      const newState = reducer(
+        tr,
+        createStateWithCheckedDoc(),
+        requestMatchesForDocument(requestId, exampleCategoryIds)
+      );
+      expect(newState.requestsInFlight).toEqual({});
+      expect(newState.docChangedSinceCheck).toBe(false);
+    });
+    it("should only send blocks that have changed since they were checked", () => {
+      const { tr } = createInitialData(doc);
+      tr.insert(18, doc.type.schema.text("A "));
+      const newState = reducer(
+        tr,
+        createStateWithCheckedDoc(),
+        requestMatchesForDocument(requestId, exampleCategoryIds)
+      );
+      expect(getRequestedText(newState)).toEqual(["A Second paragraph"]);
+    });
+    it("should send blocks again if the categories have changed", () => {
+      const { tr } = createInitialData(doc);
+      const newState = reducer(
+        tr,
+        createStateWithCheckedDoc(),
+        requestMatchesForDocument(requestId, ["another-category"])
+      );
+      expect(getRequestedText(newState).length).toBe(2);
+    });
+    it("should send every block when the request is forced", () => {
+      const { tr } = createInitialData(doc);
+      const newState = reducer(
+        tr,
+        createStateWithCheckedDoc(),
+        requestMatchesForDocument(requestId, exampleCategoryIds, true)
+      );
+      expect(getRequestedText(newState)).toEqual([
+        "First paragraph",
+        "Second paragraph"
+      ]);
+    });
+    it("should send blocks that were edited and reverted since they were checked", () => {
+      const { tr } = createInitialData(doc);
+      const checkedState = createStateWithCheckedDoc();
+      const stateAfterEdit = reducer(
+        tr,
+        {
+          ...checkedState,
+          config: { ...checkedState.config, requestMatchesOnDocModified: false }
+        },
+        applyNewDirtiedRanges([{ from: 18, to: 20 }])
+      );
+      // The edit is reverted, leaving the document as it was checked.
+      const stateAfterRevert = reducer(
+        tr,
+        stateAfterEdit,
+        applyNewDirtiedRanges([{ from: 18, to: 18 }])
+      );
+      const newState = reducer(
+        tr,
+        stateAfterRevert,
+        requestMatchesForDocument(requestId, exampleCategoryIds)
+      );
+      expect(getRequestedText(newState)).toEqual(["Second paragraph"]);
+    });
+    it("should send every block once the matches have been cleared", () => {
+      const { tr } = createInitialData(doc);
+      const clearedState = reducer(
+        tr,
+        createStateWithCheckedDoc(),
+        removeAllMatches()
+      );
+      const newState = reducer(
+        tr,
+        clearedState,
+        requestMatchesForDocument(requestId, exampleCategoryIds)
+      );
+      expect(getRequestedText(newState)).toEqual([
+        "First paragraph",
+        "Second paragraph"
+      ]);
+    });
+  });
   describe("requestMatchesForDirtyRanges", () => {
     it("should remove the pending status and any dirtied ranges, and mark the request as in flight", () => {
       const { state, tr } = createInitialData();
@@ -469,6 +616,88 @@ describe("Action handlers", () => {
       expect(newState.requestsInFlight).toEqual({});
     });
   });
+  describe("requestMatchesCancelled", () => {
+    it("should remove the inflight request, and re-add its pending blocks as dirty ranges", () => {
+      const { state: initialState, tr } = createInitialData();
+      const state = {
+        ...initialState,
+        dirtiedRanges: [{ from: 30, to: 35 }],
+        requestsInFlight: createBlockQueriesInFlight([
+          createBlock(1, 25, "Example text to check")
+        ])
+      };
+      const newState = reducer(
+        tr,
+        state,
+        requestMatchesCancelled(exampleRequestId)
+      );
+      expect(newState.requestsInFlight).toEqual({});
+      expect(newState.dirtiedRanges).toEqual([
+        { from: 30, to: 35 },
+        { from: 1, to: 25 }
+      ]);
+    });
+    describe("cancelling blocks within a request", () => {
+      const { state: initialState, tr } = createInitialData();
+      const cancelledBlock = createBlock(1, 25, "Example text to check");
+      const otherBlock = createBlock(26, 47, "More text to check");
+      const state = reducer(
+        tr,
+        {
+          ...initialState,
+          requestsInFlight: createBlockQueriesInFlight([
+            cancelledBlock,
+            otherBlock
+          ])
+        },
+        requestMatchesCancelled(exampleRequestId, [cancelledBlock.id])
+      );
+      it("should re-add the cancelled blocks as dirty ranges, and keep waiting on the rest", () => {
+        expect(state.dirtiedRanges).toEqual([{ from: 1, to: 25 }]);
+        expect(
+          state.requestsInFlight[exampleRequestId].pendingBlocks.map(
+            _ => _.block.id
+          )
+        ).toEqual([otherBlock.id]);
+      });
+      it("should ignore matches for the cancelled blocks", () => {
+        const newState = reducer(
+          tr,
+          state,
+          requestMatchesSuccess(
+            createMatcherResponse([
+              { from: 1, to: 25, block: cancelledBlock },
+              { from: 26, to: 47, block: otherBlock }
+            ])
+          )
+        );
+        expect(newState.currentMatches.map(_ => _.from)).toEqual([26]);
+      });
+      it("should ignore errors for the cancelled blocks", () => {
+        const newState = reducer(
+          tr,
+          state,
+          requestError({
+            requestId: exampleRequestId,
+            blockId: cancelledBlock.id,
+            message: "Too many requests",
+            categoryIds: [],
+            type: "GENERAL_ERROR"
+          })
+        );
+        expect(newState).toBe(state);
+      });
+    });
+    it("should do nothing if the request is not found", () => {
+      const { state, tr } = createInitialData();
+      const newState = reducer(
+        tr,
+        state,
+        requestMatchesCancelled(exampleRequestId)
+      );
+      expect(newState).toBe(state);
+    });
+  });
   describe("newHoverIdReceived", () => {
     it("should update the hover id", () => {
       const { state } = createInitialData();
@@ -677,6 +906,125 @@ describe("Action handlers", () => {
       expect(newState.decorations).toEqual(state.decorations);
     });
   });
+  describe("markMatchAsIgnored", () => {
+    it("should remove the match, and remember that it's been ignored", () => {
+      const { state, tr } = createInitialData();
+      const matcherResponse = createMatcherResponse([{ from: 5, to: 10 }]);
+      let newState = addMatches(tr, state, [{ from: 5, to: 10 }]);
+      newState = reducer(
+        tr,
+        newState,
+        markMatchAsIgnored(matcherResponse.matches[0].matchId)
+      );
+      expect(newState.currentMatches).toEqual([]);
+      expect(newState.ignoredMatches).toEqual(matcherResponse.matches);
+      expect(newState.decorations).toEqual(state.decorations);
+    });
+    it("should not add ignored occurrences when they're returned again", () => {
+      const { state, tr } = createInitialData();
+      let newState = addMatches(tr, state, [{ from: 5, to: 10 }]);
+      newState = reducer(
+        tr,
+        newState,
+        markMatchAsIgnored(newState.currentMatches[0].matchId)
+      );
+      newState = addMatches(tr, newState, [
+        { from: 5, to: 10 },
+        { from: 12, to: 15 }
+      ]);
+      expect(newState.currentMatches.map(_ => _.from)).toEqual([12]);
+    });
+    it("should ignore every match for the rule when the scope is RULE", () => {
+      const { state, tr } = createInitialData();
+      let newState = addMatches(tr, state, [
+        { from: 5, to: 10 },
+        { from: 12, to: 15 }
+      ]);
+      newState = reducer(
+        tr,
+        newState,
+        markMatchAsIgnored(newState.currentMatches[0].matchId, "RULE")
+      );
+      expect(newState.currentMatches).toEqual([]);
+      expect(newState.decorations).toEqual(state.decorations);
+      expect(newState.ignoreList).toEqual({ ruleIds: ["ruleId"], words: [] });
+
+      newState = addMatches(tr, newState, [{ from: 16, to: 20 }]);
+      expect(newState.currentMatches).toEqual([]);
+    });
+    it("should add the match's text to the dictionary when the scope is WORD", () => {
+      const { state, tr } = createInitialData();
+      let newState = addMatches(tr, state, [{ from: 5, to: 10 }]);
+      newState = reducer(
+        tr,
+        newState,
+        markMatchAsIgnored(newState.currentMatches[0].matchId, "WORD")
+      );
+      expect(newState.ignoreList).toEqual({
+        ruleIds: [],
+        words: ["block text"]
+      });
+
+      newState = addMatches(tr, newState, [{ from: 12, to: 15 }]);
+      expect(newState.currentMatches).toEqual([]);
+    });
+    it("should not add rules or words that are already ignored", () => {
+      const { state, tr } = createInitialData();
+      const stateWithMatches = addMatches(tr, state, [{ from: 5, to: 10 }]);
+      // e.g. when we receive an ignore we've already applied from a
+      // collaborator, before the matches it removes have been cleared.
+      const ignoreTwice = (scope: "RULE" | "WORD") =>
+        reducer(
+          tr,
+          {
+            ...stateWithMatches,
+            ignoreList: { ruleIds: ["ruleId"], words: ["block text"] }
+          },
+          markMatchAsIgnored(stateWithMatches.currentMatches[0].matchId, scope)
+        ).ignoreList;
+
+      expect(ignoreTwice("RULE")).toEqual({
+        ruleIds: ["ruleId"],
+        words: ["block text"]
+      });
+      expect(ignoreTwice("WORD")).toEqual({
+        ruleIds: ["ruleId"],
+        words: ["block text"]
+      });
+    });
+  });
+  describe("setIgnoreList", () => {
+    it("should set the ignore list, removing matches it ignores", () => {
+      const { state, tr } = createInitialData();
+      const ignoreList = { ruleIds: ["ruleId"], words: [] };
+      let newState = addMatches(tr, state, [{ from: 5, to: 10 }]);
+      newState = reducer(tr, newState, setIgnoreList(ignoreList));
+      expect(newState.ignoreList).toBe(ignoreList);
+      expect(newState.currentMatches).toEqual([]);
+      expect(newState.decorations).toEqual(state.decorations);
+    });
+  });
+  describe("restoreState", () => {
+    it("should replace the current and ignored matches, and the filter state", () => {
+      const { state, tr } = createInitialData();
+      const currentMatches = [createMatch(1, 4)];
+      const ignoredMatches = [createMatch(5, 8)];
+      const newState = reducer(
+        tr,
+        state,
+        restoreState({ currentMatches, ignoredMatches, filterState: ["a"] })
+      );
+      expect(newState.currentMatches).toEqual(currentMatches);
+      expect(newState.ignoredMatches).toEqual(ignoredMatches);
+      expect(newState.filterState).toEqual(["a"]);
+      expect(newState.decorations).toEqual(
+        DecorationSet.empty.add(
+          tr.doc,
+          createDecorationsForMatch(currentMatches[0], defaultMatchColours)
+        )
+      );
+    });
+  });
   describe("removeAllMatches", () => {
     it("should be a noop when matches aren't present", () => {
       const { state, tr } = createInitialData();
@@ -773,4 +1121,63 @@ describe("Action handlers", () => {
       );
     });
   });
+  describe("expanding dirtied ranges to sentences", () => {
+    it("should only check the affected sentences, keeping matches elsewhere", () => {
+      const sentenceReducer = createReducer(expandRangesToSentence);
+      const doc = createDoc(p("The first sentence. A second. A third."));
+      const { state, tr } = createInitialData(doc);
+      const { matches } = createMatcherResponse([
+        { from: 1, to: 39, wordFrom: 5, wordTo: 10 },
+        { from: 1, to: 39, wordFrom: 33, wordTo: 38 }
+      ]);
+      let localState = addMatchesToState(state, doc, matches);
+
+      localState = sentenceReducer(
+        tr,
+        localState,
+        applyNewDirtiedRanges([{ from: 22, to: 23 }])
+      );
+      localState = sentenceReducer(
+        tr,
+        localState,
+        requestMatchesForDirtyRanges(exampleRequestId, ["1"])
+      );
+      const [blockInFlight] = selectBlockQueriesInFlightForSet(
+        localState,
+        exampleRequestId
+      )!.pendingBlocks;
+      expect(blockInFlight.block).toMatchObject({
+        from: 21,
+        to: 30,
+        text: "A second."
+      });
+
+      localState = sentenceReducer(
+        tr,
+        localState,
+        requestMatchesSuccess({
+          blocks: [blockInFlight.block],
+          categoryIds: ["1"],
+          matches: [],
+          requestId: exampleRequestId
+        })
+      );
+      expect(localState.currentMatches).toEqual(matches);
+    });
+  });
+  describe("setRetryState", () => {
+    it("should set and clear the retry state", () => {
+      const { state } = createInitialData();
+      const retryState = { attempt: 2, nextAttemptTime: 1337 };
+      const retryingState = reducer(
+        new Transaction(createDoc),
+        state,
+        setRetryState(retryState)
+      );
+      expect(retryingState).toEqual({ ...state, retryState });
+      expect(
+        reducer(new Transaction(createDoc), retryingState, setRetryState(undefined))
+      ).toEqual(state);
+    });
+  });
 });
@@ -1,19 +1,26 @@
 import {
   selectPercentRemaining,
+  selectPercentRemainingForStates,
   selectMatchByMatchId,
   selectSuggestionAndRange,
   selectSingleBlockInFlightById,
-  selectNewBlockInFlight
+  selectNewBlockInFlight,
+  selectBlockIdsInFlightOverlappingRanges,
+  selectImportanceOrderedMatches,
+  selectHasCheckCompleted
 } from "../selectors";
 import {
   createBlock,
   createBlockQueriesInFlight,
   exampleRequestId,
   createInitialData,
-  exampleCategoryIds
+  exampleCategoryIds,
+  createMatch
 } from "../../test/helpers/fixtures";
+import { createSeverityConfig } from "../../utils/severity";
 import { IMatch } from '../../interfaces/IMatch';
 import { omit } from "lodash";
+import { Mapping, StepMap } from "prosemirror-transform";
 
 describe("selectors", () => {
   describe("selectMatchById", () => {
@@ -121,6 +128,45 @@ describe("selectors", () => {
       ).toEqual([]);
     });
   });
+  describe("selectBlockIdsInFlightOverlappingRanges", () => {
+    it("should find the pending blocks that overlap the given ranges, grouped by request", () => {
+      const { state } = createInitialData();
+      const requestsInFlight = {
+        ...createBlockQueriesInFlight([createBlock(0, 5), createBlock(6, 9)]),
+        ...createBlockQueriesInFlight([createBlock(10, 15)], "set-id-2")
+      };
+      expect(
+        selectBlockIdsInFlightOverlappingRanges(
+          { ...state, requestsInFlight },
+          [{ from: 2, to: 3 }]
+        )
+      ).toEqual([
+        { requestId: exampleRequestId, blockIds: [createBlock(0, 5).id] }
+      ]);
+    });
+    it("should map pending blocks through changes made since the request was sent", () => {
+      const { state } = createInitialData();
+      const requestsInFlight = createBlockQueriesInFlight([createBlock(0, 5)]);
+      // Insert five characters at the start of the document.
+      const mapping = new Mapping([new StepMap([0, 0, 5])]);
+      expect(
+        selectBlockIdsInFlightOverlappingRanges(
+          {
+            ...state,
+            requestsInFlight: {
+              [exampleRequestId]: {
+                ...requestsInFlight[exampleRequestId],
+                mapping
+              }
+            }
+          },
+          [{ from: 8, to: 9 }]
+        )
+      ).toEqual([
+        { requestId: exampleRequestId, blockIds: [createBlock(0, 5).id] }
+      ]);
+    });
+  });
   describe("selectSuggestionAndRange", () => {
     it("should handle unknown outputs", () => {
       const { state } = createInitialData();
@@ -313,4 +359,95 @@ describe("selectors", () => {
       expect(selectPercentRemaining(state)).toEqual(40);
     });
   });
+  describe("selectPercentRemainingForStates", () => {
+    it("should select the percentage remaining across all of the given states", () => {
+      const { state: finishedState } = createInitialData();
+      const pendingState = {
+        ...finishedState,
+        requestsInFlight: createBlockQueriesInFlight(
+          [createBlock(0, 5), createBlock(10, 15)],
+          exampleRequestId,
+          ["1", "2"],
+          ["1"]
+        )
+      };
+      expect(selectPercentRemainingForStates([])).toEqual(0);
+      expect(
+        selectPercentRemainingForStates([finishedState, pendingState])
+      ).toEqual(50);
+      expect(
+        selectPercentRemainingForStates([pendingState, pendingState])
+      ).toEqual(50);
+    });
+  });
+  describe("selectHasCheckCompleted", () => {
+    it("should report a completed check when the last requests in flight have finished", () => {
+      const { state: finishedState } = createInitialData();
+      const pendingState = {
+        ...finishedState,
+        requestsInFlight: createBlockQueriesInFlight(
+          [createBlock(0, 5)],
+          exampleRequestId,
+          ["1"],
+          []
+        )
+      };
+      expect(selectHasCheckCompleted(pendingState, finishedState)).toBe(true);
+      expect(selectHasCheckCompleted(finishedState, pendingState)).toBe(false);
+      expect(selectHasCheckCompleted(pendingState, pendingState)).toBe(false);
+      expect(selectHasCheckCompleted(finishedState, finishedState)).toBe(false);
+      expect(selectHasCheckCompleted(undefined, finishedState)).toBe(false);
+    });
+  });
+  describe("selectImportanceOrderedMatches", () => {
+    it("should order matches by match type, and then by position", () => {
+      const { state } = createInitialData();
+      const laterMatch = createMatch(10);
+      const earlierMatch = createMatch(1);
+      const matchWithReplacement: IMatch = {
+        ...createMatch(20),
+        replacement: { type: "TEXT_SUGGESTION", text: "replacement" }
+      };
+      expect(
+        selectImportanceOrderedMatches({
+          ...state,
+          filteredMatches: [laterMatch, earlierMatch, matchWithReplacement]
+        })
+      ).toEqual([matchWithReplacement, earlierMatch, laterMatch]);
+    });
+    it("should order matches by severity when we're using severity levels, and then by position", () => {
+      const { state } = createInitialData();
+      const styleMatch = { ...createMatch(1), severity: "style" };
+      const laterErrorMatch = { ...createMatch(20), severity: "error" };
+      const errorMatch = { ...createMatch(10), severity: "error" };
+      const unknownMatch = createMatch(5);
+      const warningMatch = {
+        ...createMatch(15),
+        category: { id: "legal", name: "Legal", colour: "#ff0000" }
+      };
+      const severity = createSeverityConfig({
+        getMatchSeverity: match =>
+          match.category.id === "legal" ? "warning" : undefined
+      });
+      expect(
+        selectImportanceOrderedMatches({
+          ...state,
+          config: { ...state.config, severity },
+          filteredMatches: [
+            styleMatch,
+            laterErrorMatch,
+            unknownMatch,
+            errorMatch,
+            warningMatch
+          ]
+        })
+      ).toEqual([
+        errorMatch,
+        laterErrorMatch,
+        warningMatch,
+        styleMatch,
+        unknownMatch
+      ]);
+    });
+  });
 });
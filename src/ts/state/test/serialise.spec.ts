@@ -0,0 +1,79 @@
+import {
+  serialiseTyperighterState,
+  validateSerialisedState,
+  getDocChecksum,
+  SERIALISED_STATE_VERSION
+} from "../serialise";
+import { createDoc, p } from "../../test/helpers/prosemirror";
+import { createInitialData, createMatch } from "../../test/helpers/fixtures";
+
+const doc = createDoc(p("Example text to check"));
+const createMatchForText = (from: number, to: number) => ({
+  ...createMatch(from, to),
+  matchedText: doc.textBetween(from, to)
+});
+
+describe("serialise", () => {
+  describe("serialiseTyperighterState", () => {
+    it("should capture the matches, ignored matches, filter state and doc checksum", () => {
+      const { state } = createInitialData(doc);
+      const currentMatches = [createMatchForText(1, 8)];
+      const ignoredMatches = [createMatchForText(9, 13)];
+
+      const serialisedState = serialiseTyperighterState(
+        { ...state, currentMatches, ignoredMatches, filterState: ["a"] },
+        doc
+      );
+
+      expect(serialisedState).toEqual({
+        version: SERIALISED_STATE_VERSION,
+        docChecksum: getDocChecksum(doc),
+        currentMatches,
+        ignoredMatches,
+        filterState: ["a"]
+      });
+    });
+  });
+
+  describe("validateSerialisedState", () => {
+    const serialisedState = {
+      version: SERIALISED_STATE_VERSION,
+      docChecksum: getDocChecksum(doc),
+      currentMatches: [createMatchForText(1, 8), createMatchForText(14, 16)],
+      ignoredMatches: [createMatchForText(9, 13)],
+      filterState: undefined
+    };
+
+    it("should restore everything if the document hasn't changed", () => {
+      expect(validateSerialisedState(serialisedState, doc)).toEqual({
+        currentMatches: serialisedState.currentMatches,
+        ignoredMatches: serialisedState.ignoredMatches,
+        filterState: undefined
+      });
+    });
+
+    it("should drop matches whose text no longer agrees with the document", () => {
+      const changedDoc = createDoc(p("Example word at"));
+
+      expect(validateSerialisedState(serialisedState, changedDoc)).toEqual({
+        currentMatches: [serialisedState.currentMatches[0]],
+        ignoredMatches: [],
+        filterState: undefined
+      });
+    });
+
+    it("should drop matches that fall outside of the document", () => {
+      const shortDoc = createDoc(p("Example"));
+
+      expect(
+        validateSerialisedState(serialisedState, shortDoc)!.currentMatches
+      ).toEqual([serialisedState.currentMatches[0]]);
+    });
+
+    it("should refuse states serialised with a different version", () => {
+      expect(
+        validateSerialisedState({ ...serialisedState, version: 0 }, doc)
+      ).toBe(undefined);
+    });
+  });
+});
@@ -1,5 +1,14 @@
 import { createEditor } from "./helpers/createEditor";
 import { createMatch } from "./helpers/fixtures";
+import { IMatch } from "../interfaces/IMatch";
+import { TextSelection, Transaction } from "prosemirror-state";
+import {
+  selectNextMatchCommand,
+  selectPreviousMatchCommand,
+  openOverlayForMatchAtCursorCommand,
+  applyFirstSuggestionForSelectedMatchCommand,
+  ignoreSelectedMatchCommand
+} from "../commands";
 
 /**
  * Applies a suggestion to a document, and returns the editor element
@@ -120,5 +129,289 @@ describe("Commands", () => {
 
       expect(editorElement.innerHTML).toBe("An a<em>mp</em>le sentence");
     });
+    it("should only apply the first of several suggestions for overlapping ranges", () => {
+      const matches = [
+        { ...createMatch(4, 11), matchId: "first" },
+        { ...createMatch(7, 11), matchId: "overlapping" }
+      ];
+      const { editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        matches
+      );
+
+      commands.applySuggestions([
+        { matchId: "first", text: "improved" },
+        { matchId: "overlapping", text: "xyz" }
+      ]);
+
+      expect(editorElement.querySelector("p")!.textContent).toBe(
+        "An improved sentence"
+      );
+    });
+  });
+
+  describe("applySuggestionsForMatchesCommand", () => {
+    it("should apply the preferred suggestion for each match in a single transaction", () => {
+      const matches = [
+        {
+          ...createMatch(1, 3, [{ text: "A", type: "TEXT_SUGGESTION" }]),
+          matchId: "first"
+        },
+        {
+          ...createMatch(4, 11, [{ text: "unused", type: "TEXT_SUGGESTION" }]),
+          replacement: { text: "improved", type: "TEXT_SUGGESTION" },
+          matchId: "second"
+        },
+        { ...createMatch(12, 20), matchId: "no-suggestion" }
+      ];
+      const { view, editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        matches as IMatch[]
+      );
+      const dispatch = jest.spyOn(view, "dispatch");
+
+      commands.applySuggestionsForMatches(["first", "second", "no-suggestion"]);
+
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      expect(editorElement.querySelector("p")!.textContent).toBe(
+        "A improved sentence"
+      );
+    });
+  });
+
+  describe("ignoreMatchesCommand", () => {
+    it("should ignore each of the given matches", () => {
+      const matches = [
+        { ...createMatch(1, 3), matchId: "first" },
+        { ...createMatch(4, 11), matchId: "second" },
+        { ...createMatch(12, 20), matchId: "third" }
+      ];
+      const { commands, store } = createEditor(
+        "<p>An example sentence</p>",
+        matches
+      );
+
+      expect(commands.ignoreMatches(["first", "third"])).toBe(true);
+
+      const state = store.getState()!;
+      expect(state.currentMatches.map(_ => _.matchId)).toEqual(["second"]);
+      expect(state.ignoredMatches.map(_ => _.matchId)).toEqual([
+        "first",
+        "third"
+      ]);
+    });
+
+    it("should return false when none of the matches exist", () => {
+      const { commands } = createEditor("<p>An example sentence</p>");
+
+      expect(commands.ignoreMatches(["missing"])).toBe(false);
+    });
+  });
+
+  describe("Suggestion previews", () => {
+    const getPreviewText = (
+      editorElement: HTMLElement,
+      classToRemove: string
+    ) => {
+      const paragraph = editorElement.querySelector("p")!.cloneNode(
+        true
+      ) as HTMLElement;
+      paragraph
+        .querySelectorAll(`.${classToRemove}`)
+        .forEach(element => element.remove());
+      return paragraph.textContent;
+    };
+
+    it("should preview a suggestion as insertions and deletions in the document", () => {
+      const { editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        [createMatch(4, 11)]
+      );
+
+      commands.previewSuggestion(createMatch(4, 11).matchId, "exemplary");
+
+      expect(
+        editorElement.querySelectorAll(".MatchDecoration__preview--delete")
+          .length
+      ).toBeGreaterThan(0);
+      expect(
+        getPreviewText(editorElement, "MatchDecoration__preview--insert")
+      ).toBe("An example sentence");
+      expect(
+        getPreviewText(editorElement, "MatchDecoration__preview--delete")
+      ).toBe("An exemplary sentence");
+    });
+
+    it("should remove the preview when it's stopped, without altering the document", () => {
+      const { editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        [createMatch(4, 11)]
+      );
+
+      commands.previewSuggestion(createMatch(4, 11).matchId, "exemplary");
+      commands.stopSuggestionPreview();
+
+      expect(
+        editorElement.querySelectorAll(".MatchDecoration__preview").length
+      ).toBe(0);
+      expect(editorElement.querySelector("p")!.textContent).toBe(
+        "An example sentence"
+      );
+    });
+
+    it("should remove the preview when the user stops hovering over its match", () => {
+      const match = createMatch(4, 11);
+      const { editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        [match]
+      );
+
+      commands.indicateHover(match.matchId, 0);
+      commands.previewSuggestion(match.matchId, "exemplary");
+      commands.stopHover();
+
+      expect(
+        editorElement.querySelectorAll(".MatchDecoration__preview").length
+      ).toBe(0);
+    });
+
+    it("should remove the preview when the suggestion is applied", () => {
+      const match = createMatch(4, 11);
+      const { editorElement, commands } = createEditor(
+        "<p>An example sentence</p>",
+        [match]
+      );
+
+      commands.previewSuggestion(match.matchId, "exemplary");
+      commands.applySuggestions([
+        { matchId: match.matchId, text: "exemplary" }
+      ]);
+
+      expect(
+        editorElement.querySelectorAll(".MatchDecoration__preview").length
+      ).toBe(0);
+      expect(editorElement.querySelector("p")!.textContent).toBe(
+        "An exemplary sentence"
+      );
+    });
+  });
+
+  describe("Keyboard review commands", () => {
+    // jsdom can't render DOM selections, so we apply these commands to the
+    // editor state directly, rather than dispatching them to the view.
+    const createReviewState = () => {
+      const matches = [
+        {
+          ...createMatch(1, 3, [{ text: "A", type: "TEXT_SUGGESTION" }]),
+          matchId: "first"
+        },
+        { ...createMatch(4, 11), matchId: "second" }
+      ];
+      const { view, pluginKey } = createEditor(
+        "<p>An example sentence</p>",
+        matches as IMatch[]
+      );
+      let state = view.state;
+      const dispatch = (tr: Transaction) => {
+        state = state.apply(tr);
+      };
+      return {
+        run: (command: ReturnType<typeof selectNextMatchCommand>) =>
+          command(pluginKey)(state, dispatch),
+        getState: () => state,
+        getPluginState: () => pluginKey.getState(state)
+      };
+    };
+
+    it("should select the next match after the cursor, opening its overlay", () => {
+      const { run, getState, getPluginState } = createReviewState();
+
+      run(selectNextMatchCommand());
+
+      expect(getPluginState().selectedMatch).toBe("first");
+      expect(getPluginState().hoverId).toBe("first");
+      // Focus stays in the editor, so the user can keep reviewing.
+      expect(getPluginState().hoverTakesFocus).toBe(false);
+      expect(getState().selection.from).toBe(1);
+
+      run(selectNextMatchCommand());
+
+      expect(getPluginState().selectedMatch).toBe("second");
+      expect(getState().selection.from).toBe(4);
+    });
+
+    it("should wrap around the document when selecting matches", () => {
+      const { run, getPluginState } = createReviewState();
+
+      run(selectPreviousMatchCommand());
+      expect(getPluginState().selectedMatch).toBe("second");
+
+      run(selectNextMatchCommand());
+      expect(getPluginState().selectedMatch).toBe("first");
+    });
+
+    it("should open the overlay for the match at the cursor", () => {
+      const { run, getPluginState } = createReviewState();
+      run(() => (state, dispatch) => {
+        dispatch!(state.tr.setSelection(TextSelection.create(state.doc, 6)));
+        return true;
+      });
+
+      expect(run(openOverlayForMatchAtCursorCommand())).toBe(true);
+      expect(getPluginState().hoverId).toBe("second");
+      expect(getPluginState().hoverTakesFocus).toBe(true);
+    });
+
+    it("should apply the first suggestion for the selected match", () => {
+      const { run, getState } = createReviewState();
+      run(selectNextMatchCommand());
+
+      expect(run(applyFirstSuggestionForSelectedMatchCommand())).toBe(true);
+      expect(getState().doc.textContent).toBe("A example sentence");
+    });
+
+    it("should ignore the selected match", () => {
+      const { run, getPluginState } = createReviewState();
+      run(selectPreviousMatchCommand());
+
+      expect(run(ignoreSelectedMatchCommand())).toBe(true);
+      expect(getPluginState().currentMatches.map((_: IMatch) => _.matchId)).toEqual([
+        "first"
+      ]);
+    });
+
+    it("should do nothing when there is no selected match", () => {
+      const { run } = createReviewState();
+
+      expect(run(applyFirstSuggestionForSelectedMatchCommand())).toBe(false);
+      expect(run(ignoreSelectedMatchCommand())).toBe(false);
+    });
+  });
+
+  describe("serialiseTyperighterState and restoreTyperighterState", () => {
+    it("should restore the matches and ignored matches of a serialised state", () => {
+      const matches = [
+        { ...createMatch(1, 3), matchId: "first", matchedText: "An" },
+        { ...createMatch(4, 11), matchId: "second", matchedText: "example" }
+      ];
+      const { commands } = createEditor("<p>An example sentence</p>", matches);
+      commands.ignoreMatch("first");
+      const serialisedState = JSON.parse(
+        JSON.stringify(commands.serialiseTyperighterState())
+      );
+
+      const { commands: newCommands } = createEditor(
+        "<p>An example sentence</p>"
+      );
+      newCommands.restoreTyperighterState(serialisedState);
+
+      expect(newCommands.serialiseTyperighterState()).toEqual(serialisedState);
+      expect(serialisedState.currentMatches.map((_: IMatch) => _.matchId)).toEqual([
+        "second"
+      ]);
+      expect(serialisedState.ignoredMatches.map((_: IMatch) => _.matchId)).toEqual([
+        "first"
+      ]);
+    });
   });
 });
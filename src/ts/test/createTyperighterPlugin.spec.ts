@@ -1,4 +1,4 @@
-import { EditorState } from "prosemirror-state";
+import { EditorState, TextSelection, Transaction } from "prosemirror-state";
 import { EditorView } from "prosemirror-view";
 
 import {
@@ -11,13 +11,23 @@ import {
 import createTyperighterPlugin, {
   IPluginOptions
 } from "../createTyperighterPlugin";
+import { TOverlayTrigger } from "../utils/plugin";
 import { createMatch, createMatcherResponse } from "./helpers/fixtures";
 import { createEditor } from "./helpers/createEditor";
 import { createBoundCommands } from "../commands";
 import { IMatch, IMatcherResponse } from "../interfaces/IMatch";
 import { getBlocksFromDocument } from "../utils/prosemirror";
 import { createDecorationsForMatches, MatchType } from "../utils/decoration";
-import { filterByMatchState, IDefaultFilterState } from "../utils/plugin";
+import {
+  filterByMatchState,
+  IDefaultFilterState,
+  createFilterBySeverity
+} from "../utils/plugin";
+import { createSeverityConfig, SEVERITY_UNKNOWN } from "../utils/severity";
+import InMemoryIgnoreStore from "../services/ignoreStores/InMemoryIgnoreStore";
+import { TCollabMessage } from "../interfaces/ICollab";
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve));
 
 const doc = createDoc(p("Example text to check"), p("More text to check"));
 const blocks = getBlocksFromDocument(doc);
@@ -30,7 +40,7 @@ const matchWithReplacement: IMatch = {
 const createPlugin = <TFilterState = unknown>(
   opts?: IPluginOptions<TFilterState>
 ) => {
-  const { plugin, getState, store } = createTyperighterPlugin({
+  const { plugin, getState, store, pluginKey } = createTyperighterPlugin({
     matches,
     ...opts
   });
@@ -40,7 +50,7 @@ const createPlugin = <TFilterState = unknown>(
   });
   const editorElement = document.createElement("div");
   const view = new EditorView(editorElement, { state });
-  const commands = createBoundCommands(view, getState);
+  const commands = createBoundCommands(view, pluginKey);
   return { plugin, getState, store, view, commands };
 };
 
@@ -215,6 +225,229 @@ describe("createTyperighterPlugin", () => {
     const pluginMatches = getState(view.state).currentMatches;
     expect(pluginMatches).toEqual([]);
   });
+  it("should allow several instances of the plugin to share an EditorState", () => {
+    const first = createTyperighterPlugin({ matches });
+    const second = createTyperighterPlugin({ matches });
+    const view = new EditorView(document.createElement("div"), {
+      state: EditorState.create({
+        doc,
+        plugins: [first.plugin, second.plugin]
+      })
+    });
+    const firstCommands = createBoundCommands(view, first.pluginKey);
+    const secondCommands = createBoundCommands(view, second.pluginKey);
+
+    firstCommands.clearMatches();
+    secondCommands.requestMatchesForDocument("docId", ["cat1"]);
+
+    expect(first.getState(view.state).currentMatches).toEqual([]);
+    expect(first.getState(view.state).requestsInFlight).toEqual({});
+    expect(second.getState(view.state).currentMatches).toEqual(matches);
+    expect(
+      Object.keys(second.getState(view.state).requestsInFlight)
+    ).toEqual(["docId"]);
+  });
+
+  describe("ignoreStore", () => {
+    it("should load the ignore list from the store when the plugin starts, and save it when it changes", async () => {
+      const ignoreStore = new InMemoryIgnoreStore({
+        ruleIds: ["another-rule"],
+        words: []
+      });
+      const { commands, view, getState } = createPlugin({ ignoreStore });
+      await flushPromises();
+
+      expect(getState(view.state).ignoreList.ruleIds).toEqual([
+        "another-rule"
+      ]);
+
+      commands.ignoreMatch(matches[0].matchId, "WORD");
+      await flushPromises();
+
+      expect(await ignoreStore.load()).toEqual({
+        ruleIds: ["another-rule"],
+        words: [matches[0].matchedText]
+      });
+    });
+  });
+  describe("overlayTrigger", () => {
+    // jsdom can't render DOM selections or measure positions, so we give the
+    // plugin a stand-in for the view that applies transactions directly.
+    const createCaretView = (overlayTrigger?: TOverlayTrigger) => {
+      const { plugin, getState } = createTyperighterPlugin({
+        matches,
+        overlayTrigger
+      });
+      const view = {
+        state: EditorState.create({ doc, plugins: [plugin] }),
+        dom: document.createElement("div"),
+        coordsAtPos: () => ({ left: 0, right: 0, top: 0, bottom: 0 }),
+        dispatch: (tr: Transaction) => {
+          const prevState = view.state;
+          view.state = prevState.apply(tr);
+          pluginView.update!((view as unknown) as EditorView, prevState);
+        }
+      };
+      const pluginView = plugin.spec.view!((view as unknown) as EditorView);
+      const moveCaret = (pos: number) =>
+        view.dispatch(
+          view.state.tr.setSelection(TextSelection.create(view.state.doc, pos))
+        );
+      return {
+        moveCaret,
+        getHoverId: () => getState(view.state).hoverId,
+        getHoverTakesFocus: () => getState(view.state).hoverTakesFocus
+      };
+    };
+
+    it("should not open the overlay from the caret by default", () => {
+      const { moveCaret, getHoverId } = createCaretView();
+      moveCaret(2);
+      expect(getHoverId()).toBe(undefined);
+    });
+
+    it("should open the overlay when the caret lands in a match, and close it when the caret leaves", () => {
+      const { moveCaret, getHoverId, getHoverTakesFocus } = createCaretView(
+        "caret"
+      );
+      moveCaret(2);
+      expect(getHoverId()).toBe(matches[0].matchId);
+      // The overlay mustn't pull focus out of the editor mid-typing.
+      expect(getHoverTakesFocus()).toBe(false);
+      moveCaret(10);
+      expect(getHoverId()).toBe(undefined);
+    });
+
+    it("should open the overlay from the caret when triggered by hover and caret", () => {
+      const { moveCaret, getHoverId } = createCaretView("both");
+      moveCaret(3);
+      expect(getHoverId()).toBe(matches[0].matchId);
+    });
+  });
+  describe("collab", () => {
+    const createCollabPlugin = (opts?: IPluginOptions) => {
+      const messages: TCollabMessage[] = [];
+      const plugin = createPlugin({
+        matches: [],
+        collab: { broadcast: message => messages.push(message) },
+        ...opts
+      });
+      plugin.commands.setConfigValue("requestMatchesOnDocModified", true);
+      return { ...plugin, messages };
+    };
+    const receiveMatchesForFirstBlock = (
+      client: ReturnType<typeof createCollabPlugin>
+    ) => {
+      client.commands.requestMatchesForDocument("docId", ["1"]);
+      const { block } = client.getState(
+        client.view.state
+      ).requestsInFlight.docId.pendingBlocks[0];
+      const response = createMatcherResponse(
+        [{ from: 1, to: 23, wordFrom: 1, wordTo: 8, block }],
+        "docId"
+      );
+      client.commands.applyMatcherResponse({
+        ...response,
+        matches: response.matches.map(match => ({
+          ...match,
+          matchedText: "Example",
+          suggestions: [{ text: "An example", type: "TEXT_SUGGESTION" }]
+        }))
+      });
+    };
+    const insertText = (
+      client: ReturnType<typeof createCollabPlugin>,
+      isRemote: boolean
+    ) => {
+      const tr = client.view.state.tr.insertText("An ", 1);
+      client.view.dispatch(isRemote ? tr.setMeta("collab$", {}) : tr);
+    };
+
+    it("should share the matches a client receives with the other clients", () => {
+      const checker = createCollabPlugin();
+      const peer = createCollabPlugin();
+
+      receiveMatchesForFirstBlock(checker);
+      expect(checker.messages.length).toBe(1);
+      peer.commands.receiveCollabMessage(checker.messages[0]);
+
+      expect(peer.getState(peer.view.state).currentMatches).toEqual(
+        checker.getState(checker.view.state).currentMatches
+      );
+      expect(getDecorationSpecsFromDoc(peer.view)).toEqual(
+        getDecorationSpecsFromDoc(checker.view)
+      );
+    });
+
+    it("should share the matches a client ignores or applies with the other clients", () => {
+      const checker = createCollabPlugin();
+      const peer = createCollabPlugin();
+      receiveMatchesForFirstBlock(checker);
+      peer.commands.receiveCollabMessage(checker.messages[0]);
+      const { matchId } = checker.getState(
+        checker.view.state
+      ).currentMatches[0];
+
+      checker.commands.ignoreMatch(matchId);
+      expect(checker.messages[1]).toEqual({
+        type: "IGNORE",
+        matchId,
+        scope: "OCCURRENCE"
+      });
+      peer.commands.receiveCollabMessage(checker.messages[1]);
+      expect(peer.getState(peer.view.state).currentMatches).toEqual([]);
+      expect(peer.getState(peer.view.state).ignoredMatches.length).toBe(1);
+
+      const applier = createCollabPlugin();
+      receiveMatchesForFirstBlock(applier);
+      applier.commands.applySuggestions([{ matchId, text: "An example" }]);
+      expect(applier.messages[1]).toEqual({ type: "APPLY", matchIds: [matchId] });
+    });
+
+    it("should drop shared matches that don't agree with the document", () => {
+      const checker = createCollabPlugin();
+      const peer = createCollabPlugin();
+      receiveMatchesForFirstBlock(checker);
+
+      insertText(peer, false);
+      peer.commands.receiveCollabMessage(checker.messages[0]);
+
+      expect(peer.getState(peer.view.state).currentMatches).toEqual([]);
+    });
+
+    it("should only request matches for local changes by default", () => {
+      const client = createCollabPlugin();
+      receiveMatchesForFirstBlock(client);
+
+      insertText(client, true);
+      const remoteState = client.getState(client.view.state);
+      expect(remoteState.currentMatches).toEqual([]);
+      expect(remoteState.dirtiedRanges).toEqual([]);
+
+      insertText(client, false);
+      expect(client.getState(client.view.state).dirtiedRanges).toEqual([
+        { from: 1, to: 4 }
+      ]);
+    });
+
+    it("should request matches for every change on the designated checker, and none elsewhere", () => {
+      const checker = createCollabPlugin({
+        collab: { broadcast: () => undefined, isChecker: () => true }
+      });
+      const peer = createCollabPlugin({
+        collab: { broadcast: () => undefined, isChecker: () => false }
+      });
+
+      insertText(checker, true);
+      insertText(peer, false);
+
+      expect(checker.getState(checker.view.state).dirtiedRanges).toEqual([
+        { from: 1, to: 4 }
+      ]);
+      expect(peer.getState(peer.view.state).dirtiedRanges).toEqual([]);
+    });
+  });
+
   describe("filtering matchers", () => {
     const filterOptions = {
       filterMatches: filterByMatchState,
@@ -264,5 +497,54 @@ describe("createTyperighterPlugin", () => {
       );
       expect(decorationSpecs).toEqual(decorationsSpecsToExpect);
     });
+    it("should filter matches by severity", () => {
+      const severity = { getMatchSeverity: () => "style" };
+      const severityConfig = createSeverityConfig(severity);
+      const errorMatch = { ...createMatch(1), severity: "error" };
+      const styleMatch = createMatch(5);
+      const { view, commands, getState } = createPlugin<string[]>({
+        matches: [errorMatch, styleMatch],
+        severity,
+        filterOptions: {
+          filterMatches: createFilterBySeverity(severityConfig),
+          initialFilterState: []
+        }
+      });
+
+      commands.setFilterState(["style"]);
+
+      expect(getState(view.state).filteredMatches).toEqual([errorMatch]);
+      expect(getDecorationSpecsFromDoc(view)).toEqual(
+        getDecorationSpecs(
+          createDecorationsForMatches(
+            [errorMatch],
+            undefined,
+            severityConfig
+          )
+        )
+      );
+    });
+    it("should filter matches by severity by default when severity levels are supplied", () => {
+      const errorMatch = { ...createMatch(1), severity: "error" };
+      const unknownMatch = createMatch(5);
+      const { view, commands, getState } = createPlugin<string[]>({
+        matches: [errorMatch, unknownMatch],
+        severity: {}
+      });
+
+      expect(getState(view.state).config.filterBySeverity).toBe(true);
+
+      commands.setFilterState([SEVERITY_UNKNOWN]);
+
+      expect(getState(view.state).filteredMatches).toEqual([errorMatch]);
+    });
+    it("should not filter by severity when other filter options are supplied", () => {
+      const { view, getState } = createPlugin<IDefaultFilterState>({
+        severity: {},
+        filterOptions
+      });
+
+      expect(getState(view.state).config.filterBySeverity).toBe(false);
+    });
   });
 });
@@ -32,7 +32,7 @@ export const createEditor = (htmlDoc: string, matches: IMatch[] = []) => {
   const isElementPartOfTyperighterUI = (element: HTMLElement) =>
     overlayNode.contains(element);
 
-  const { plugin: validatorPlugin, store, getState } = createTyperighterPlugin({
+  const { plugin: validatorPlugin, store, pluginKey } = createTyperighterPlugin({
     isElementPartOfTyperighterUI,
     matches
   });
@@ -50,13 +50,20 @@ export const createEditor = (htmlDoc: string, matches: IMatch[] = []) => {
     })
   });
 
-  const commands = createBoundCommands(view, getState);
-  // @ts-ignore
+  const commands = createBoundCommands(view, pluginKey);
   const matcherService = new MatcherService(
     store,
     commands,
     new TyperighterAdapter("https://api.typerighter.local.dev-gutools.co.uk")
   );
 
-  return { editorElement, view, commands, schema: mySchema };
+  return {
+    editorElement,
+    view,
+    commands,
+    store,
+    pluginKey,
+    matcherService,
+    schema: mySchema
+  };
 };
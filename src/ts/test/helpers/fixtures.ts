@@ -167,7 +167,8 @@ export const createBlockQueriesInFlight = (
     pendingBlocks: blockQueries.map(block => ({
       block,
       pendingCategoryIds
-    }))
+    })),
+    cancelledBlockIds: []
   }
 });
 
@@ -191,7 +192,10 @@ export const createInitialData = (doc: Node = defaultDoc, time = 0) => {
       config: {
         debug: false,
         requestMatchesOnDocModified: true,
-        matchColours: defaultMatchColours
+        matchColours: defaultMatchColours,
+        severity: undefined,
+        filterBySeverity: false,
+        conflicts: undefined
       },
       currentThrottle: 100,
       initialThrottle: 100,
@@ -199,16 +203,22 @@ export const createInitialData = (doc: Node = defaultDoc, time = 0) => {
       decorations: DecorationSet.create(tr.doc, []),
       dirtiedRanges: [],
       currentMatches: [],
+      ignoredMatches: [],
+      ignoreList: { ruleIds: [], words: [] },
       filteredMatches: [],
       selectedMatch: undefined,
       hoverId: undefined,
       hoverRectIndex: undefined,
+      hoverTakesFocus: false,
       highlightId: undefined,
       hoverInfo: undefined,
       trHistory: [tr],
       requestsInFlight: {},
       requestPending: false,
       requestErrors: [],
+      checkedBlocks: [],
+      retryState: undefined,
+      connectionStatus: undefined,
       docChangedSinceCheck: false
     } as IPluginState
   };
@@ -0,0 +1,56 @@
+import {
+  IMessageEndpoint,
+  TWorkerRequest,
+  TWorkerResponse
+} from "../../services/adapters/interfaces/IWorker";
+
+type TListener<TMessage> = (event: { data: TMessage }) => void;
+type TErrorType = "error" | "messageerror";
+type TErrorListeners = Array<{ type: TErrorType; listener: () => void }>;
+
+/**
+ * Create a message endpoint that delivers messages to the given listeners
+ * asynchronously, copying them on the way as a real message channel would.
+ */
+const createEndpoint = <TOutgoingMessage, TIncomingMessage>(
+  incomingListeners: Array<TListener<TIncomingMessage>>,
+  outgoingListeners: Array<TListener<TOutgoingMessage>>,
+  errorListeners: TErrorListeners = []
+): IMessageEndpoint<TOutgoingMessage, TIncomingMessage> => ({
+  postMessage: message => {
+    const data = JSON.parse(JSON.stringify(message));
+    setTimeout(() => outgoingListeners.forEach(listener => listener({ data })));
+  },
+  addEventListener: (
+    type: "message" | TErrorType,
+    listener: TListener<TIncomingMessage> & (() => void)
+  ) =>
+    type === "message"
+      ? incomingListeners.push(listener)
+      : errorListeners.push({ type, listener })
+});
+
+/**
+ * Create a pair of linked endpoints that stand in for a Web Worker and the
+ * global scope within it, so we can test worker code without a browser.
+ * `dispatchError` dispatches an error event to the worker's listeners.
+ */
+export const createWorkerShim = () => {
+  const workerListeners: Array<TListener<TWorkerResponse>> = [];
+  const scopeListeners: Array<TListener<TWorkerRequest>> = [];
+  const workerErrorListeners: TErrorListeners = [];
+  const worker = createEndpoint<TWorkerRequest, TWorkerResponse>(
+    workerListeners,
+    scopeListeners,
+    workerErrorListeners
+  );
+  const scope = createEndpoint<TWorkerResponse, TWorkerRequest>(
+    scopeListeners,
+    workerListeners
+  );
+  const dispatchError = (type: TErrorType) =>
+    workerErrorListeners
+      .filter(_ => _.type === type)
+      .forEach(({ listener }) => listener());
+  return { worker, scope, dispatchError };
+};
@@ -0,0 +1,63 @@
+import { EditorView } from "prosemirror-view";
+import { Transaction } from "prosemirror-state";
+import { createEditor } from "./helpers/createEditor";
+import { createMatch } from "./helpers/fixtures";
+import { createTyperighterKeymap } from "../keymap";
+
+/**
+ * jsdom can't render DOM selections, so we give the keymap a stand-in for
+ * the view that applies transactions to its state directly.
+ */
+const createReviewView = () => {
+  const match = createMatch(4, 11);
+  const { view, pluginKey } = createEditor("<p>An example sentence</p>", [
+    match
+  ]);
+  const reviewView = {
+    state: view.state,
+    dispatch: (tr: Transaction) => {
+      reviewView.state = reviewView.state.apply(tr);
+    }
+  };
+  return {
+    match,
+    pluginKey,
+    reviewView,
+    pressKey: (
+      keymapPlugin: ReturnType<typeof createTyperighterKeymap>,
+      key: string
+    ) =>
+      keymapPlugin.props.handleKeyDown!.call(
+        keymapPlugin,
+        (reviewView as unknown) as EditorView,
+        new KeyboardEvent("keydown", { key, ctrlKey: true, altKey: true })
+      )
+  };
+};
+
+describe("createTyperighterKeymap", () => {
+  it("should bind the review commands to the default keys", () => {
+    const { match, pluginKey, reviewView, pressKey } = createReviewView();
+    const keymapPlugin = createTyperighterKeymap(pluginKey);
+
+    expect(pressKey(keymapPlugin, "ArrowDown")).toBe(true);
+    expect(pluginKey.getState(reviewView.state).selectedMatch).toBe(
+      match.matchId
+    );
+  });
+
+  it("should allow key bindings to be overridden or removed", () => {
+    const { match, pluginKey, reviewView, pressKey } = createReviewView();
+    const keymapPlugin = createTyperighterKeymap(pluginKey, {
+      selectNextMatch: "Mod-Alt-n",
+      selectPreviousMatch: undefined
+    });
+
+    expect(pressKey(keymapPlugin, "ArrowDown")).toBe(false);
+    expect(pressKey(keymapPlugin, "ArrowUp")).toBe(false);
+    expect(pressKey(keymapPlugin, "n")).toBe(true);
+    expect(pluginKey.getState(reviewView.state).selectedMatch).toBe(
+      match.matchId
+    );
+  });
+});
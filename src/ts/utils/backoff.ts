@@ -0,0 +1,19 @@
+/**
+ * Get the delay before the given attempt, doubling the initial delay for
+ * each attempt up to the maximum delay.
+ *
+ * Jitter is a proportion of the delay between 0 and 1 – a jitter of 0.2 will
+ * vary the delay by up to 20% in either direction, to avoid many clients
+ * retrying in lockstep.
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  initialDelay: number,
+  maxDelay: number,
+  jitter = 0,
+  random = Math.random
+) => {
+  const delay = Math.min(initialDelay * Math.pow(2, attempt), maxDelay);
+  const jitterAmount = delay * jitter * (random() * 2 - 1);
+  return Math.round(delay + jitterAmount);
+};
@@ -2,6 +2,7 @@ import { omit } from "lodash";
 import { Node } from "prosemirror-model";
 import { IRange, IBlock, IBlockWithSkippedRanges } from "../interfaces/IMatch";
 import { mapRemovedRange } from "./range";
+import { hashString } from "./hash";
 
 export type TGetSkippedRanges = (
   node: Node,
@@ -33,6 +34,26 @@ export const createBlock = (
 export const createBlockId = (time: number, from: number, to: number) =>
   `${time}-from:${from}-to:${to}`;
 
+/**
+ * Create a hash of the content of a block, and the categories it's checked
+ * against. Skipped ranges are made relative to the block, so the hash
+ * doesn't change when the block moves within the document.
+ */
+export const createBlockHash = (
+  block: IBlockWithSkippedRanges,
+  categoryIds: string[]
+) =>
+  hashString(
+    JSON.stringify([
+      block.text,
+      (block.skipRanges || []).map(range => [
+        range.from - block.from,
+        range.to - block.from
+      ]),
+      [...categoryIds].sort()
+    ])
+  );
+
 export const createMatchId = (
   time: number,
   from: number,
@@ -1,3 +1,5 @@
+import { EditorView } from "prosemirror-view";
+
 const topBuffer = 2;
 const leftBuffer = 2;
 
@@ -28,4 +30,31 @@ export const getClientRectIndex = (event: Event): number | undefined => {
     }
 
     return 0;
-}
\ No newline at end of file
+}
+
+/**
+ * Determine which of an element's client rects contains the given document
+ * position, using the coordinates from `coordsAtPos`. We use this to place
+ * the overlay when it's opened from the caret, rather than the mouse.
+ */
+export const getClientRectIndexAtPos = (
+    view: EditorView,
+    pos: number,
+    element: Element | null
+): number | undefined => {
+    if (!element) {
+        return undefined;
+    }
+
+    const { left, top } = view.coordsAtPos(pos);
+    const rects = element.getClientRects();
+
+    for (let i = 0; i < rects.length; i++) {
+        const rect = rects[i];
+        if (left >= rect.left - leftBuffer && left <= rect.right && top >= rect.top - topBuffer && top <= rect.bottom) {
+            return i;
+        }
+    }
+
+    return 0;
+}
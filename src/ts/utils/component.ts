@@ -6,7 +6,7 @@ export const createScrollToRangeHandler = (
   getScrollOffset: () => number,
   editorScrollElement: Element,
   telemetryAdapter?: TyperighterTelemetryAdapter
-) => (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
+) => (e: React.SyntheticEvent) => {
   e.preventDefault();
   e.stopPropagation();
 
@@ -23,3 +23,21 @@ export const createScrollToRangeHandler = (
   });
 
 };
+
+/**
+ * Props to make an element that isn't a button behave like one – it can be
+ * focused, and activated with Enter or Space as well as clicked.
+ */
+export const createButtonProps = (
+  onActivate: (e: React.SyntheticEvent) => void
+) => ({
+  role: "button",
+  tabIndex: 0,
+  onClick: onActivate,
+  onKeyDown: (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      onActivate(e);
+    }
+  }
+});
@@ -0,0 +1,156 @@
+import isEqual from "lodash/isEqual";
+import uniq from "lodash/uniq";
+import uniqBy from "lodash/uniqBy";
+import { IMatch, IMatchSource } from "../interfaces/IMatch";
+import { doRangesOverlap } from "./range";
+
+/**
+ * How we resolve conflicts between matches:
+ *  - "deduplicate" keeps one of the matches that share a range and suggest
+ *    the same changes.
+ *  - "priority" keeps the highest priority match of any that overlap.
+ *  - "merge" combines matches that share a range into a single match, with
+ *    a source for each of the matches it combines.
+ */
+export type TConflictStrategy = "deduplicate" | "priority" | "merge";
+
+/**
+ * Get the priority of a match. When matches conflict, the match with the
+ * highest priority wins. When priorities are equal, the earlier match wins.
+ */
+export type TGetMatchPriority = (match: IMatch) => number;
+
+export interface IConflictConfig {
+  strategy: TConflictStrategy;
+  getMatchPriority: TGetMatchPriority;
+}
+
+export type TConflictOptions = Partial<IConflictConfig>;
+
+export const createConflictConfig = ({
+  strategy = "deduplicate",
+  getMatchPriority = () => 0
+}: TConflictOptions = {}): IConflictConfig => ({
+  strategy,
+  getMatchPriority
+});
+
+const haveSameRange = (match1: IMatch, match2: IMatch) =>
+  match1.from === match2.from && match1.to === match2.to;
+
+const getSuggestionTexts = (match: IMatch) =>
+  uniq(
+    [match.replacement, ...(match.suggestions || [])]
+      .filter(suggestion => !!suggestion)
+      .map(suggestion => suggestion!.text)
+  ).sort();
+
+const haveEquivalentSuggestions = (match1: IMatch, match2: IMatch) =>
+  isEqual(getSuggestionTexts(match1), getSuggestionTexts(match2));
+
+export const getMatchSources = (match: IMatch): IMatchSource[] =>
+  match.sources || [
+    {
+      matchId: match.matchId,
+      ruleId: match.ruleId,
+      matcherType: match.matcherType,
+      category: match.category,
+      message: match.message
+    }
+  ];
+
+/**
+ * Merge two matches for the same range. The higher priority match provides
+ * the merged match's id, message and category, and the suggestions of both
+ * are offered. We keep one source per rule, so merging a match again when
+ * its range is rechecked doesn't duplicate its sources.
+ */
+export const mergeMatches = <TMatch extends IMatch>(
+  match1: TMatch,
+  match2: TMatch,
+  getMatchPriority: TGetMatchPriority
+): TMatch => {
+  const [primary, secondary] =
+    getMatchPriority(match2) > getMatchPriority(match1)
+      ? [match2, match1]
+      : [match1, match2];
+  const suggestions =
+    primary.suggestions || secondary.suggestions
+      ? uniqBy(
+          [...(primary.suggestions || []), ...(secondary.suggestions || [])],
+          suggestion => suggestion.text
+        )
+      : undefined;
+  return {
+    ...primary,
+    suggestions,
+    replacement: primary.replacement || secondary.replacement,
+    sources: uniqBy(
+      [...getMatchSources(primary), ...getMatchSources(secondary)],
+      source => source.ruleId
+    )
+  };
+};
+
+/**
+ * Resolve conflicts between the given matches with the configured strategy.
+ * Matches that aren't in conflict are returned unaltered, in their original
+ * order.
+ */
+export const resolveConflicts = <TMatch extends IMatch>(
+  matches: TMatch[],
+  { strategy, getMatchPriority }: IConflictConfig
+): TMatch[] =>
+  matches.reduce((acc, match) => {
+    switch (strategy) {
+      case "priority": {
+        const conflictingMatches = acc.filter(existingMatch =>
+          doRangesOverlap(existingMatch, match)
+        );
+        if (!conflictingMatches.length) {
+          return acc.concat(match);
+        }
+        const priority = getMatchPriority(match);
+        return conflictingMatches.every(
+          existingMatch => getMatchPriority(existingMatch) < priority
+        )
+          ? acc
+              .filter(
+                existingMatch => !conflictingMatches.includes(existingMatch)
+              )
+              .concat(match)
+          : acc;
+      }
+      case "merge": {
+        const index = acc.findIndex(existingMatch =>
+          haveSameRange(existingMatch, match)
+        );
+        if (index === -1) {
+          return acc.concat(match);
+        }
+        const newMatches = acc.slice();
+        newMatches.splice(
+          index,
+          1,
+          mergeMatches(acc[index], match, getMatchPriority)
+        );
+        return newMatches;
+      }
+      default: {
+        const index = acc.findIndex(
+          existingMatch =>
+            haveSameRange(existingMatch, match) &&
+            haveEquivalentSuggestions(existingMatch, match)
+        );
+        if (index === -1) {
+          return acc.concat(match);
+        }
+        if (getMatchPriority(match) <= getMatchPriority(acc[index])) {
+          return acc;
+        }
+        const newMatches = acc.slice();
+        newMatches.splice(index, 1, match);
+        return newMatches;
+      }
+    }
+  }, [] as TMatch[]);
@@ -2,6 +2,8 @@ import flatten from "lodash/flatten";
 import { Node } from "prosemirror-model";
 import { Decoration, DecorationSet } from "prosemirror-view";
 import { IRange, IMatch } from "../interfaces/IMatch";
+import { getSeverityForMatch, ISeverityConfig } from "./severity";
+import { ISuggestionPatch } from "./prosemirror";
 
 export enum MatchType {
   HAS_REPLACEMENT = "HAS_REPLACEMENT",
@@ -33,19 +35,31 @@ export const DECORATION_MATCH_IS_SELECTED = "DECORATION_MATCH_IS_HOVERING";
 export const DECORATION_MATCH_HEIGHT_MARKER = "DECORATION_MATCH_HEIGHT_MARKER";
 export const DECORATION_DIRTY = "DECORATION_DIRTY";
 export const DECORATION_INFLIGHT = "DECORATION_INFLIGHT";
+export const DECORATION_SUGGESTION_PREVIEW = "DECORATION_SUGGESTION_PREVIEW";
 
 export const DecorationClassMap = {
   [DECORATION_DIRTY]: "MatchDebugDirty",
   [DECORATION_INFLIGHT]: "MatchDebugInflight",
   [DECORATION_MATCH]: "MatchDecoration",
   [DECORATION_MATCH_HEIGHT_MARKER]: "MatchDecoration__height-marker",
-  [DECORATION_MATCH_IS_SELECTED]: "MatchDecoration--is-selected"
+  [DECORATION_MATCH_IS_SELECTED]: "MatchDecoration--is-selected",
+  [DECORATION_SUGGESTION_PREVIEW]: "MatchDecoration__preview"
 };
 
+export const getSeverityClassName = (severityId: string) =>
+  `MatchDecoration--severity-${severityId}`;
+
 export const DECORATION_ATTRIBUTE_ID = "data-match-id";
 export const DECORATION_ATTRIBUTE_HEIGHT_MARKER_ID = "data-height-marker-id";
 export const DECORATION_ATTRIBUTE_IS_CORRECT_ID = "data-is-correct-id";
 
+/**
+ * The id of the element that describes a match to assistive technology –
+ * see the `MatchDescriptions` component.
+ */
+export const getMatchDescriptionId = (matchId: string) =>
+  `TyperighterPlugin__match-description-${matchId}`;
+
 export const createDebugDecorationFromRange = (range: IRange, dirty = true) => {
   const type = dirty ? DECORATION_DIRTY : DECORATION_INFLIGHT;
   return Decoration.inline(
@@ -67,7 +81,11 @@ export const createDebugDecorationFromRange = (range: IRange, dirty = true) => {
 export const removeDecorationsFromRanges = (
   decorationSet: DecorationSet,
   ranges: IRange[],
-  types = [DECORATION_MATCH, DECORATION_MATCH_HEIGHT_MARKER]
+  types = [
+    DECORATION_MATCH,
+    DECORATION_MATCH_HEIGHT_MARKER,
+    DECORATION_SUGGESTION_PREVIEW
+  ]
 ) =>
   ranges.reduce((acc, range) => {
     const predicate = (spec: { [key: string]: any }) =>
@@ -95,9 +113,14 @@ export const getNewDecorationsForCurrentMatches = (
   outputs: IMatch[],
   decorationSet: DecorationSet,
   doc: Node,
-  matchColours: IMatchTypeToColourMap = defaultMatchColours
+  matchColours: IMatchTypeToColourMap = defaultMatchColours,
+  severityConfig?: ISeverityConfig
 ) => {
-  const decorationsToAdd = createDecorationsForMatches(outputs, matchColours);
+  const decorationsToAdd = createDecorationsForMatches(
+    outputs,
+    matchColours,
+    severityConfig
+  );
 
   return decorationSet.add(doc, decorationsToAdd);
 };
@@ -108,16 +131,24 @@ export const getNewDecorationsForCurrentMatches = (
 export const createDecorationsForMatch = (
   match: IMatch,
   matchColours: IMatchTypeToColourMap = defaultMatchColours,
-  isSelected = false
+  isSelected = false,
+  severityConfig?: ISeverityConfig
 ) => {
-  const className = isSelected
-    ? `${DecorationClassMap[DECORATION_MATCH]} ${DecorationClassMap[DECORATION_MATCH_IS_SELECTED]}`
-    : DecorationClassMap[DECORATION_MATCH];
+  const severity =
+    severityConfig && getSeverityForMatch(match, severityConfig);
+  const className = [
+    DecorationClassMap[DECORATION_MATCH],
+    isSelected && DecorationClassMap[DECORATION_MATCH_IS_SELECTED],
+    severity && getSeverityClassName(severity.id)
+  ]
+    .filter(_ => !!_)
+    .join(" ");
 
   const { backgroundColour, borderColour } = getColourForMatch(
     match,
     matchColours,
-    isSelected
+    isSelected,
+    severityConfig
   );
   const style = `background-color: ${backgroundColour}; border-bottom: 2px solid ${borderColour}`;
 
@@ -129,7 +160,8 @@ export const createDecorationsForMatch = (
       {
         class: className,
         style,
-        [DECORATION_ATTRIBUTE_ID]: match.matchId
+        [DECORATION_ATTRIBUTE_ID]: match.matchId,
+        "aria-describedby": getMatchDescriptionId(match.matchId)
       },
       spec
     )
@@ -138,6 +170,46 @@ export const createDecorationsForMatch = (
   return decorations;
 };
 
+/**
+ * Create decorations that preview the given suggestion patches in the
+ * document, striking through deleted text and showing inserted text as
+ * widgets.
+ *
+ * Patch positions account for the patches before them, so we map each
+ * back to the unaltered document before decorating it.
+ */
+export const createDecorationsForSuggestionPreview = (
+  matchId: string,
+  patches: ISuggestionPatch[]
+) => {
+  const spec = { type: DECORATION_SUGGESTION_PREVIEW, id: matchId };
+  const className = DecorationClassMap[DECORATION_SUGGESTION_PREVIEW];
+  let offset = 0;
+  return patches.map(patch => {
+    const from = patch.from + offset;
+    if (patch.type === "DELETE") {
+      offset += patch.to - patch.from;
+      return Decoration.inline(
+        from,
+        from + patch.to - patch.from,
+        { class: `${className} ${className}--delete` },
+        spec
+      );
+    }
+    offset -= patch.text.length;
+    return Decoration.widget(
+      from,
+      () => {
+        const element = document.createElement("span");
+        element.className = `${className} ${className}--insert`;
+        element.textContent = patch.text;
+        return element;
+      },
+      { ...spec, key: `${matchId}-${from}-${patch.text}`, side: -1 }
+    );
+  });
+};
+
 export const createDecorationSpecFromMatch = (match: IMatch) => ({
   type: DECORATION_MATCH,
   id: match.matchId,
@@ -156,16 +228,52 @@ export const getMatchType = (match: IMatch): MatchType => {
   return MatchType.DEFAULT;
 };
 
+/**
+ * Get the colours for a match. If we're given a severity config, the match
+ * takes the colour of its severity level or its category, falling back to
+ * the colour for its match type.
+ */
 export const getColourForMatch = (
   match: IMatch,
   matchColours: IMatchTypeToColourMap,
-  isSelected: boolean
+  isSelected: boolean,
+  severityConfig?: ISeverityConfig
 ): { backgroundColour: string; borderColour: string } => {
   const backgroundOpacity = isSelected ? "50" : "07";
+  const colour = severityConfig && getConfiguredColour(match, severityConfig);
+  if (colour) {
+    return getColourWithOpacity(colour, backgroundOpacity);
+  }
   const matchType = getMatchType(match);
   return getColourForMatchType(matchType, matchColours, backgroundOpacity);
 };
 
+const getConfiguredColour = (
+  match: IMatch,
+  severityConfig: ISeverityConfig
+): string | undefined => {
+  if (severityConfig.colourBy === "category") {
+    return match.category.colour;
+  }
+  const severity = getSeverityForMatch(match, severityConfig);
+  return severity && severity.colour;
+};
+
+/**
+ * Get the colours for a hex colour, adding the given opacity to the
+ * background. We can't add opacity to other colour formats, so they're
+ * used as they are.
+ */
+export const getColourWithOpacity = (
+  colour: string,
+  backgroundOpacity: string = "99"
+): { backgroundColour: string; borderColour: string } => ({
+  backgroundColour: /^#[0-9a-f]{6}$/i.test(colour)
+    ? `${colour}${backgroundOpacity}`
+    : colour,
+  borderColour: colour
+});
+
 export const getColourForMatchType = (
   matchType: MatchType,
   matchColours: IMatchTypeToColourMap,
@@ -192,8 +300,14 @@ export const getColourForMatchType = (
 
 export const createDecorationsForMatches = (
   matches: IMatch[],
-  matchColours: IMatchTypeToColourMap = defaultMatchColours
-) => flatten(matches.map(_ => createDecorationsForMatch(_, matchColours)));
+  matchColours: IMatchTypeToColourMap = defaultMatchColours,
+  severityConfig?: ISeverityConfig
+) =>
+  flatten(
+    matches.map(_ =>
+      createDecorationsForMatch(_, matchColours, false, severityConfig)
+    )
+  );
 
 export const findSingleDecoration = (
   decorationSet: DecorationSet,
@@ -0,0 +1,23 @@
+/**
+ * Hash a string, returning the hash as a hex string. This is cyrb53 – it's
+ * quick, with few collisions, but it isn't cryptographically secure.
+ */
+export const hashString = (str: string, seed = 0) => {
+  // tslint:disable:no-bitwise
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  // tslint:enable:no-bitwise
+  return hash.toString(16);
+};
@@ -1,5 +1,7 @@
 import { IBlockWithSkippedRanges, IMatch, IRange } from "../interfaces/IMatch";
-import { mapAddedRange } from "./range";
+import { doRangesOverlap, mapAddedRange } from "./range";
+import { IIgnoreList } from "../interfaces/IIgnoreStore";
+import { Node } from "prosemirror-model";
 
 /**
  * Map the range this match applies to through the given ranges, adjusting its range accordingly.
@@ -48,3 +50,88 @@ export const mapMatchThroughBlocks = <TMatch extends IMatch>(
   }
   return mapThroughSkippedRanges(match, maybeBlockForThisMatch.skipRanges);
 };
+
+/**
+ * Get the text surrounding a match, given the text it was found in and its
+ * offsets within that text.
+ */
+export const getMatchContext = (
+  text: string,
+  from: number,
+  to: number,
+  contextLength = 20
+): Pick<IMatch, "precedingText" | "subsequentText" | "matchContext"> => {
+  const matchedText = text.slice(from, to);
+  const precedingText = text.slice(Math.max(from - contextLength, 0), from);
+  const subsequentText = text.slice(to, to + contextLength);
+  return {
+    precedingText,
+    subsequentText,
+    matchContext: `${precedingText}[[${matchedText}]]${subsequentText}`
+  };
+};
+
+/**
+ * Has the user ignored this match – this occurrence of it, its rule, or
+ * its text?
+ */
+export const isMatchIgnored = (
+  match: IMatch,
+  ignoredMatches: IMatch[],
+  { ruleIds, words }: IIgnoreList
+) =>
+  ruleIds.includes(match.ruleId) ||
+  words.includes(match.matchedText) ||
+  ignoredMatches.some(
+    ignoredMatch =>
+      ignoredMatch.ruleId === match.ruleId &&
+      ignoredMatch.from === match.from &&
+      ignoredMatch.to === match.to &&
+      ignoredMatch.matchedText === match.matchedText
+  );
+
+/**
+ * Does the text of the document still agree with the text of this match?
+ */
+export const isMatchValidForDoc = (match: IMatch, doc: Node) => {
+  if (match.from < 0 || match.to > doc.content.size || match.from > match.to) {
+    return false;
+  }
+  try {
+    return (
+      doc.textBetween(match.from, match.to, undefined, "\n") ===
+      match.matchedText
+    );
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * The suggestion to apply for a match when the user hasn't chosen one – its
+ * replacement, if it has one, or its first suggestion.
+ */
+export const getPreferredSuggestion = (match: IMatch) =>
+  match.replacement || (match.suggestions && match.suggestions[0]);
+
+/**
+ * Select the suggestions we can apply together. The patches for overlapping
+ * suggestions would corrupt one another, so when suggestions overlap, we
+ * only keep the first. Suggestions without text are dropped.
+ */
+export const removeConflictingSuggestions = <
+  TSuggestion extends IRange & { text: string | undefined }
+>(
+  suggestions: TSuggestion[]
+) =>
+  suggestions
+    .filter(suggestion => !!suggestion.text)
+    .reduce(
+      (acc, suggestion) =>
+        acc.some(appliedSuggestion =>
+          doRangesOverlap(appliedSuggestion, suggestion)
+        )
+          ? acc
+          : acc.concat(suggestion),
+      [] as TSuggestion[]
+    );
@@ -1,13 +1,43 @@
-import { stopHoverCommand, stopHighlightCommand } from "../commands";
+import {
+  startHoverCommand,
+  stopHoverCommand,
+  stopHighlightCommand
+} from "../commands";
 import { EditorView } from "prosemirror-view";
 import { PluginKey } from "prosemirror-state";
-import { getMatchType, MatchType } from "./decoration";
+import {
+  DECORATION_ATTRIBUTE_ID,
+  getMatchType,
+  MatchType
+} from "./decoration";
 import { IMatch } from "..";
+import { IPluginState } from "../state/reducer";
+import {
+  getSeverityForMatch,
+  ISeverityConfig,
+  SEVERITY_UNKNOWN
+} from "./severity";
+import { selectMatchAtPosition } from "../state/selectors";
+import { getClientRectIndexAtPos } from "./clientRect";
 
-export const pluginKey = new PluginKey("prosemirror-typerighter");
+export type TPluginKey<
+  TPluginState extends IPluginState = IPluginState
+> = PluginKey<TPluginState>;
+
+/**
+ * Create a key for an instance of the plugin. Each key is unique, even when
+ * they share a name, so several instances of the plugin can coexist in the
+ * same EditorState.
+ */
+export const createPluginKey = <
+  TPluginState extends IPluginState = IPluginState
+>(
+  name = "prosemirror-typerighter"
+): TPluginKey<TPluginState> => new PluginKey<TPluginState>(name);
 
 export const maybeResetHoverStates = (
   view: EditorView,
+  pluginKey: TPluginKey,
   ignoreElement: (e: HTMLElement) => boolean,
   event: Event
 ) => {
@@ -24,13 +54,62 @@ export const maybeResetHoverStates = (
 
   const pluginState = pluginKey.getState(view.state);
   if (pluginState.hoverId) {
-    return stopHoverCommand()(view.state, view.dispatch);
+    return stopHoverCommand()(pluginKey)(view.state, view.dispatch);
   }
   if (pluginState.highlightId) {
-    return stopHighlightCommand()(view.state, view.dispatch);
+    return stopHighlightCommand()(pluginKey)(view.state, view.dispatch);
   }
 };
 
+/**
+ * What opens the match overlay – the mouse hovering over a match, the
+ * selection landing inside a match, or both.
+ */
+export type TOverlayTrigger = "hover" | "caret" | "both";
+
+/**
+ * Is the selection within the match the user is hovering over?
+ */
+export const isSelectionInHoveredMatch = (
+  view: EditorView,
+  pluginKey: TPluginKey
+) => {
+  const pluginState = pluginKey.getState(view.state);
+  const match = selectMatchAtPosition(pluginState, view.state.selection.from);
+  return !!match && match.matchId === pluginState.hoverId;
+};
+
+/**
+ * Hover over the match that contains the selection, if there is one, to
+ * open its overlay – and stop hovering when the selection leaves it. This
+ * lets users open the overlay with the caret or a touch selection. The
+ * overlay doesn't take focus, so they can carry on typing.
+ */
+export const updateHoverForSelection = (
+  view: EditorView,
+  pluginKey: TPluginKey
+) => {
+  const pluginState = pluginKey.getState(view.state);
+  const { from } = view.state.selection;
+  const match = selectMatchAtPosition(pluginState, from);
+  if (!match) {
+    return (
+      !!pluginState.hoverId &&
+      stopHoverCommand()(pluginKey)(view.state, view.dispatch)
+    );
+  }
+  if (match.matchId === pluginState.hoverId) {
+    return false;
+  }
+  const decorationElement = view.dom.querySelector(
+    `[${DECORATION_ATTRIBUTE_ID}="${match.matchId}"]`
+  );
+  return startHoverCommand(
+    match.matchId,
+    getClientRectIndexAtPos(view, from, decorationElement)
+  )(pluginKey)(view.state, view.dispatch);
+};
+
 export type IDefaultFilterState = MatchType[];
 
 /**
@@ -49,3 +128,47 @@ export const filterByMatchState: TFilterMatches<IDefaultFilterState> = (
   filterState,
   matches
 ) => matches.filter(match => !filterState.includes(getMatchType(match)));
+
+// The filters we've created with createFilterBySeverity, so we can tell
+// whether the plugin is filtering by severity.
+const severityFilters = new WeakSet<TFilterMatches<any, any>>();
+
+// The initial state for a filter created with createFilterBySeverity.
+export const noSeverityLevelsHidden: unknown = [];
+
+/**
+ * Create a filter that hides matches whose severity levels are in the
+ * filter state – a list of severity level ids. Matches without a known
+ * severity level are hidden by SEVERITY_UNKNOWN. Any other filter state
+ * hides nothing. Use with the same severity config you pass to the plugin.
+ */
+export const createFilterBySeverity = <
+  TFilterState = string[],
+  TMatch extends IMatch = IMatch
+>(
+  severityConfig: ISeverityConfig
+): TFilterMatches<TFilterState, TMatch> => {
+  const filterMatches: TFilterMatches<TFilterState, TMatch> = (
+    filterState,
+    matches
+  ) => {
+    const hiddenLevelIds: Array<unknown> = Array.isArray(filterState)
+      ? filterState
+      : [];
+    return matches.filter(match => {
+      const severity = getSeverityForMatch(match, severityConfig);
+      return !hiddenLevelIds.includes(
+        severity ? severity.id : SEVERITY_UNKNOWN
+      );
+    });
+  };
+  severityFilters.add(filterMatches);
+  return filterMatches;
+};
+
+/**
+ * Was this filter created with createFilterBySeverity?
+ */
+export const isFilterBySeverity = (
+  filterMatches: TFilterMatches<any, any> | undefined
+) => !!filterMatches && severityFilters.has(filterMatches);
@@ -105,7 +105,7 @@ interface ISuggestionPatchInsert extends IBaseSuggestionPatch {
   getMarks: (tr: Transaction) => Array<Mark<any>>;
 }
 
-type ISuggestionPatch = ISuggestionPatchInsert | ISuggestionPatchDelete;
+export type ISuggestionPatch = ISuggestionPatchInsert | ISuggestionPatchDelete;
 
 /**
  * Generates a minimal array of replacement nodes and ranges from two pieces of text.
@@ -5,6 +5,7 @@ import { findParentNode } from "prosemirror-utils";
 import { IRange } from "../interfaces/IMatch";
 import { IBlock } from "../interfaces/IMatch";
 import { Mapping } from "prosemirror-transform";
+import { getSentenceRanges } from "./sentence";
 
 /**
  * Find the index of the first range in the given range array that overlaps/abuts with the given range.
@@ -23,6 +24,13 @@ export const findOverlappingRangeIndex = (
   );
 
 
+/**
+ * Do the given ranges share any positions? Unlike `findOverlappingRangeIndex`,
+ * ranges that only abut do not overlap.
+ */
+export const doRangesOverlap = (range1: IRange, range2: IRange) =>
+  range1.from < range2.to && range2.from < range1.to;
+
 export const mapAndMergeRanges = <Range extends IRange>(
   ranges: Range[],
   mapping: Mapping
@@ -177,6 +185,57 @@ export const getRangesOfParentBlockNodes = (ranges: IRange[], doc: Node) => {
 export const expandRangesToParentBlockNode = (ranges: IRange[], doc: Node) =>
   getRangesOfParentBlockNodes(ranges, doc);
 
+/**
+ * Expand the given range to cover the sentences it touches. If the range
+ * spans several textblocks, we include the touched sentences in each.
+ */
+export const expandRangeToSentences = (range: IRange, doc: Node): IRange[] => {
+  const expandedRanges = [] as IRange[];
+  const from = clamp(range.from, 0, doc.content.size);
+  const to = clamp(range.to, 0, doc.content.size);
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+    const blockFrom = pos + 1;
+    const blockTo = blockFrom + node.content.size;
+    // Non-text leaf nodes are represented by a single character, so offsets
+    // into the text correspond to positions in the document.
+    const text = doc.textBetween(blockFrom, blockTo, undefined, "\n");
+    // We leave out the whitespace that trails each sentence, so the ranges
+    // we check don't abut the sentences around them – abutting matches and
+    // decorations would otherwise be considered superseded.
+    const sentenceRanges = getSentenceRanges(text)
+      .map(sentence => ({
+        from: blockFrom + sentence.from,
+        to:
+          blockFrom +
+          sentence.from +
+          text.slice(sentence.from, sentence.to).trimEnd().length
+      }))
+      .filter(
+        sentence =>
+          sentence.to > sentence.from &&
+          sentence.from <= to &&
+          sentence.to >= from
+      );
+    expandedRanges.push(
+      ...(sentenceRanges.length
+        ? sentenceRanges
+        : [{ from: blockFrom, to: blockTo }])
+    );
+    return false;
+  });
+  return expandedRanges;
+};
+
+/**
+ * Expand the given ranges to cover the sentences they touch, so that edits
+ * to long blocks don't require us to check the entire block again.
+ */
+export const expandRangesToSentence = (ranges: IRange[], doc: Node) =>
+  mergeRanges(ranges.flatMap(range => expandRangeToSentences(range, doc)));
+
 const getCharsRemovedBeforeFrom = (
   currentRange: IRange,
   removedRange: IRange
@@ -0,0 +1,62 @@
+import { IRange } from "../interfaces/IMatch";
+
+// A sentence ends with terminal punctuation, perhaps followed by closing
+// quotes or brackets, and then whitespace.
+const sentenceEndRegex = /[.!?…]+["'”’)\]]*\s+/g;
+
+const isLowerCase = (char: string) =>
+  char.toLowerCase() === char && char.toUpperCase() !== char;
+
+interface ISegmenter {
+  segment: (text: string) => Iterable<{ segment: string; index: number }>;
+}
+
+const createSentenceSegmenter = (): ISegmenter | undefined => {
+  const Segmenter = (Intl as any).Segmenter;
+  return Segmenter
+    ? new Segmenter(undefined, { granularity: "sentence" })
+    : undefined;
+};
+
+const defaultSegmenter = createSentenceSegmenter();
+
+/**
+ * Get the sentences in the given text with a simple set of rules, for
+ * environments that don't support Intl.Segmenter. We don't end sentences
+ * where the next word is lower case, to avoid splitting on abbreviations
+ * like "e.g.".
+ */
+export const getSentenceRangesWithRules = (text: string): IRange[] => {
+  const ranges: IRange[] = [];
+  let from = 0;
+  for (const result of text.matchAll(sentenceEndRegex)) {
+    const to = result.index! + result[0].length;
+    if (to === text.length || isLowerCase(text[to])) {
+      continue;
+    }
+    ranges.push({ from, to });
+    from = to;
+  }
+  if (from < text.length) {
+    ranges.push({ from, to: text.length });
+  }
+  return ranges;
+};
+
+/**
+ * Get the ranges of the sentences in the given text, as offsets into the
+ * text. Each sentence includes its trailing whitespace, so the ranges
+ * cover the whole text.
+ */
+export const getSentenceRanges = (
+  text: string,
+  segmenter: ISegmenter | undefined = defaultSegmenter
+): IRange[] => {
+  if (!segmenter) {
+    return getSentenceRangesWithRules(text);
+  }
+  return Array.from(segmenter.segment(text)).map(({ segment, index }) => ({
+    from: index,
+    to: index + segment.length
+  }));
+};
@@ -0,0 +1,81 @@
+import { IMatch } from "../interfaces/IMatch";
+
+export interface ISeverityLevel {
+  id: string;
+  // The name we display for the level, e.g. "Warning".
+  name: string;
+  // A hex colour, e.g. "#ffa500".
+  colour: string;
+}
+
+export const SEVERITY_ERROR = "error";
+export const SEVERITY_WARNING = "warning";
+export const SEVERITY_INFO = "info";
+export const SEVERITY_STYLE = "style";
+// Stands in for the severity of matches that don't have a known severity
+// level, so that we can count and filter them.
+export const SEVERITY_UNKNOWN = "unknown";
+
+export const defaultSeverityLevels: ISeverityLevel[] = [
+  { id: SEVERITY_ERROR, name: "Error", colour: "#d90000" },
+  { id: SEVERITY_WARNING, name: "Warning", colour: "#ffa500" },
+  { id: SEVERITY_INFO, name: "Info", colour: "#0077b6" },
+  { id: SEVERITY_STYLE, name: "Style", colour: "#8d8d8d" }
+];
+
+/**
+ * Get the id of the severity level for a match that doesn't specify one –
+ * e.g. from its category or rule.
+ */
+export type TGetMatchSeverity = (match: IMatch) => string | undefined;
+
+/**
+ * Colour matches by their severity level, or by the colour of their
+ * category.
+ */
+export type TColourMatchesBy = "severity" | "category";
+
+export interface ISeverityConfig {
+  // The severity levels, from most to least severe.
+  levels: ISeverityLevel[];
+  getMatchSeverity: TGetMatchSeverity;
+  colourBy: TColourMatchesBy;
+}
+
+export type TSeverityOptions = Partial<ISeverityConfig>;
+
+export const createSeverityConfig = ({
+  levels = defaultSeverityLevels,
+  getMatchSeverity = () => undefined,
+  colourBy = "severity"
+}: TSeverityOptions = {}): ISeverityConfig => ({
+  levels,
+  getMatchSeverity,
+  colourBy
+});
+
+/**
+ * Get the severity level for a match. A severity on the match itself takes
+ * precedence over the configured mapping.
+ */
+export const getSeverityForMatch = (
+  match: IMatch,
+  { levels, getMatchSeverity }: ISeverityConfig
+): ISeverityLevel | undefined => {
+  const severityId = match.severity || getMatchSeverity(match);
+  return levels.find(level => level.id === severityId);
+};
+
+/**
+ * Get the position of the match's severity level, from most to least
+ * severe. Matches without a known severity come last.
+ */
+export const getSeverityRank = (
+  match: IMatch,
+  severityConfig: ISeverityConfig
+) => {
+  const level = getSeverityForMatch(match, severityConfig);
+  return level
+    ? severityConfig.levels.indexOf(level)
+    : severityConfig.levels.length;
+};
@@ -0,0 +1,19 @@
+import { getBackoffDelay } from "../backoff";
+
+describe("Backoff utils", () => {
+  describe("getBackoffDelay", () => {
+    it("should double the delay with each attempt", () => {
+      expect(getBackoffDelay(0, 1000, 60000)).toBe(1000);
+      expect(getBackoffDelay(1, 1000, 60000)).toBe(2000);
+      expect(getBackoffDelay(3, 1000, 60000)).toBe(8000);
+    });
+    it("should not exceed the maximum delay", () => {
+      expect(getBackoffDelay(10, 1000, 60000)).toBe(60000);
+    });
+    it("should vary the delay by the given proportion of jitter", () => {
+      expect(getBackoffDelay(1, 1000, 60000, 0.5, () => 0)).toBe(1000);
+      expect(getBackoffDelay(1, 1000, 60000, 0.5, () => 0.5)).toBe(2000);
+      expect(getBackoffDelay(1, 1000, 60000, 0.5, () => 1)).toBe(3000);
+    });
+  });
+});
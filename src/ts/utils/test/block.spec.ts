@@ -1,4 +1,4 @@
-import { removeSkippedRanges } from "../block";
+import { createBlockHash, removeSkippedRanges } from "../block";
 
 describe("Block utils", () => {
   describe("removeSkippedRanges", () => {
@@ -141,4 +141,34 @@ describe("Block utils", () => {
       expect(newBlock.to).toBe(14);
     });
   });
+  describe("createBlockHash", () => {
+    const block = {
+      id: "id",
+      text: "Example [noted ]text",
+      from: 10,
+      to: 28,
+      skipRanges: [{ from: 18, to: 25 }]
+    };
+    it("should not change when the block moves", () => {
+      const movedBlock = {
+        ...block,
+        from: 20,
+        to: 38,
+        skipRanges: [{ from: 28, to: 35 }]
+      };
+      expect(createBlockHash(movedBlock, ["a"])).toBe(
+        createBlockHash(block, ["a"])
+      );
+    });
+    it("should change when the text, skipped ranges or categories change", () => {
+      const hash = createBlockHash(block, ["a"]);
+      expect(createBlockHash({ ...block, text: "Example" }, ["a"])).not.toBe(
+        hash
+      );
+      expect(createBlockHash({ ...block, skipRanges: [] }, ["a"])).not.toBe(
+        hash
+      );
+      expect(createBlockHash(block, ["b"])).not.toBe(hash);
+    });
+  });
 });
@@ -0,0 +1,144 @@
+import { IMatch } from "../../interfaces/IMatch";
+import { createMatch } from "../../test/helpers/fixtures";
+import { createConflictConfig, resolveConflicts } from "../conflicts";
+
+const createRuleMatch = (
+  ruleId: string,
+  from: number,
+  to: number,
+  suggestionTexts: string[] = []
+): IMatch => ({
+  ...createMatch(
+    from,
+    to,
+    suggestionTexts.map(text => ({ type: "TEXT_SUGGESTION" as const, text }))
+  ),
+  matchId: `${ruleId}-${from}-${to}`,
+  ruleId,
+  matcherType: ruleId
+});
+
+const getPriorityForRules = (ruleIds: string[]) => (match: IMatch) =>
+  ruleIds.length - ruleIds.indexOf(match.ruleId);
+
+describe("resolveConflicts", () => {
+  describe("deduplicate", () => {
+    const config = createConflictConfig({ strategy: "deduplicate" });
+
+    it("should keep the first of several matches with the same range and suggestions", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5, ["teh", "the"]),
+        createRuleMatch("regex", 1, 5, ["the", "teh"]),
+        createRuleMatch("regex", 7, 9, ["the"])
+      ];
+      expect(resolveConflicts(matches, config)).toEqual([
+        matches[0],
+        matches[2]
+      ]);
+    });
+
+    it("should keep matches for the same range with different suggestions", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5, ["the"]),
+        createRuleMatch("regex", 1, 5, ["then"])
+      ];
+      expect(resolveConflicts(matches, config)).toEqual(matches);
+    });
+
+    it("should keep the duplicate with the highest priority", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5, ["the"]),
+        createRuleMatch("regex", 1, 5, ["the"])
+      ];
+      const configWithPriority = createConflictConfig({
+        strategy: "deduplicate",
+        getMatchPriority: getPriorityForRules(["regex", "dictionary"])
+      });
+      expect(resolveConflicts(matches, configWithPriority)).toEqual([
+        matches[1]
+      ]);
+    });
+  });
+
+  describe("priority", () => {
+    const config = createConflictConfig({
+      strategy: "priority",
+      getMatchPriority: getPriorityForRules(["regex", "dictionary"])
+    });
+
+    it("should keep the highest priority match of those that overlap", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5, ["the"]),
+        createRuleMatch("regex", 3, 8, ["a different suggestion"]),
+        createRuleMatch("dictionary", 10, 12)
+      ];
+      expect(resolveConflicts(matches, config)).toEqual([
+        matches[1],
+        matches[2]
+      ]);
+    });
+
+    it("should keep matches that only abut one another", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5),
+        createRuleMatch("regex", 5, 8)
+      ];
+      expect(resolveConflicts(matches, config)).toEqual(matches);
+    });
+  });
+
+  describe("merge", () => {
+    const config = createConflictConfig({
+      strategy: "merge",
+      getMatchPriority: getPriorityForRules(["regex", "dictionary"])
+    });
+
+    it("should merge matches for the same range, with a source for each match", () => {
+      const dictionaryMatch = createRuleMatch("dictionary", 1, 5, [
+        "the",
+        "then"
+      ]);
+      const regexMatch = createRuleMatch("regex", 1, 5, ["the"]);
+      const [mergedMatch, ...rest] = resolveConflicts(
+        [dictionaryMatch, regexMatch],
+        config
+      );
+
+      expect(rest).toEqual([]);
+      expect(mergedMatch.matchId).toBe(regexMatch.matchId);
+      expect(mergedMatch.suggestions!.map(_ => _.text)).toEqual([
+        "the",
+        "then"
+      ]);
+      expect(mergedMatch.sources!.map(_ => _.matchId)).toEqual([
+        regexMatch.matchId,
+        dictionaryMatch.matchId
+      ]);
+    });
+
+    it("should not duplicate sources when a merged match is merged again", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5),
+        createRuleMatch("regex", 1, 5)
+      ];
+      const [mergedMatch] = resolveConflicts(matches, config);
+      const [remergedMatch] = resolveConflicts(
+        [mergedMatch, createRuleMatch("dictionary", 1, 5)],
+        config
+      );
+
+      expect(remergedMatch.sources!.map(_ => _.ruleId)).toEqual([
+        "regex",
+        "dictionary"
+      ]);
+    });
+
+    it("should leave matches for overlapping, but different, ranges alone", () => {
+      const matches = [
+        createRuleMatch("dictionary", 1, 5),
+        createRuleMatch("regex", 3, 8)
+      ];
+      expect(resolveConflicts(matches, config)).toEqual(matches);
+    });
+  });
+});
@@ -1,9 +1,12 @@
 import {
   createDecorationsForMatch,
   defaultMatchColours,
+  getColourForMatch,
+  getMatchDescriptionId,
   getMatchType,
   MatchType
 } from "../decoration";
+import { createSeverityConfig } from "../severity";
 import { createMatch } from "../../test/helpers/fixtures";
 import { IMatch } from "../../interfaces/IMatch";
 
@@ -58,6 +61,64 @@ describe("Decoration utils", () => {
         }
       ]);
     });
+    it("should describe the match to assistive technology", () => {
+      const match = createMatch(0, 5);
+      const [decoration] = createDecorationsForMatch(match);
+      expect((decoration as any).type.attrs["aria-describedby"]).toBe(
+        getMatchDescriptionId(match.matchId)
+      );
+    });
+  });
+  describe("getColourForMatch", () => {
+    const match = {
+      ...createMatch(0, 5),
+      severity: "error",
+      category: { id: "legal", name: "Legal", colour: "#0000ff" }
+    };
+    it("should colour matches by match type when we aren't using severity levels", () => {
+      expect(getColourForMatch(match, defaultMatchColours, false)).toEqual({
+        backgroundColour: `${defaultMatchColours.default}07`,
+        borderColour: `${defaultMatchColours.default}${defaultMatchColours.defaultOpacity}`
+      });
+    });
+    it("should colour matches by severity level", () => {
+      const severityConfig = createSeverityConfig({
+        levels: [{ id: "error", name: "Error", colour: "#ff0000" }]
+      });
+      expect(
+        getColourForMatch(match, defaultMatchColours, true, severityConfig)
+      ).toEqual({ backgroundColour: "#ff000050", borderColour: "#ff0000" });
+    });
+    it("should colour matches by category", () => {
+      const severityConfig = createSeverityConfig({ colourBy: "category" });
+      expect(
+        getColourForMatch(match, defaultMatchColours, false, severityConfig)
+      ).toEqual({ backgroundColour: "#0000ff07", borderColour: "#0000ff" });
+    });
+    it("should fall back to the match type when a match has no severity level", () => {
+      const severityConfig = createSeverityConfig();
+      expect(
+        getColourForMatch(
+          { ...match, severity: undefined },
+          defaultMatchColours,
+          false,
+          severityConfig
+        ).borderColour
+      ).toEqual(
+        `${defaultMatchColours.default}${defaultMatchColours.defaultOpacity}`
+      );
+    });
+    it("should add a class for the match's severity level to its decoration", () => {
+      const [decoration] = createDecorationsForMatch(
+        match,
+        defaultMatchColours,
+        true,
+        createSeverityConfig()
+      );
+      expect((decoration as any).type.attrs.class).toBe(
+        "MatchDecoration MatchDecoration--is-selected MatchDecoration--severity-error"
+      );
+    });
   });
   describe("getMatchType", () => {
     const defaultMatch = createMatch(0, 5);
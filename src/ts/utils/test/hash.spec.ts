@@ -0,0 +1,13 @@
+import { hashString } from "../hash";
+
+describe("Hash utils", () => {
+  describe("hashString", () => {
+    it("should produce the same hash for the same string", () => {
+      expect(hashString("Some text")).toBe(hashString("Some text"));
+    });
+    it("should produce different hashes for different strings and seeds", () => {
+      expect(hashString("Some text")).not.toBe(hashString("Some text."));
+      expect(hashString("Some text", 1)).not.toBe(hashString("Some text"));
+    });
+  });
+});
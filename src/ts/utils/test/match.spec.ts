@@ -1,5 +1,9 @@
 import { IMatch } from "../..";
-import { mapThroughSkippedRanges } from "../match";
+import {
+  getMatchContext,
+  mapThroughSkippedRanges,
+  removeConflictingSuggestions
+} from "../match";
 
 describe("Match helpers", () => {
   const getRuleMatch = (from: number, to: number): IMatch => ({
@@ -69,4 +73,37 @@ describe("Match helpers", () => {
       expect(mappedMatch.to).toBe(30);
     });
   });
+
+  describe("getMatchContext", () => {
+    it("should mark the match within its surrounding text", () => {
+      expect(getMatchContext("Example text with a match", 8, 12)).toEqual({
+        precedingText: "Example ",
+        subsequentText: " with a match",
+        matchContext: "Example [[text]] with a match"
+      });
+    });
+
+    it("should limit the surrounding text to the given length", () => {
+      expect(getMatchContext("Example text with a match", 8, 12, 3)).toEqual({
+        precedingText: "le ",
+        subsequentText: " wi",
+        matchContext: "le [[text]] wi"
+      });
+    });
+  });
+
+  describe("removeConflictingSuggestions", () => {
+    it("should keep the first of overlapping suggestions, and drop those without text", () => {
+      const suggestions = [
+        { from: 0, to: 5, text: "first" },
+        { from: 3, to: 8, text: "overlapping" },
+        { from: 10, to: 12, text: undefined },
+        { from: 10, to: 15, text: "second" }
+      ];
+      expect(removeConflictingSuggestions(suggestions)).toEqual([
+        suggestions[0],
+        suggestions[3]
+      ]);
+    });
+  });
 });
@@ -6,11 +6,42 @@ import {
   getRangesOfParentBlockNodes,
   mapRemovedRange,
   getIntersection,
-  mapAddedRange
+  mapAddedRange,
+  expandRangesToSentence
 } from "../range";
 import { createDoc, p } from "../../test/helpers/prosemirror";
 
 describe("Range utils", () => {
+  describe("expandRangesToSentence", () => {
+    // Sentences at 1-20, 21-30 and 31-39; the second paragraph is at 41-62.
+    const doc = createDoc(
+      p("The first sentence. A second. A third."),
+      p("Paragraph 2 - 39 - 60")
+    );
+    it("should expand ranges to the sentences they touch, leaving out trailing whitespace", () => {
+      expect(expandRangesToSentence([{ from: 22, to: 23 }], doc)).toEqual([
+        { from: 21, to: 30 }
+      ]);
+    });
+    it("should include every sentence a range spans", () => {
+      expect(expandRangesToSentence([{ from: 5, to: 23 }], doc)).toEqual([
+        { from: 1, to: 20 },
+        { from: 21, to: 30 }
+      ]);
+    });
+    it("should handle ranges that span several blocks", () => {
+      expect(expandRangesToSentence([{ from: 33, to: 42 }], doc)).toEqual([
+        { from: 31, to: 39 },
+        { from: 41, to: 62 }
+      ]);
+    });
+    it("should fall back to the block when there are no sentences to expand to", () => {
+      const docWithEmptyParagraph = createDoc(p("Some text."), p(""));
+      expect(
+        expandRangesToSentence([{ from: 13, to: 13 }], docWithEmptyParagraph)
+      ).toEqual([{ from: 13, to: 13 }]);
+    });
+  });
   describe("expandRangeToParentBlockNode", () => {
     const doc = createDoc(
       p("Paragraph 1 - 1 - 21"),
@@ -0,0 +1,42 @@
+import { getSentenceRanges, getSentenceRangesWithRules } from "../sentence";
+
+const text = "The first sentence. A second one! And a third, e.g. this one.";
+const getSentences = (ranges: Array<{ from: number; to: number }>) =>
+  ranges.map(range => text.slice(range.from, range.to));
+
+describe("Sentence utils", () => {
+  describe("getSentenceRanges", () => {
+    it("should get the ranges of the sentences in the text", () => {
+      expect(getSentences(getSentenceRanges(text))).toEqual([
+        "The first sentence. ",
+        "A second one! ",
+        "And a third, e.g. this one."
+      ]);
+    });
+    it("should fall back to rules when there's no segmenter", () => {
+      expect(getSentenceRanges(text, undefined)).toEqual(
+        getSentenceRangesWithRules(text)
+      );
+    });
+  });
+  describe("getSentenceRangesWithRules", () => {
+    it("should split sentences on terminal punctuation followed by whitespace", () => {
+      expect(getSentences(getSentenceRangesWithRules(text))).toEqual([
+        "The first sentence. ",
+        "A second one! ",
+        "And a third, e.g. this one."
+      ]);
+    });
+    it("should keep closing quotes with the sentence they close", () => {
+      expect(
+        getSentenceRangesWithRules(`"Is it?" she asked. "Yes."`)
+      ).toEqual([
+        { from: 0, to: 20 },
+        { from: 20, to: 26 }
+      ]);
+    });
+    it("should handle empty text", () => {
+      expect(getSentenceRangesWithRules("")).toEqual([]);
+    });
+  });
+});